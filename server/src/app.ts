@@ -0,0 +1,348 @@
+import { randomUUID } from 'node:crypto';
+import type { IncomingMessage, RequestListener, ServerResponse } from 'node:http';
+import type { EmbeddingProvider, LLMGenerationConfig, LLMProvider, LLMResponse } from '../../src/types';
+import { AuthError, ConfigurationError, LLMError, QuotaError, UsageLimitError, toLLMError } from '../../src/utils/llm/errors';
+import type { LLMErrorKind } from '../../src/utils/llm/errors';
+import { estimateTokens } from '../../src/utils/llm/fileData';
+import { MAX_EMBEDDING_TEXTS, MAX_EMBEDDING_TEXT_CHARS, toProxyError } from '../../src/utils/llm/proxyProtocol';
+import type {
+  ProxyChatRequest,
+  ProxyEmbeddingRequest,
+  ProxyEmbeddingResponse,
+  ProxySession,
+  ProxyStreamEvent
+} from '../../src/utils/llm/proxyProtocol';
+import { bearerToken, issueToken, matchesSecret, verifyToken } from './auth';
+import type { ServerConfig } from './config';
+import { DailyQuota } from './dailyQuota';
+import { logRequest } from './logger';
+import type { RequestLogEntry } from './logger';
+import { RateLimiter } from './rateLimiter';
+
+// Status sent for an error reported by the model provider. Its own auth
+// failures are the server's problem (a bad key), not the caller's.
+const UPSTREAM_STATUS: Record<LLMErrorKind, number> = {
+  auth: 502,
+  quota: 429,
+  limit: 429,
+  safety: 422,
+  network: 502,
+  timeout: 504,
+  empty: 502,
+  config: 500,
+  unknown: 502
+};
+
+
+// Mutable per-request log fields filled in by the handlers
+type LogFields = Partial<Pick<RequestLogEntry, 'user' | 'model' | 'tokens' | 'error'>>;
+
+const badRequest = (message: string) => new LLMError(message, { status: 400 });
+
+const sendJson = (res: ServerResponse, status: number, body: unknown): void => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, status: number, error: LLMError): void => {
+  if (error.retryAfterMs !== undefined) {
+    res.setHeader('Retry-After', String(Math.ceil(error.retryAfterMs / 1000)));
+  }
+  sendJson(res, status, { error: toProxyError(error) });
+};
+
+const readJson = async (req: IncomingMessage, maxBytes: number): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) throw new LLMError('Request body is too large.', { status: 413 });
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw badRequest('Request body must be JSON.');
+  }
+};
+
+// Shape check only; the provider validates the details
+const parseChatRequest = (body: unknown): ProxyChatRequest => {
+  const request = body as Partial<ProxyChatRequest> | null;
+  if (
+    !request ||
+    typeof request.model !== 'string' ||
+    typeof request.systemInstruction !== 'string' ||
+    !Array.isArray(request.contents) ||
+    request.contents.length === 0 ||
+    typeof request.generationConfig !== 'object' ||
+    request.generationConfig === null
+  ) {
+    throw badRequest('Expected an LLM request with model, systemInstruction, contents and generationConfig.');
+  }
+  return request as ProxyChatRequest;
+};
+
+const parseEmbeddingRequest = (body: unknown): ProxyEmbeddingRequest => {
+  const request = body as Partial<ProxyEmbeddingRequest> | null;
+  if (
+    !request ||
+    typeof request.model !== 'string' ||
+    (request.purpose !== 'document' && request.purpose !== 'query') ||
+    !Array.isArray(request.texts) ||
+    request.texts.length === 0 ||
+    request.texts.length > MAX_EMBEDDING_TEXTS ||
+    !request.texts.every(text => typeof text === 'string' && text.length <= MAX_EMBEDDING_TEXT_CHARS)
+  ) {
+    throw badRequest(
+      `Expected an embedding request with model, purpose and 1-${MAX_EMBEDDING_TEXTS} texts of at most ${MAX_EMBEDDING_TEXT_CHARS} characters.`
+    );
+  }
+  return request as ProxyEmbeddingRequest;
+};
+
+const clamp = (value: unknown, min: number, max: number, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+// The generation settings the server is willing to pay for. Only known
+// fields are forwarded, each within the range the app itself allows.
+const limitGenerationConfig = (config: Partial<LLMGenerationConfig>, maxOutputTokens: number): LLMGenerationConfig => ({
+  temperature: clamp(config.temperature, 0, 2, 0.7),
+  topP: clamp(config.topP, 0, 1, 0.8),
+  ...(config.topK !== undefined && { topK: Math.round(clamp(config.topK, 1, 100, 40)) }),
+  maxOutputTokens: Math.round(clamp(config.maxOutputTokens, 1, maxOutputTokens, Math.min(2048, maxOutputTokens)))
+});
+
+const fromUpstream = (error: unknown): LLMError => {
+  const llmError = toLLMError(error);
+  return llmError.kind === 'auth'
+    ? new ConfigurationError(`The model provider rejected the server's credentials: ${llmError.message}`, { cause: llmError })
+    : llmError;
+};
+
+const upstreamStatus = (error: LLMError): number =>
+  // Malformed requests (unknown model, bad schema) are the caller's to fix
+  error.kind === 'unknown' && error.status === 400 ? 400 : UPSTREAM_STATUS[error.kind];
+
+// Request handler for the proxy:
+//   GET  /api/health       liveness and the upstream provider name
+//   POST /api/session      exchange an access key for a guest session token
+//   POST /api/chat         one complete LLMResponse
+//   POST /api/chat/stream  newline-delimited ProxyStreamEvents
+//   POST /api/embeddings   knowledge base vectors, when an embedder is configured
+export const createApp = (config: ServerConfig, upstream: LLMProvider, embedder: EmbeddingProvider | null = null): RequestListener => {
+  const chatLimiter = new RateLimiter(config.chatRequestsPerMinute);
+  const addressLimiter = new RateLimiter(config.addressRequestsPerMinute);
+  const sessionLimiter = new RateLimiter(config.sessionRequestsPerMinute);
+  const addressQuota = new DailyQuota(config.dailyTokens);
+  setInterval(() => {
+    chatLimiter.prune();
+    addressLimiter.prune();
+    sessionLimiter.prune();
+  }, 60_000).unref();
+
+  const applyCors = (req: IncomingMessage, res: ServerResponse): void => {
+    const origin = req.headers.origin;
+    if (origin && (config.allowedOrigins.includes(origin) || config.allowedOrigins.includes('*'))) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Vary', 'Origin');
+      res.setHeader('Access-Control-Expose-Headers', 'Retry-After');
+    }
+  };
+
+  const authenticate = (req: IncomingMessage): string => {
+    const token = bearerToken(req.headers.authorization);
+    const claims = token ? verifyToken(token, config.authSecret) : null;
+    if (!claims) throw new AuthError('Missing or expired session token.', { status: 401 });
+    return claims.sub;
+  };
+
+  const limit = (limiter: RateLimiter, key: string, message: string): void => {
+    const waitMs = limiter.take(key);
+    if (waitMs > 0) throw new QuotaError(message, { status: 429, retryAfterMs: waitMs });
+  };
+
+  const clientAddress = (req: IncomingMessage): string => req.socket.remoteAddress ?? 'unknown';
+
+  // Sessions are only issued to clients holding an access key. The key ships
+  // in the app bundle and accounts live in the browser, so the server cannot
+  // tell who is calling: every session is a guest with an id chosen here, and
+  // spending is bounded per client address instead.
+  const handleSession = async (req: IncomingMessage, res: ServerResponse, log: LogFields) => {
+    limit(sessionLimiter, clientAddress(req), 'Too many session requests. Please wait a moment.');
+    const key = bearerToken(req.headers.authorization);
+    if (config.accessKeys.length > 0 && !(key && matchesSecret(key, config.accessKeys))) {
+      throw new AuthError('A valid access key is required to start a session.', { status: 401 });
+    }
+
+    const subject = `guest-${randomUUID()}`;
+    log.user = subject;
+    const expiresAt = Date.now() + config.sessionTtlMs;
+    const session: ProxySession = { token: issueToken({ sub: subject, exp: expiresAt }, config.authSecret), expiresAt, userId: subject };
+    sendJson(res, 200, session);
+  };
+
+  // Authenticate, rate limit and parse a chat request
+  const prepareChat = async (req: IncomingMessage, log: LogFields): Promise<ProxyChatRequest> => {
+    log.user = authenticate(req);
+    // Per address as well, so fresh sessions cannot reset the allowance
+    limit(addressLimiter, clientAddress(req), 'Too many requests. Please wait a moment before asking again.');
+    limit(chatLimiter, log.user, 'Too many requests. Please wait a moment before asking again.');
+    const resetsInMs = addressQuota.check(clientAddress(req));
+    if (resetsInMs > 0) {
+      throw new UsageLimitError(
+        `Daily limit of ${config.dailyTokens.toLocaleString('en-US')} tokens reached on this server for the ${config.quotaTier} plan.`,
+        'tokens',
+        new Date(Date.now() + resetsInMs),
+        { status: 429, retryAfterMs: resetsInMs }
+      );
+    }
+    const request = parseChatRequest(await readJson(req, config.maxBodyBytes));
+    const { model: forced, models, maxOutputTokens } = config.upstream;
+    const model = forced ?? request.model;
+    log.model = model;
+    if (!models.includes(model)) {
+      throw badRequest(`Model ${model} is not available on this server. Use one of: ${models.join(', ')}.`);
+    }
+    return { ...request, model, generationConfig: limitGenerationConfig(request.generationConfig, maxOutputTokens) };
+  };
+
+  // Abort the upstream call when the browser goes away
+  const abortOnClose = (res: ServerResponse): AbortSignal => {
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+    return controller.signal;
+  };
+
+  const handleChat = async (req: IncomingMessage, res: ServerResponse, log: LogFields) => {
+    const request = await prepareChat(req, log);
+    let response: LLMResponse;
+    try {
+      response = await upstream.generate({ ...request, signal: abortOnClose(res) });
+    } catch (error) {
+      const llmError = fromUpstream(error);
+      log.error = llmError.message;
+      sendError(res, upstreamStatus(llmError), llmError);
+      return;
+    }
+    log.tokens = response.usage?.totalTokens;
+    addressQuota.record(clientAddress(req), response.usage?.totalTokens ?? estimateTokens(request));
+    sendJson(res, 200, response);
+  };
+
+  const handleChatStream = async (req: IncomingMessage, res: ServerResponse, log: LogFields) => {
+    const request = await prepareChat(req, log);
+    const send = (event: ProxyStreamEvent) => res.write(`${JSON.stringify(event)}\n`);
+    // Headers go out with the first chunk, so failures before any text still
+    // get a proper status (a 429 the client can retry, for instance)
+    const start = () => {
+      if (!res.headersSent) {
+        res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+      }
+    };
+
+    try {
+      const response = await upstream.stream({ ...request, signal: abortOnClose(res) }, delta => {
+        start();
+        send({ delta });
+      });
+      start();
+      send({ response });
+      log.tokens = response.usage?.totalTokens;
+      addressQuota.record(clientAddress(req), response.usage?.totalTokens ?? estimateTokens(request));
+    } catch (error) {
+      const llmError = fromUpstream(error);
+      log.error = llmError.message;
+      if (!res.headersSent) {
+        sendError(res, upstreamStatus(llmError), llmError);
+        return;
+      }
+      send({ error: toProxyError(llmError) });
+    }
+    res.end();
+  };
+
+  // Same session and rate limits as chat. Embeddings cost a small fraction
+  // of a chat request, so they are not counted against the daily allowance.
+  const handleEmbeddings = async (req: IncomingMessage, res: ServerResponse, log: LogFields) => {
+    log.user = authenticate(req);
+    limit(addressLimiter, clientAddress(req), 'Too many requests. Please wait a moment before asking again.');
+    limit(chatLimiter, log.user, 'Too many requests. Please wait a moment before asking again.');
+    const request = parseEmbeddingRequest(await readJson(req, config.maxBodyBytes));
+    log.model = request.model;
+    if (!embedder) {
+      throw new ConfigurationError('This server has no embedding model configured; the knowledge base uses keyword search only.', { status: 501 });
+    }
+    if (request.model !== embedder.model) {
+      throw badRequest(`Embedding model ${request.model} is not available on this server. Use ${embedder.model}.`);
+    }
+
+    let embeddings: number[][];
+    try {
+      embeddings = await embedder.embed(request.texts, request.purpose, abortOnClose(res));
+    } catch (error) {
+      const llmError = fromUpstream(error);
+      log.error = llmError.message;
+      sendError(res, upstreamStatus(llmError), llmError);
+      return;
+    }
+    sendJson(res, 200, { embeddings } satisfies ProxyEmbeddingResponse);
+  };
+
+  return async (req, res) => {
+    const startedAt = Date.now();
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    const log: LogFields = {};
+    // 'close' also fires when the client disconnects mid-stream
+    res.on('close', () => {
+      logRequest({
+        method: req.method ?? '',
+        path,
+        status: res.statusCode,
+        durationMs: Date.now() - startedAt,
+        ...log,
+        ...(!res.writableFinished && { error: log.error ?? 'Client disconnected' })
+      });
+    });
+
+    applyCors(req, res);
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, {
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+        'Access-Control-Max-Age': '600'
+      });
+      res.end();
+      return;
+    }
+
+    try {
+      const route = `${req.method} ${path}`;
+      switch (route) {
+        case 'GET /api/health':
+          sendJson(res, 200, { status: 'ok', provider: upstream.name });
+          return;
+        case 'POST /api/session':
+          return await handleSession(req, res, log);
+        case 'POST /api/chat':
+          return await handleChat(req, res, log);
+        case 'POST /api/chat/stream':
+          return await handleChatStream(req, res, log);
+        case 'POST /api/embeddings':
+          return await handleEmbeddings(req, res, log);
+        default:
+          throw new LLMError(`No route for ${route}`, { status: 404 });
+      }
+    } catch (error) {
+      const llmError = toLLMError(error);
+      log.error ??= llmError.message;
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      sendError(res, llmError.status ?? 500, llmError);
+    }
+  };
+};
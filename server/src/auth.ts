@@ -0,0 +1,45 @@
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto';
+
+export interface SessionClaims {
+  sub: string; // User id (or per-browser guest id)
+  exp: number; // Epoch milliseconds
+}
+
+const sign = (payload: string, secret: string): string =>
+  createHmac('sha256', secret).update(payload).digest('base64url');
+
+// Stateless session token: base64url(claims).signature
+export const issueToken = (claims: SessionClaims, secret: string): string => {
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${payload}.${sign(payload, secret)}`;
+};
+
+// Claims of a valid, unexpired token, or null
+export const verifyToken = (token: string, secret: string, now = Date.now()): SessionClaims | null => {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString()) as Partial<SessionClaims>;
+    if (typeof claims.sub !== 'string' || typeof claims.exp !== 'number' || claims.exp <= now) return null;
+    return { sub: claims.sub, exp: claims.exp };
+  } catch {
+    return null;
+  }
+};
+
+const digest = (value: string): Buffer => createHash('sha256').update(value).digest();
+
+// Whether the candidate equals one of the secrets, compared in constant time
+export const matchesSecret = (candidate: string, secrets: string[]): boolean =>
+  secrets.reduce((found, secret) => timingSafeEqual(digest(candidate), digest(secret)) || found, false);
+
+// Bearer token from an Authorization header
+export const bearerToken = (header: string | undefined): string | null => {
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+};
@@ -0,0 +1,112 @@
+import { randomBytes } from 'node:crypto';
+import { QuotaService } from '../../src/services/quotaService';
+import type { LLMProviderName, MembershipTier } from '../../src/types';
+
+export interface UpstreamConfig {
+  provider: LLMProviderName;
+  apiKey?: string;
+  baseUrl?: string; // OpenAI-compatible endpoint
+  model?: string; // When set, every request uses this model whatever the client asks for
+  models: string[]; // Otherwise clients may pick one of these
+  maxOutputTokens: number; // Cap on the answer length a client may ask for
+  embeddingModel?: string; // Knowledge base embeddings; unset turns /api/embeddings off
+}
+
+export interface ServerConfig {
+  port: number;
+  allowedOrigins: string[]; // Browser origins allowed to call the API
+  upstream: UpstreamConfig;
+  authSecret: string; // Signs session tokens
+  accessKeys: string[]; // Clients must present one to start a session; empty only for the mock
+  quotaTier: MembershipTier; // Plan whose daily token allowance applies to each client address
+  dailyTokens: number;
+  sessionTtlMs: number;
+  chatRequestsPerMinute: number; // Per session
+  addressRequestsPerMinute: number; // Chat requests per client address, whatever the user
+  sessionRequestsPerMinute: number; // Per client address
+  maxBodyBytes: number; // Requests carry attached files inline as base64
+}
+
+const UPSTREAM_PROVIDERS: LLMProviderName[] = ['gemini', 'openai-compatible', 'mock'];
+const QUOTA_TIERS: MembershipTier[] = ['Guest', 'Free', 'Premium'];
+
+// Models clients may choose when LLM_MODEL and LLM_MODELS are unset. The mock
+// accepts the Gemini names too, so the app's defaults work against it.
+const DEFAULT_MODELS: Partial<Record<LLMProviderName, string[]>> = {
+  gemini: ['gemini-1.5-flash', 'gemini-1.5-pro'],
+  mock: ['gemini-1.5-flash', 'gemini-1.5-pro', 'fortas-mock-1']
+};
+
+// Embedding model when EMBEDDING_MODEL is unset. The mock has none, so the
+// knowledge base falls back to keyword search against it.
+const DEFAULT_EMBEDDING_MODELS: Partial<Record<LLMProviderName, string>> = {
+  gemini: 'text-embedding-004'
+};
+
+const toList = (value: string | undefined): string[] =>
+  (value || '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+
+const toNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// Read the configuration from environment variables. Without GEMINI_API_KEY
+// (or LLM_PROVIDER) the server answers from the offline mock provider, which
+// is what local development runs against.
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): ServerConfig => {
+  const requested = env.LLM_PROVIDER as LLMProviderName | undefined;
+  if (requested && !UPSTREAM_PROVIDERS.includes(requested)) {
+    throw new Error(`LLM_PROVIDER must be one of ${UPSTREAM_PROVIDERS.join(', ')}`);
+  }
+  const provider: LLMProviderName = requested ?? (env.GEMINI_API_KEY ? 'gemini' : 'mock');
+
+  // A random secret is fine for the mock (tokens just stop working on restart);
+  // anything that spends real API credit needs a fixed one
+  const authSecret = env.AUTH_SECRET || (provider === 'mock' ? randomBytes(32).toString('hex') : '');
+  if (!authSecret) {
+    throw new Error('AUTH_SECRET is not configured. Set it to a long random string to sign session tokens.');
+  }
+
+  const accessKeys = toList(env.ACCESS_KEYS);
+  if (accessKeys.length === 0 && provider !== 'mock') {
+    throw new Error('ACCESS_KEYS is not configured. Set it to one or more comma-separated keys that clients present to start a session.');
+  }
+
+  const quotaTier = (env.DAILY_QUOTA_TIER || 'Free') as MembershipTier;
+  if (!QUOTA_TIERS.includes(quotaTier)) {
+    throw new Error(`DAILY_QUOTA_TIER must be one of ${QUOTA_TIERS.join(', ')}`);
+  }
+
+  const model = env.LLM_MODEL || undefined;
+  const models = model ? [model] : toList(env.LLM_MODELS).length > 0 ? toList(env.LLM_MODELS) : DEFAULT_MODELS[provider] ?? [];
+  if (models.length === 0) {
+    throw new Error('LLM_MODEL or LLM_MODELS is not configured. Name the models clients may use.');
+  }
+
+  return {
+    port: toNumber(env.PORT, 8787),
+    allowedOrigins: toList(env.ALLOWED_ORIGINS || 'http://localhost:5173'),
+    upstream: {
+      provider,
+      apiKey: (provider === 'gemini' ? env.GEMINI_API_KEY : env.LLM_API_KEY) || undefined,
+      baseUrl: env.LLM_BASE_URL || undefined,
+      model,
+      models,
+      maxOutputTokens: toNumber(env.MAX_OUTPUT_TOKENS, 8192),
+      embeddingModel: env.EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODELS[provider]
+    },
+    authSecret,
+    accessKeys,
+    quotaTier,
+    dailyTokens: QuotaService.getLimits(quotaTier).tokens,
+    sessionTtlMs: toNumber(env.SESSION_TTL_HOURS, 12) * 60 * 60 * 1000,
+    chatRequestsPerMinute: toNumber(env.RATE_LIMIT_PER_MINUTE, 20),
+    addressRequestsPerMinute: toNumber(env.ADDRESS_RATE_LIMIT_PER_MINUTE, 60),
+    sessionRequestsPerMinute: toNumber(env.SESSION_RATE_LIMIT_PER_MINUTE, 10),
+    maxBodyBytes: toNumber(env.MAX_BODY_MB, 25) * 1024 * 1024
+  };
+};
@@ -0,0 +1,31 @@
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Tokens used per key since midnight UTC, kept in memory: a restart starts
+// everyone's day afresh
+export class DailyQuota {
+  private readonly used = new Map<string, number>();
+  private day = Math.floor(Date.now() / DAY_MS);
+
+  constructor(private readonly limit: number) {}
+
+  // Returns 0 while the key has allowance left, otherwise how long until it
+  // resets. Tokens are only known afterwards, so any allowance left admits a
+  // request, as in the app's own QuotaService.
+  check(key: string, now = Date.now()): number {
+    this.rollOver(now);
+    return (this.used.get(key) ?? 0) >= this.limit ? (this.day + 1) * DAY_MS - now : 0;
+  }
+
+  record(key: string, tokens: number, now = Date.now()): void {
+    this.rollOver(now);
+    this.used.set(key, (this.used.get(key) ?? 0) + tokens);
+  }
+
+  private rollOver(now: number): void {
+    const day = Math.floor(now / DAY_MS);
+    if (day !== this.day) {
+      this.day = day;
+      this.used.clear();
+    }
+  }
+}
@@ -0,0 +1,14 @@
+import { createServer } from 'node:http';
+import { createApp } from './app';
+import { loadConfig } from './config';
+import { createEmbedder, createUpstream } from './upstream';
+
+const config = loadConfig();
+const upstream = createUpstream(config.upstream);
+
+createServer(createApp(config, upstream, createEmbedder(config.upstream))).listen(config.port, () => {
+  console.log(`LLM proxy listening on http://localhost:${config.port} (provider: ${upstream.name})`);
+  if (upstream.name === 'mock') {
+    console.log('No GEMINI_API_KEY set; answering from the offline mock provider.');
+  }
+});
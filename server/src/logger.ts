@@ -0,0 +1,15 @@
+export interface RequestLogEntry {
+  method: string;
+  path: string;
+  status: number;
+  durationMs: number;
+  user?: string;
+  model?: string;
+  tokens?: number;
+  error?: string;
+}
+
+// One JSON line per request on stdout. Prompts and answers are never logged.
+export const logRequest = (entry: RequestLogEntry): void => {
+  console.log(JSON.stringify({ time: new Date().toISOString(), ...entry }));
+};
@@ -0,0 +1,26 @@
+// Sliding-window limiter: at most `limit` hits per key within `windowMs`
+export class RateLimiter {
+  private readonly hits = new Map<string, number[]>();
+
+  constructor(private readonly limit: number, private readonly windowMs = 60_000) {}
+
+  // Count a hit for the key. Returns 0 when allowed, otherwise how long to
+  // wait until the oldest hit leaves the window.
+  take(key: string, now = Date.now()): number {
+    const recent = (this.hits.get(key) ?? []).filter(time => now - time < this.windowMs);
+    if (recent.length >= this.limit) {
+      this.hits.set(key, recent);
+      return recent[0] + this.windowMs - now;
+    }
+    recent.push(now);
+    this.hits.set(key, recent);
+    return 0;
+  }
+
+  // Forget keys with no hits inside the window so idle users don't pile up
+  prune(now = Date.now()): void {
+    for (const [key, times] of this.hits) {
+      if (times.every(time => now - time >= this.windowMs)) this.hits.delete(key);
+    }
+  }
+}
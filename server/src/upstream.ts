@@ -0,0 +1,36 @@
+import type { EmbeddingProvider, LLMProvider } from '../../src/types';
+import { GeminiEmbeddingProvider, OpenAICompatibleEmbeddingProvider } from '../../src/utils/llm/embeddings';
+import { GeminiProvider } from '../../src/utils/llm/geminiProvider';
+import { MockProvider } from '../../src/utils/llm/mockProvider';
+import { OpenAICompatibleProvider } from '../../src/utils/llm/openAICompatibleProvider';
+import type { UpstreamConfig } from './config';
+
+// The model provider requests are forwarded to. The server reuses the app's
+// own provider classes, so both sides speak the same LLMRequest/LLMResponse.
+export const createUpstream = (config: UpstreamConfig): LLMProvider => {
+  switch (config.provider) {
+    case 'gemini':
+      if (!config.apiKey) throw new Error('GEMINI_API_KEY is not configured.');
+      return new GeminiProvider(config.apiKey);
+    case 'openai-compatible':
+      if (!config.baseUrl) throw new Error('LLM_BASE_URL is not configured for the OpenAI-compatible provider.');
+      return new OpenAICompatibleProvider(config.baseUrl, config.apiKey);
+    case 'mock':
+      return new MockProvider();
+    default:
+      throw new Error(`Unsupported upstream provider: ${config.provider}`);
+  }
+};
+
+// The embedding model behind /api/embeddings, or null when none is configured
+export const createEmbedder = (config: UpstreamConfig): EmbeddingProvider | null => {
+  if (!config.embeddingModel) return null;
+  switch (config.provider) {
+    case 'gemini':
+      return config.apiKey ? new GeminiEmbeddingProvider(config.apiKey, config.embeddingModel) : null;
+    case 'openai-compatible':
+      return config.baseUrl ? new OpenAICompatibleEmbeddingProvider(config.baseUrl, config.embeddingModel, config.apiKey) : null;
+    default:
+      return null;
+  }
+};
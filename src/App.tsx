@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { Factory } from 'lucide-react';
 import Header from './components/Header';
 import { Sidebar } from './components/Sidebar';
@@ -12,36 +12,78 @@ import { UserProfile } from './components/UserProfile';
 import { useAuth } from './contexts/AuthContext';
 import { useChatHistory } from './contexts/ChatHistoryContext';
 import { useTheme } from './contexts/ThemeContext';
+import { useUsage } from './contexts/UsageContext';
 import { AuthService } from './services/authService';
-import { generateResponse } from './utils/gemini';
-import type { Message, UserRole, ChatState, ChatHistory, FileUpload } from './types';
+import { generatePanelResponse, generateResponse } from './utils/gemini';
+import type { GenerateOptions, GenerateResult } from './utils/gemini';
+import { toLLMError } from './utils/llm/errors';
+import { generateFollowUps } from './utils/followUps';
+import { ModelSettingsService } from './services/modelSettingsService';
+import { FileLibraryService } from './services/fileLibraryService';
+import { dropActiveVariant, getActiveVariantIndex, hasAnswerText, selectVariant, startVariant, syncActiveVariant } from './utils/answerVariants';
+import type { RegenerateOptions } from './utils/answerVariants';
+import { addMessage, appendMessage, createMessageTree, getActiveMessages, getSiblingIds, removeMessage, switchBranch, updateMessage } from './utils/messageTree';
+import type { LLMError, LLMErrorKind } from './utils/llm/errors';
+import type { Message, MessageTree, UserRole, ChatState, ChatHistory, FileUpload } from './types';
+
+const ERROR_RETRY_LABELS: Record<LLMErrorKind, string> = {
+  auth: 'Authentication failed.',
+  quota: 'Rate limit reached.',
+  limit: 'Daily limit reached.',
+  safety: 'Blocked by safety filters.',
+  network: 'Connection problem.',
+  timeout: 'The model is slow to respond.',
+  empty: 'Empty answer received.',
+  config: 'Configuration error.',
+  unknown: 'Something went wrong.'
+};
+
+interface AnswerRequestOptions {
+  bypassCache?: boolean;
+  continueMessage?: Message; // Resume this cut-off answer in place
+  variantOf?: Message; // Add the answer as a new variant of this message
+  regenerate?: RegenerateOptions;
+  panelRoles?: UserRole[]; // Consult these experts as a panel instead of one role
+}
 
 function App() {
   const { user, isAuthenticated, logout } = useAuth();
-  const { saveChatHistory, loadChatHistory, setCurrentChatId } = useChatHistory();
+  const { saveChatHistory, updateCurrentChat, currentChatId, setCurrentChatId } = useChatHistory();
   const { isDarkMode } = useTheme();
+  const { usageKey, status: usageStatus } = useUsage();
   const [showLogin, setShowLogin] = useState(true);
   const [showAuth, setShowAuth] = useState(false);
   const [showProfile, setShowProfile] = useState(false);
   const [chatState, setChatState] = useState<ChatState>({
-    messages: [],
+    tree: createMessageTree(),
     isLoading: false,
     selectedRole: 'Operations',
+    panelRoles: [],
     uploadedFiles: []
   });
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<LLMError | null>(null);
+  const [failedTurn, setFailedTurn] = useState<{ userMessage: Message; history: Message[]; options: AnswerRequestOptions } | null>(null);
+  const [retryStatus, setRetryStatus] = useState<string | null>(null);
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const isPremium = user?.membershipType === 'Premium';
+  // The branch being shown; every other branch stays in chatState.tree
+  const messages = getActiveMessages(chatState.tree);
+  // New questions go to the expert panel while one is selected
+  const panelOptions: AnswerRequestOptions = chatState.panelRoles.length > 0 ? { panelRoles: chatState.panelRoles } : {};
+  // Out of messages or tokens for today, as ChatInput checks before sending
+  const limitReached = usageStatus.exceeded.some(metric => metric !== 'files');
 
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  const scrollToBottom = (behavior: ScrollBehavior = 'smooth') => {
+    messagesEndRef.current?.scrollIntoView({ behavior });
   };
 
   useEffect(() => {
-    scrollToBottom();
-  }, [chatState.messages, chatState.isLoading]);
+    // Smooth scrolling on every streamed chunk makes the view jitter
+    scrollToBottom(chatState.isLoading ? 'auto' : 'smooth');
+  }, [chatState.tree, chatState.isLoading]);
 
   // Check authentication status on mount
   useEffect(() => {
@@ -69,87 +111,354 @@ function App() {
     setShowProfile(true);
   };
 
-  const handleSendMessage = async (content: string) => {
-    if (!import.meta.env.VITE_GEMINI_API_KEY) {
-      setError('GEMINI_API_KEY is not configured. Please set VITE_GEMINI_API_KEY in your environment variables.');
-      return;
+  // Fetch follow-up suggestions for a finished answer and attach them, as
+  // long as the message still shows that answer. They are an extra, so
+  // failures are only logged.
+  const suggestFollowUps = async (assistantId: string, question: string, answer: string, role: UserRole | 'General AI') => {
+    if (user?.settings?.followUpSuggestions === false || !answer.trim()) return;
+    try {
+      const tier = ModelSettingsService.getTier(isAuthenticated, isPremium);
+      const followUps = await generateFollowUps(question, answer, role, tier, usageKey);
+      if (followUps.length === 0) return;
+      setChatState(prev => ({
+        ...prev,
+        tree: updateMessage(prev.tree, assistantId, m => (m.content === answer ? syncActiveVariant({ ...m, followUps }) : m))
+      }));
+    } catch (err) {
+      console.warn('Could not suggest follow-up questions:', err);
+    }
+  };
+
+  // Stream an assistant answer for userMessage. history holds the messages
+  // that came before it; userMessage must already be in the tree, and the
+  // answer is added as its reply. Passing
+  // continueMessage resumes that cut-off answer in place, and variantOf adds
+  // the answer to that message as another variant.
+  const requestAnswer = async (userMessage: Message, history: Message[], options: AnswerRequestOptions = {}) => {
+    const { bypassCache = false, continueMessage, variantOf, regenerate, panelRoles } = options;
+    const assistantId = continueMessage?.id ?? variantOf?.id ?? (Date.now() + 1).toString();
+    const role = regenerate?.role ?? chatState.selectedRole;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setError(null);
+    setFailedTurn(null);
+
+    if (variantOf) {
+      setChatState(prev => ({
+        ...prev,
+        tree: updateMessage(prev.tree, assistantId, m => startVariant(m, panelRoles ? undefined : role))
+      }));
+    }
+
+    // An answer that produced no text is dropped: the whole message, or
+    // just the new variant
+    const discardEmpty = (tree: MessageTree): MessageTree =>
+      variantOf
+        ? updateMessage(tree, assistantId, m => dropActiveVariant(m, getActiveVariantIndex(variantOf)))
+        : removeMessage(tree, assistantId);
+
+    // Insert or update the streaming assistant message in place
+    const upsertAssistant = (updates: Partial<Message>) => {
+      setChatState(prev => ({
+        ...prev,
+        tree: prev.tree.nodes[assistantId]
+          ? updateMessage(prev.tree, assistantId, m => syncActiveVariant({ ...m, ...updates }))
+          : addMessage(prev.tree, userMessage.id, {
+              id: assistantId,
+              role: 'assistant',
+              content: '',
+              timestamp: new Date(),
+              ...updates
+            })
+      }));
+    };
+
+    // Coalesce chunk updates to one render per animation frame
+    let pending: GenerateResult | null = null;
+    let frame: number | null = null;
+    const flushChunk = () => {
+      frame = null;
+      if (pending !== null) {
+        upsertAssistant({ ...pending, isStreaming: true });
+        pending = null;
+      }
+    };
+    const cancelFlush = () => {
+      if (frame !== null) cancelAnimationFrame(frame);
+      frame = null;
+      pending = null;
+    };
+
+    // Attachments in saved chats are library references without their bytes
+    const withFileContent = async (message: Message): Promise<Message> =>
+      user && message.files
+        ? { ...message, files: await FileLibraryService.resolveFiles(user.id, message.files) }
+        : message;
+
+    try {
+      const [question, ...earlier] = await Promise.all([userMessage, ...history].map(withFileContent));
+      const generateOptions: GenerateOptions = {
+        history: earlier,
+        bypassCache,
+        continueFrom: continueMessage?.resumeFrom,
+        knowledgeBase: user && isPremium ? { userId: user.id } : undefined,
+        usageKey,
+        generationSettings: regenerate?.temperature !== undefined
+          ? { ...user?.settings?.generation, temperature: regenerate.temperature }
+          : user?.settings?.generation,
+        signal: controller.signal,
+        promptVariables: user ? {
+          userName: user.fullName,
+          plantProfile: user.plantProfile,
+          units: user.units,
+          language: user.language
+        } : undefined,
+        onChunk: (partial) => {
+          setRetryStatus(null);
+          pending = partial;
+          if (frame === null) frame = requestAnimationFrame(flushChunk);
+        },
+        onQueued: ({ position, waitMs }) => {
+          setRetryStatus(waitMs
+            ? `Request rate limit reached. Starting in ${Math.ceil(waitMs / 1000)}s...`
+            : `Waiting for an earlier request to finish (position ${position})...`);
+        },
+        onRetry: (err, attempt, delayMs) => {
+          setRetryStatus(`${ERROR_RETRY_LABELS[err.kind]} Retrying (attempt ${attempt + 1}) in ${Math.ceil(delayMs / 1000)}s...`);
+        }
+      };
+      const aiResponse = panelRoles
+        ? await generatePanelResponse(question.content, panelRoles, isAuthenticated, question.files ?? [], isPremium, generateOptions)
+        : await generateResponse(question.content, role, isAuthenticated, question.files ?? [], isPremium, generateOptions);
+      cancelFlush();
+
+      const stopped = controller.signal.aborted;
+      if (stopped && !hasAnswerText(aiResponse)) {
+        // Nothing arrived before the stop, so there is no answer to keep
+        setChatState(prev => ({ ...prev, tree: discardEmpty(prev.tree), isLoading: false }));
+      } else {
+        upsertAssistant({
+          content: aiResponse.content,
+          structured: aiResponse.structured,
+          toolCalls: aiResponse.toolCalls ?? continueMessage?.toolCalls,
+          promptTemplate: aiResponse.promptTemplate,
+          cachedAt: aiResponse.cachedAt,
+          generationSettings: aiResponse.generationSettings,
+          responseMeta: aiResponse.responseMeta,
+          resumeFrom: aiResponse.resumeFrom,
+          citations: aiResponse.citations,
+          panel: aiResponse.panel,
+          followUps: undefined,
+          isStreaming: false,
+          stopped: stopped || undefined
+        });
+        setChatState(prev => ({ ...prev, isLoading: false }));
+        if (!stopped) void suggestFollowUps(assistantId, userMessage.content, aiResponse.content, role);
+      }
+      
+      // Update activity stats for premium users
+      if (user && isPremium) {
+        AuthService.updateActivityStats(user.id, 'report');
+      }
+    } catch (err) {
+      cancelFlush();
+      // Keep any partial answer that streamed in before the failure
+      setChatState(prev => {
+        const partial = prev.tree.nodes[assistantId]?.message;
+        const tree = !partial
+          ? prev.tree
+          : hasAnswerText(partial)
+            ? updateMessage(prev.tree, assistantId, m => syncActiveVariant({ ...m, isStreaming: false, stopped: true }))
+            : discardEmpty(prev.tree);
+        return { ...prev, tree, isLoading: false };
+      });
+      setError(toLLMError(err));
+      setFailedTurn({ userMessage, history, options });
+    } finally {
+      abortControllerRef.current = null;
+      setRetryStatus(null);
     }
+  };
 
+  // Suggested follow-ups pass withUploads false: files staged in the input
+  // belong to the user's own draft and stay there for it
+  const handleSendMessage = async (content: string, withUploads = true) => {
+    const files = withUploads ? chatState.uploadedFiles : [];
     const userMessage: Message = {
       id: Date.now().toString(),
       role: 'user',
       content,
       timestamp: new Date(),
-      files: chatState.uploadedFiles.length > 0 ? [...chatState.uploadedFiles] : undefined
+      files: files.length > 0 ? [...files] : undefined
     };
 
     setChatState(prev => ({
       ...prev,
-      messages: [...prev.messages, userMessage],
+      tree: appendMessage(prev.tree, userMessage),
       isLoading: true,
-      uploadedFiles: [] // Clear uploaded files after sending
+      uploadedFiles: withUploads ? [] : prev.uploadedFiles // Clear uploaded files after sending
     }));
 
     setSidebarOpen(false);
 
-    try {
-      const aiResponse = await generateResponse(
-        content, 
-        chatState.selectedRole, 
-        isAuthenticated,
-        chatState.uploadedFiles,
-        isPremium
-      );
-      
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: aiResponse,
-        timestamp: new Date()
-      };
+    await requestAnswer(userMessage, messages, panelOptions);
+  };
 
-      setChatState(prev => ({
-        ...prev,
-        messages: [...prev.messages, assistantMessage],
-        isLoading: false
-      }));
-      
-      // Update activity stats for premium users
-      if (user && isPremium) {
-        AuthService.updateActivityStats(user.id, 'report');
-      }
-    } catch (err) {
-      setChatState(prev => ({ ...prev, isLoading: false }));
-      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+  // Re-run the failed question, replacing any partial answer it left behind
+  const handleRetry = async () => {
+    if (!failedTurn) return;
+    const { userMessage, history, options } = failedTurn;
+
+    // A failed variant is simply generated again next to the others
+    if (options.variantOf) {
+      const message = chatState.tree.nodes[options.variantOf.id]?.message;
+      if (!message) return;
+      setChatState(prev => ({ ...prev, isLoading: true }));
+      await requestAnswer(userMessage, history, { ...options, variantOf: message });
+      return;
     }
+
+    setChatState(prev => {
+      const index = prev.tree.activePath.indexOf(userMessage.id);
+      const partialId = index === -1 ? undefined : prev.tree.activePath[index + 1];
+      return {
+        ...prev,
+        tree: partialId ? removeMessage(prev.tree, partialId) : prev.tree,
+        isLoading: true
+      };
+    });
+
+    await requestAnswer(userMessage, history, options);
+  };
+
+  // Generate another answer to the same question, optionally in a different
+  // role or at a different temperature. Earlier variants are kept, and later
+  // turns stay in place. Always bypasses the cache, or the same answer would return.
+  const handleRegenerate = async (assistantId: string, regenerate: RegenerateOptions = {}) => {
+    const index = messages.findIndex(m => m.id === assistantId);
+    const assistantMessage = messages[index];
+    const userMessage = messages[index - 1];
+    if (chatState.isLoading || !assistantMessage || userMessage?.role !== 'user') return;
+
+    setChatState(prev => ({ ...prev, isLoading: true }));
+    await requestAnswer(userMessage, messages.slice(0, index - 1), {
+      bypassCache: true,
+      variantOf: assistantMessage,
+      regenerate,
+      // A panel answer is regenerated by the same panel unless a single role is picked
+      panelRoles: !regenerate.role && assistantMessage.panel ? assistantMessage.panel.map(answer => answer.role) : undefined
+    });
+  };
+
+  // Make another variant the answer that is shown, saved and used as context
+  const handleSelectVariant = useCallback((assistantId: string, variantIndex: number) => {
+    setChatState(prev => ({
+      ...prev,
+      tree: updateMessage(prev.tree, assistantId, m => selectVariant(m, variantIndex))
+    }));
+  }, []);
+
+  // Ask an edited version of an earlier question. It becomes a sibling of
+  // the original, so the original and everything after it stay reachable
+  // through the branch switcher.
+  const handleEditMessage = async (messageId: string, content: string) => {
+    const index = messages.findIndex(m => m.id === messageId);
+    const original = messages[index];
+    if (chatState.isLoading || original?.role !== 'user') return;
+
+    const userMessage: Message = {
+      id: Date.now().toString(),
+      role: 'user',
+      content,
+      timestamp: new Date(),
+      files: original.files
+    };
+
+    setChatState(prev => ({
+      ...prev,
+      tree: addMessage(prev.tree, prev.tree.nodes[messageId]?.parentId ?? null, userMessage),
+      isLoading: true
+    }));
+
+    await requestAnswer(userMessage, messages.slice(0, index), panelOptions);
+  };
+
+  const handleSwitchBranch = useCallback((messageId: string) => {
+    setChatState(prev => ({ ...prev, tree: switchBranch(prev.tree, messageId) }));
+  }, []);
+
+  // Resume an answer that was cut off at the token limit
+  const handleContinue = async (assistantId: string) => {
+    const index = messages.findIndex(m => m.id === assistantId);
+    const assistantMessage = messages[index];
+    const userMessage = messages[index - 1];
+    if (chatState.isLoading || !assistantMessage?.resumeFrom || userMessage?.role !== 'user') return;
+
+    setChatState(prev => ({ ...prev, isLoading: true }));
+    // A variant generated in another role continues in that role
+    const variantRole = assistantMessage.variants?.[assistantMessage.activeVariant ?? 0]?.role;
+    await requestAnswer(userMessage, messages.slice(0, index - 1), {
+      continueMessage: assistantMessage,
+      regenerate: variantRole ? { role: variantRole } : undefined
+    });
+  };
+
+  // ChatMessage is memoized, so it gets callbacks that keep their identity
+  // and call the handlers from the latest render through a ref
+  const messageHandlersRef = useRef({ handleSendMessage, handleRegenerate, handleEditMessage, handleContinue });
+  messageHandlersRef.current = { handleSendMessage, handleRegenerate, handleEditMessage, handleContinue };
+  const onFollowUp = useCallback((question: string) => messageHandlersRef.current.handleSendMessage(question, false), []);
+  const onRegenerate = useCallback(
+    (assistantId: string, regenerate?: RegenerateOptions) => messageHandlersRef.current.handleRegenerate(assistantId, regenerate),
+    []
+  );
+  const onEditMessage = useCallback((messageId: string, content: string) => messageHandlersRef.current.handleEditMessage(messageId, content), []);
+  const onContinue = useCallback((assistantId: string) => messageHandlersRef.current.handleContinue(assistantId), []);
+
+  const handleStopGeneration = () => {
+    abortControllerRef.current?.abort();
   };
 
   // Auto-save chat when messages change (for authenticated users)
   useEffect(() => {
-    if (isAuthenticated && chatState.messages.length >= 2) {
-      const hasUserMessage = chatState.messages.some(m => m.role === 'user');
-      const hasAIResponse = chatState.messages.some(m => m.role === 'assistant');
+    // Wait for the answer to finish streaming before saving
+    const activeMessages = getActiveMessages(chatState.tree);
+    if (isAuthenticated && !chatState.isLoading && activeMessages.length >= 2) {
+      const hasUserMessage = activeMessages.some(m => m.role === 'user');
+      const hasAIResponse = activeMessages.some(m => m.role === 'assistant');
       
       if (hasUserMessage && hasAIResponse) {
-        saveChatHistory({
-          messages: chatState.messages,
-          role: chatState.selectedRole
-        });
+        // Keep appending to the open conversation instead of forking a new
+        // history entry. The whole tree is saved, so the branch being shown
+        // is restored with it.
+        if (currentChatId) {
+          updateCurrentChat(chatState.tree);
+        } else {
+          saveChatHistory({
+            tree: chatState.tree,
+            role: chatState.selectedRole
+          });
+        }
       }
     }
-  }, [chatState.messages, isAuthenticated, chatState.selectedRole, saveChatHistory]);
+  }, [chatState.tree, chatState.isLoading, isAuthenticated, chatState.selectedRole, currentChatId, saveChatHistory, updateCurrentChat]);
 
   const handleRoleChange = (role: UserRole | 'General AI') => {
     setChatState(prev => ({ ...prev, selectedRole: role }));
     setSidebarOpen(false);
   };
 
+  const handlePanelRolesChange = (panelRoles: UserRole[]) => {
+    setChatState(prev => ({ ...prev, panelRoles }));
+  };
+
   const handleLoadChat = (history: ChatHistory) => {
     setChatState(prev => ({
       ...prev,
-      messages: history.messages,
+      tree: history.tree,
       selectedRole: history.role,
-      isLoading: false
+      isLoading: false,
+      uploadedFiles: []
     }));
     setCurrentChatId(history.id);
     setSidebarOpen(false);
@@ -158,7 +467,7 @@ function App() {
   const handleNewChat = () => {
     setChatState(prev => ({
       ...prev,
-      messages: [],
+      tree: createMessageTree(),
       isLoading: false,
       uploadedFiles: []
     }));
@@ -173,13 +482,24 @@ function App() {
     }));
   };
 
+  // Replace an attachment, e.g. with new spreadsheet sheet and row choices
+  const handleUpdateFile = (file: FileUpload) => {
+    setChatState(prev => ({
+      ...prev,
+      uploadedFiles: prev.uploadedFiles.map(f => (f.id === file.id ? file : f))
+    }));
+  };
+
   const handleRemoveFile = (fileId: string) => {
     setChatState(prev => ({
       ...prev,
       uploadedFiles: prev.uploadedFiles.filter(f => f.id !== fileId)
     }));
   };
-  const clearError = () => setError(null);
+  const clearError = () => {
+    setError(null);
+    setFailedTurn(null);
+  };
 
   if (showLogin && !isAuthenticated) {
     return <LoginScreen onLogin={handleLogin} onGuestAccess={handleGuestAccess} />;
@@ -198,9 +518,11 @@ function App() {
           onClose={() => setSidebarOpen(false)}
           selectedRole={chatState.selectedRole}
           onRoleChange={handleRoleChange}
+          panelRoles={chatState.panelRoles}
+          onPanelRolesChange={handlePanelRolesChange}
           onLoadChat={handleLoadChat}
           onNewChat={handleNewChat}
-          messageCount={chatState.messages.length}
+          messageCount={messages.length}
           isLoading={chatState.isLoading}
         />
 
@@ -219,12 +541,13 @@ function App() {
               {/* Error Display */}
               {error && (
                 <ErrorMessage 
-                  message={error} 
-                  onRetry={error.includes('GEMINI_API_KEY') ? undefined : clearError}
+                  error={error} 
+                  onRetry={error.kind !== 'config' && error.kind !== 'limit' && failedTurn ? handleRetry : undefined}
+                  onDismiss={clearError}
                 />
               )}
 
-              {chatState.messages.length === 0 && !error ? (
+              {messages.length === 0 && !error ? (
                 <div className="text-center py-12">
                   <div className="p-8 bg-gradient-to-br from-blue-600/10 to-blue-800/10 dark:from-blue-400/10 dark:to-blue-600/10 rounded-3xl w-32 h-32 mx-auto mb-8 flex items-center justify-center border-2 border-blue-200 dark:border-blue-800">
                     <Factory className="text-blue-600 dark:text-blue-400 w-16 h-16" />
@@ -298,10 +621,20 @@ function App() {
                 </div>
               ) : (
                 <>
-                  {chatState.messages.map((message) => (
-                    <ChatMessage key={message.id} message={message} />
+                  {messages.map((message, index) => (
+                    <ChatMessage
+                      key={message.id}
+                      message={message}
+                      onRegenerate={!chatState.isLoading ? onRegenerate : undefined}
+                      onSelectVariant={!chatState.isLoading ? handleSelectVariant : undefined}
+                      onContinue={index === messages.length - 1 && !chatState.isLoading ? onContinue : undefined}
+                      onFollowUp={index === messages.length - 1 && !chatState.isLoading && !error && !limitReached ? onFollowUp : undefined}
+                      onEdit={!chatState.isLoading ? onEditMessage : undefined}
+                      branchIds={message.role === 'user' ? getSiblingIds(chatState.tree, message.id) : undefined}
+                      onSwitchBranch={!chatState.isLoading ? handleSwitchBranch : undefined}
+                    />
                   ))}
-                  {chatState.isLoading && <LoadingMessage />}
+                  {chatState.isLoading && !messages.some(m => m.isStreaming) && <LoadingMessage status={retryStatus ?? undefined} />}
                 </>
               )}
               <div ref={messagesEndRef} />
@@ -313,10 +646,14 @@ function App() {
             <ChatInput 
               onSend={handleSendMessage}
               isLoading={chatState.isLoading || !!error}
-              placeholder={`Ask about plant operations (${chatState.selectedRole} expertise)...`}
+              onStop={chatState.isLoading ? handleStopGeneration : undefined}
+              placeholder={chatState.panelRoles.length > 0
+                ? `Ask the expert panel (${chatState.panelRoles.join(', ')})...`
+                : `Ask about plant operations (${chatState.selectedRole} expertise)...`}
               onFileUpload={isPremium ? handleFileUpload : undefined}
               uploadedFiles={chatState.uploadedFiles}
               onRemoveFile={isPremium ? handleRemoveFile : undefined}
+              onUpdateFile={isPremium ? handleUpdateFile : undefined}
             />
           </div>
         </div>
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { Columns2, X, Check } from 'lucide-react';
+import type { AnswerVariant } from '../types';
+
+interface AnswerCompareProps {
+  variants: AnswerVariant[];
+  activeIndex: number;
+  onSelect: (index: number) => void;
+  onClose: () => void;
+}
+
+// Side-by-side view of two answer variants for picking the better one
+export const AnswerCompare: React.FC<AnswerCompareProps> = ({ variants, activeIndex, onSelect, onClose }) => {
+  const [columns, setColumns] = useState<[number, number]>(() => [
+    activeIndex,
+    activeIndex === variants.length - 1 ? Math.max(0, activeIndex - 1) : variants.length - 1
+  ]);
+
+  const describe = (variant: AnswerVariant) => [
+    variant.role,
+    variant.generationSettings && `T ${variant.generationSettings.temperature}`,
+    variant.generationSettings?.model,
+    variant.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-gray-900 rounded-2xl shadow-2xl max-w-6xl w-full h-[85vh] flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-br from-blue-600 to-blue-800 rounded-xl">
+              <Columns2 className="text-white" size={20} />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white">Compare Answers</h2>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                The answer you keep is saved with the chat and used as context for later questions
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+          >
+            <X className="text-gray-500" size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 grid grid-cols-1 md:grid-cols-2 divide-y md:divide-y-0 md:divide-x divide-gray-200 dark:divide-gray-700">
+          {columns.map((variantIndex, column) => {
+            const variant = variants[variantIndex];
+            return (
+              <div key={column} className="flex flex-col min-h-0">
+                <div className="flex items-center gap-3 p-4 border-b border-gray-200 dark:border-gray-700">
+                  <select
+                    value={variantIndex}
+                    onChange={(e) => setColumns(prev => {
+                      const next: [number, number] = [...prev];
+                      next[column] = Number(e.target.value);
+                      return next;
+                    })}
+                    className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm dark:bg-gray-800 dark:text-white"
+                  >
+                    {variants.map((_, i) => (
+                      <option key={i} value={i}>Answer {i + 1}{i === activeIndex ? ' (current)' : ''}</option>
+                    ))}
+                  </select>
+                  <span className="flex-1 text-xs text-gray-500 dark:text-gray-400 truncate">{describe(variant)}</span>
+                  <button
+                    onClick={() => {
+                      onSelect(variantIndex);
+                      onClose();
+                    }}
+                    disabled={variantIndex === activeIndex}
+                    className="flex items-center gap-1 px-3 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                  >
+                    <Check size={14} />
+                    {variantIndex === activeIndex ? 'Current' : 'Use this'}
+                  </button>
+                </div>
+                <div className="flex-1 overflow-y-auto p-4 text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap leading-relaxed">
+                  {variant.content}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
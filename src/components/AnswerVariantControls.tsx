@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { ChevronLeft, ChevronRight, Columns2, RefreshCw } from 'lucide-react';
+import { AnswerCompare } from './AnswerCompare';
+import { useAuth } from '../contexts/AuthContext';
+import { ModelSettingsService } from '../services/modelSettingsService';
+import { getActiveVariantIndex, getVariants } from '../utils/answerVariants';
+import type { RegenerateOptions } from '../utils/answerVariants';
+import type { Message, UserRole } from '../types';
+
+interface AnswerVariantControlsProps {
+  message: Message;
+  onRegenerate?: (messageId: string, options?: RegenerateOptions) => void;
+  onSelectVariant?: (messageId: string, index: number) => void;
+}
+
+const ROLES: (UserRole | 'General AI')[] = [
+  'Operations',
+  'Project Management',
+  'Sales & Marketing',
+  'Procurement',
+  'Erection & Commissioning',
+  'Engineering & Design',
+  'General AI'
+];
+
+// Regenerate an answer (optionally in another role or at another
+// temperature), page through its variants and compare them side by side
+export const AnswerVariantControls: React.FC<AnswerVariantControlsProps> = ({ message, onRegenerate, onSelectVariant }) => {
+  const { user, isAuthenticated } = useAuth();
+  const [showOptions, setShowOptions] = useState(false);
+  const [showCompare, setShowCompare] = useState(false);
+  const [role, setRole] = useState<UserRole | 'General AI' | ''>('');
+  const [temperature, setTemperature] = useState('');
+
+  const isPremium = user?.membershipType === 'Premium';
+  const caps = ModelSettingsService.getCaps(ModelSettingsService.getTier(isAuthenticated, isPremium));
+  const variants = getVariants(message);
+  const activeIndex = getActiveVariantIndex(message);
+  const variantRole = message.variants?.[activeIndex]?.role;
+
+  if (message.isStreaming || (!onRegenerate && variants.length < 2)) return null;
+
+  const handleRegenerate = () => {
+    const value = Number(temperature);
+    onRegenerate?.(message.id, {
+      role: role || undefined,
+      temperature: temperature.trim() !== '' && Number.isFinite(value) ? value : undefined
+    });
+    setShowOptions(false);
+  };
+
+  const buttonClass = 'inline-flex items-center gap-1 text-gray-500 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 disabled:opacity-40 disabled:hover:text-gray-500';
+  const inputClass = 'px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-xs dark:bg-gray-800 dark:text-white';
+
+  return (
+    <div className="mt-1 text-xs">
+      <div className="flex items-center gap-3">
+        {variants.length > 1 && (
+          <span className="inline-flex items-center gap-1">
+            <button
+              onClick={() => onSelectVariant?.(message.id, activeIndex - 1)}
+              disabled={!onSelectVariant || activeIndex === 0}
+              className={buttonClass}
+              title="Previous answer"
+            >
+              <ChevronLeft size={14} />
+            </button>
+            <span className="font-semibold text-gray-600 dark:text-gray-300">
+              {activeIndex + 1} / {variants.length}
+            </span>
+            <button
+              onClick={() => onSelectVariant?.(message.id, activeIndex + 1)}
+              disabled={!onSelectVariant || activeIndex === variants.length - 1}
+              className={buttonClass}
+              title="Next answer"
+            >
+              <ChevronRight size={14} />
+            </button>
+            {variantRole && <span className="text-gray-400 dark:text-gray-500">· {variantRole}</span>}
+          </span>
+        )}
+        {variants.length > 1 && onSelectVariant && (
+          <button onClick={() => setShowCompare(true)} className={buttonClass}>
+            <Columns2 size={12} />
+            Compare
+          </button>
+        )}
+        {onRegenerate && (
+          <button onClick={() => setShowOptions(prev => !prev)} className={buttonClass}>
+            <RefreshCw size={12} />
+            Regenerate
+          </button>
+        )}
+      </div>
+
+      {showOptions && onRegenerate && (
+        <div className="flex flex-wrap items-center gap-2 mt-2 p-2 rounded-lg bg-gray-100 dark:bg-gray-800">
+          <select
+            value={role}
+            onChange={(e) => setRole(e.target.value as UserRole | 'General AI' | '')}
+            className={inputClass}
+          >
+            <option value="">Same role</option>
+            {ROLES.filter(r => r !== 'General AI' || isPremium).map(r => <option key={r} value={r}>{r}</option>)}
+          </select>
+          {caps.allowOverrides && (
+            <input
+              type="number"
+              step={0.1}
+              min={0}
+              max={caps.maxTemperature}
+              value={temperature}
+              placeholder="Temperature"
+              onChange={(e) => setTemperature(e.target.value)}
+              className={`${inputClass} w-28`}
+            />
+          )}
+          <button
+            onClick={handleRegenerate}
+            className="px-3 py-1 rounded-md bg-blue-600 text-white font-semibold hover:bg-blue-700 transition-colors"
+          >
+            Generate
+          </button>
+        </div>
+      )}
+
+      {showCompare && onSelectVariant && (
+        <AnswerCompare
+          variants={variants}
+          activeIndex={activeIndex}
+          onSelect={(index) => onSelectVariant(message.id, index)}
+          onClose={() => setShowCompare(false)}
+        />
+      )}
+    </div>
+  );
+};
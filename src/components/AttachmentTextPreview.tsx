@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react';
+import { FileText, Loader2, X, AlertTriangle } from 'lucide-react';
+import type { FileUpload } from '../types';
+import type { ExtractedAttachment } from '../utils/attachmentText';
+import { MAX_ATTACHMENT_CHARS, clipAttachmentText, extractAttachmentText, textAttachmentKindName } from '../utils/attachmentText';
+
+interface AttachmentTextPreviewProps {
+  file: FileUpload;
+  onClose: () => void;
+}
+
+// The text taken from a Word, text, email or DXF attachment, exactly as it
+// will be sent in place of the file
+export const AttachmentTextPreview: React.FC<AttachmentTextPreviewProps> = ({ file, onClose }) => {
+  const [extracted, setExtracted] = useState<ExtractedAttachment | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    extractAttachmentText(file)
+      .then(result => {
+        if (!cancelled) setExtracted(result);
+      })
+      .catch(err => {
+        if (!cancelled) setLoadError(err instanceof Error ? err.message : 'Could not read the file.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  const clipped = extracted ? clipAttachmentText(extracted.text) : null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-gray-900 rounded-2xl shadow-2xl max-w-4xl w-full h-[85vh] flex flex-col overflow-hidden text-left">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="p-2 bg-gradient-to-br from-blue-600 to-blue-800 rounded-xl">
+              <FileText className="text-white" size={20} />
+            </div>
+            <div className="min-w-0">
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white">Text Sent to the Model</h2>
+              <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                {file.name}: the {textAttachmentKindName(file)} is converted to text before it is sent
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+          >
+            <X className="text-gray-500" size={20} />
+          </button>
+        </div>
+
+        {loadError ? (
+          <div className="m-6 p-3 rounded-lg border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+            {loadError}
+          </div>
+        ) : !extracted || !clipped ? (
+          <div className="flex-1 flex items-center justify-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+            <Loader2 size={16} className="animate-spin" />
+            Reading file...
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-3 px-6 py-3 border-b border-gray-200 dark:border-gray-700 text-xs text-gray-600 dark:text-gray-400">
+              <span className="font-semibold text-gray-900 dark:text-white">{extracted.summary}</span>
+              <span>
+                {extracted.text.length.toLocaleString()} characters (~{Math.ceil(clipped.text.length / 4).toLocaleString()} tokens sent)
+              </span>
+              {clipped.omittedLines > 0 && (
+                <span className="flex items-center gap-1 text-yellow-700 dark:text-yellow-300">
+                  <AlertTriangle size={12} />
+                  Over {MAX_ATTACHMENT_CHARS.toLocaleString()} characters: {clipped.omittedLines.toLocaleString()} lines in the middle are left out
+                </span>
+              )}
+            </div>
+            <pre className="flex-1 overflow-auto p-6 text-xs font-mono whitespace-pre-wrap text-gray-800 dark:text-gray-200">
+              {clipped.text || 'No text found in this file.'}
+            </pre>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -42,7 +42,8 @@ export const AuthScreen: React.FC<AuthScreenProps> = ({ onComplete }) => {
       // Login flow
       const credentials: LoginData = {
         emailOrMobile: formData.email || formData.mobile,
-        password: formData.password
+        password: formData.password,
+        rememberMe: formData.rememberMe
       };
       
       const success = await login(credentials);
@@ -1,30 +1,91 @@
-import React from "react";
+import React, { useState } from "react";
+import { Pencil, Check, X } from "lucide-react";
+import type { ChatHistory } from "../types";
 
 interface ChatHistoryListProps {
-  history: { id: string; title: string }[];
-  onSelect: (history: any) => void;
+  history: ChatHistory[];
+  onSelect: (history: ChatHistory) => void;
+  onRename?: (chatId: string, title: string) => void;
+  currentChatId?: string | null;
 }
 
-export const ChatHistoryList: React.FC<ChatHistoryListProps> = ({ history, onSelect }) => {
-  return (
-    <div className="h-full flex flex-col p-3">
-      <h2 className="text-lg font-bold mb-3 text-gray-800">Chat History</h2>
+export const ChatHistoryList: React.FC<ChatHistoryListProps> = ({ history, onSelect, onRename, currentChatId }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+
+  const startRename = (chat: ChatHistory) => {
+    setEditingId(chat.id);
+    setDraft(chat.title);
+  };
+
+  const saveRename = () => {
+    if (editingId && draft.trim()) onRename?.(editingId, draft.trim());
+    setEditingId(null);
+  };
 
+  return (
+    <div className="h-full flex flex-col">
       {/* Scrollable list */}
       <div className="flex-1 overflow-y-auto space-y-2 pr-1">
         {history.length === 0 ? (
-          <p className="text-sm text-gray-500 italic">No chats yet</p>
+          <p className="text-sm text-gray-500 dark:text-gray-400 italic">No chats yet</p>
         ) : (
-          history.map((chat) => (
-            <button
-              key={chat.id}
-              onClick={() => onSelect(chat)}
-              className="w-full text-left px-3 py-2 rounded-lg bg-gray-100 hover:bg-gray-200 
-                         text-gray-800 text-sm shadow-sm transition"
-            >
-              {chat.title}
-            </buttoo>
-          ))
+          history.map((chat) =>
+            editingId === chat.id ? (
+              <div key={chat.id} className="flex items-center gap-1">
+                <input
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") saveRename();
+                    if (e.key === "Escape") setEditingId(null);
+                  }}
+                  maxLength={80}
+                  autoFocus
+                  className="flex-1 min-w-0 px-2 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg text-sm dark:bg-gray-800 dark:text-white"
+                />
+                <button onClick={saveRename} className="p-1.5 text-green-600 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg" title="Save">
+                  <Check size={14} />
+                </button>
+                <button onClick={() => setEditingId(null)} className="p-1.5 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg" title="Cancel">
+                  <X size={14} />
+                </button>
+              </div>
+            ) : (
+              <div key={chat.id} className="relative group">
+                <button
+                  onClick={() => onSelect(chat)}
+                  className={`w-full text-left pl-3 pr-8 py-2 rounded-lg text-sm shadow-sm transition truncate ${
+                    chat.id === currentChatId
+                      ? "bg-blue-100 dark:bg-blue-900/40 text-blue-800 dark:text-blue-200"
+                      : "bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-800 dark:text-gray-200"
+                  }`}
+                >
+                  {chat.title}
+                </button>
+                {onRename && (
+                  <button
+                    onClick={() => startRename(chat)}
+                    className="absolute right-1 top-1/2 -translate-y-1/2 p-1.5 rounded-md text-gray-400 opacity-0 group-hover:opacity-100 hover:text-blue-600 transition-opacity"
+                    title="Rename"
+                  >
+                    <Pencil size={12} />
+                  </button>
+                )}
+
+                {/* Hover preview */}
+                <div className="hidden group-hover:block absolute left-0 right-0 top-full mt-1 z-10 p-3 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 text-xs pointer-events-none">
+                  <p className="font-semibold text-gray-900 dark:text-white mb-1">{chat.title}</p>
+                  <p className="text-gray-600 dark:text-gray-300 mb-2">
+                    {chat.summary ?? "A summary appears here after the first answer."}
+                  </p>
+                  <p className="text-gray-400 dark:text-gray-500">
+                    {chat.role} · {chat.lastUpdated.toLocaleDateString()}
+                  </p>
+                </div>
+              </div>
+            )
+          )
         )}
       </div>
     </div>
@@ -1,7 +1,18 @@
 import React, { useState } from 'react';
-import { Send, Mic, Paperclip, X, FileText, Image } from 'lucide-react';
+import { Send, Mic, Paperclip, X, Square, Clock, Table, Files, FolderOpen, AlertTriangle, PenLine, CheckCircle2, Eye } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { useUsage } from '../contexts/UsageContext';
 import { AuthService } from '../services/authService';
+import { FileLibraryError, FileLibraryService } from '../services/fileLibraryService';
+import { isSpreadsheet } from '../utils/spreadsheet';
+import { isTextAttachment } from '../utils/attachmentText';
+import { FILE_INPUT_ACCEPT, validateFiles } from '../utils/fileValidation';
+import type { FileValidationResult, FileValidationStatus } from '../utils/fileValidation';
+import { SpreadsheetPreview } from './SpreadsheetPreview';
+import { PdfPagePicker } from './PdfPagePicker';
+import { FileLibraryPanel } from './FileLibraryPanel';
+import { ImageMarkupEditor } from './ImageMarkupEditor';
+import { AttachmentTextPreview } from './AttachmentTextPreview';
 import type { FileUpload } from '../types';
 interface ChatInputProps {
   onSend: (message: string) => void;
@@ -10,25 +21,48 @@ interface ChatInputProps {
   onFileUpload?: (files: FileUpload[]) => void;
   uploadedFiles?: FileUpload[];
   onRemoveFile?: (fileId: string) => void;
+  onUpdateFile?: (file: FileUpload) => void;
+  onStop?: () => void; // Shown in place of Send while an answer is being generated
 }
+const UPLOAD_STATUS_LABELS: Record<FileValidationStatus, string> = {
+  accepted: 'Attached',
+  'wrong-type': 'Wrong type',
+  'too-large': 'Too large',
+  'over-quota': 'Over limit',
+  duplicate: 'Duplicate',
+  corrupt: 'Unreadable'
+};
+
 export const ChatInput: React.FC<ChatInputProps> = ({ 
   onSend, 
   isLoading, 
   placeholder,
   onFileUpload,
   uploadedFiles = [],
-  onRemoveFile
+  onRemoveFile,
+  onUpdateFile,
+  onStop
 }) => {
   const { user, isAuthenticated } = useAuth();
   const [input, setInput] = useState('');
   const [isDragOver, setIsDragOver] = useState(false);
+  const [uploadResults, setUploadResults] = useState<FileValidationResult[]>([]);
+  const [previewFileId, setPreviewFileId] = useState<string | null>(null);
+  const [showLibrary, setShowLibrary] = useState(false);
+  const { status, checkFiles, recordFiles } = useUsage();
   
   const isPremium = user?.membershipType === 'Premium';
-  const canUploadFiles = isAuthenticated && isPremium;
+  const filesExhausted = status.exceeded.includes('files');
+  const canUploadFiles = isAuthenticated && isPremium && !filesExhausted;
+  // Out of messages or tokens for today: nothing can be sent until the reset
+  const limitReached = status.exceeded.find(metric => metric !== 'files');
+  const resetTime = status.resetsAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  const previewFile = uploadedFiles.find(file => file.id === previewFileId);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (input.trim() && !isLoading) {
+    if (input.trim() && !isLoading && !limitReached) {
       onSend(input.trim());
       setInput('');
       
@@ -46,45 +80,80 @@ export const ChatInput: React.FC<ChatInputProps> = ({
   };
 
   const handleFiles = async (files: File[]) => {
-    if (!canUploadFiles) return;
-
-    const validFiles = files.filter(file => {
-      const isValidType = file.type.startsWith('image/') || 
-                         file.type === 'application/pdf' ||
-                         file.type.includes('spreadsheet') ||
-                         file.type.includes('excel');
-      const isValidSize = file.size <= 10 * 1024 * 1024; // 10MB limit
-      return isValidType && isValidSize;
+    if (!canUploadFiles || files.length === 0) return;
+
+    const validated = await validateFiles(files, {
+      tier: status.tier,
+      remainingUploads: status.limits.files - status.used.files,
+      attached: uploadedFiles
     });
 
-    if (validFiles.length === 0) return;
-
-    const fileUploads: FileUpload[] = await Promise.all(
-      validFiles.map(async (file) => {
-        return new Promise<FileUpload>((resolve) => {
-          const reader = new FileReader();
-          reader.onload = () => {
-            resolve({
-              id: `file_${Date.now()}_${Math.random()}`,
-              name: file.name,
-              type: file.type,
-              size: file.size,
-              content: reader.result as string,
-              uploadDate: new Date()
-            });
-          };
-          reader.readAsDataURL(file);
-        });
-      })
-    );
-
-    if (onFileUpload) {
+    // Check the daily allowance first, so files over it never reach the library
+    const candidates = validated.filter(result => result.upload).length;
+    const allowanceError = candidates > 0 ? checkFiles(candidates) : null;
+    const allowed: FileValidationResult[] = allowanceError
+      ? validated.map(result => (result.upload ? { name: result.name, status: 'over-quota', message: allowanceError } : result))
+      : validated;
+
+    // Keep each upload in the library so saved chats only reference it. A
+    // full library rejects the file; a browser without IndexedDB just keeps
+    // it inline in the message as before.
+    let results: FileValidationResult[] = [];
+    for (const result of allowed) {
+      if (!result.upload || !user) {
+        results.push(result);
+        continue;
+      }
+      try {
+        results.push({ ...result, upload: await FileLibraryService.addFile(user.id, status.tier, result.upload) });
+      } catch (err) {
+        if (err instanceof FileLibraryError) {
+          results.push({ name: result.name, status: 'over-quota', message: err.message });
+        } else {
+          console.warn('Could not add the file to the library:', err);
+          results.push(result);
+        }
+      }
+    }
+
+    // Only files the library took are counted; the check above makes this
+    // fail only if another tab used the allowance in the meantime
+    const accepted = results.filter(result => result.upload).length;
+    const limitError = accepted > 0 ? recordFiles(accepted) : null;
+    if (limitError) {
+      results = results.map(result => (result.upload ? { name: result.name, status: 'over-quota', message: limitError } : result));
+    }
+    const fileUploads = results.flatMap(result => (result.upload ? [result.upload] : []));
+    // Only worth showing when something was turned away
+    setUploadResults(results.some(result => result.status !== 'accepted') ? results : []);
+
+    if (onFileUpload && fileUploads.length > 0) {
       onFileUpload(fileUploads);
+      // Let the user check the first spreadsheet before it is sent
+      const spreadsheet = fileUploads.find(isSpreadsheet);
+      if (spreadsheet && onUpdateFile) setPreviewFileId(spreadsheet.id);
+
+      // Update activity stats
+      if (user) {
+        AuthService.updateActivityStats(user.id, 'file');
+      }
     }
-    
-    // Update activity stats
-    if (user) {
-      AuthService.updateActivityStats(user.id, 'file');
+  };
+
+  // The edited photo is what gets sent, so it replaces the upload's library
+  // entry in the message; the original stays in the library as it was
+  const handleEditedImage = async (file: FileUpload) => {
+    if (!onUpdateFile) return;
+    if (!user || file.content === uploadedFiles.find(f => f.id === file.id)?.content) {
+      onUpdateFile(file);
+      return;
+    }
+    try {
+      onUpdateFile(await FileLibraryService.addFile(user.id, status.tier, { ...file, libraryId: undefined }));
+    } catch (err) {
+      if (err instanceof FileLibraryError) setUploadResults([{ name: file.name, status: 'over-quota', message: err.message }]);
+      else console.warn('Could not add the edited photo to the library:', err);
+      onUpdateFile({ ...file, libraryId: undefined });
     }
   };
 
@@ -111,8 +180,9 @@ export const ChatInput: React.FC<ChatInputProps> = ({
 
   return (
     <div className="space-y-3">
-      {/* Uploaded Files Display */}
-      {canUploadFiles && uploadedFiles.length > 0 && (
+      {/* Uploaded Files Display: attached files are sent even once the day's
+          upload allowance runs out, so they stay visible and removable */}
+      {uploadedFiles.length > 0 && (
         <div className="flex flex-wrap gap-2">
           {uploadedFiles.map((file) => (
             <div
@@ -122,6 +192,52 @@ export const ChatInput: React.FC<ChatInputProps> = ({
               <span className="text-sm font-medium text-blue-700 dark:text-blue-300 truncate max-w-32">
                 {file.name}
               </span>
+              {file.pdf && (
+                <span className="text-xs text-blue-600 dark:text-blue-400">
+                  {file.pdf.pages.length}/{file.pdf.pageCount} pp.
+                </span>
+              )}
+              {file.markup && (
+                <span className="text-xs text-blue-600 dark:text-blue-400">
+                  {file.markup.annotations.length > 0 ? `${file.markup.annotations.length} mark${file.markup.annotations.length === 1 ? '' : 's'}` : 'edited'}
+                </span>
+              )}
+              {onUpdateFile && file.type.startsWith('image/') && (
+                <button
+                  onClick={() => setPreviewFileId(file.id)}
+                  className="text-blue-500 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-200"
+                  title="Mark up, crop or rotate"
+                >
+                  <PenLine size={14} />
+                </button>
+              )}
+              {onUpdateFile && file.type === 'application/pdf' && (
+                <button
+                  onClick={() => setPreviewFileId(file.id)}
+                  className="text-blue-500 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-200"
+                  title="Choose pages"
+                >
+                  <Files size={14} />
+                </button>
+              )}
+              {onUpdateFile && isSpreadsheet(file) && (
+                <button
+                  onClick={() => setPreviewFileId(file.id)}
+                  className="text-blue-500 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-200"
+                  title="Preview and choose sheets, columns and rows"
+                >
+                  <Table size={14} />
+                </button>
+              )}
+              {isTextAttachment(file) && (
+                <button
+                  onClick={() => setPreviewFileId(file.id)}
+                  className="text-blue-500 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-200"
+                  title="Preview the text that is sent"
+                >
+                  <Eye size={14} />
+                </button>
+              )}
               {onRemoveFile && (
                 <button
                   onClick={() => onRemoveFile(file.id)}
@@ -135,6 +251,55 @@ export const ChatInput: React.FC<ChatInputProps> = ({
         </div>
       )}
 
+      {/* Daily allowance states */}
+      {limitReached ? (
+        <div className="flex items-center gap-2 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl p-3">
+          <Clock className="text-red-600 dark:text-red-400 flex-shrink-0" size={16} />
+          <p className="text-red-800 dark:text-red-200 text-sm font-semibold">
+            Daily {limitReached === 'messages' ? 'message' : 'token'} limit reached for the {status.tier} plan. Resets at {resetTime}.
+            {status.tier !== 'Premium' && ` ${isAuthenticated ? 'Upgrade to Premium' : 'Sign in'} for a higher allowance.`}
+          </p>
+        </div>
+      ) : isPremium && filesExhausted && (
+        <div className="flex items-center gap-2 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-xl p-3">
+          <Clock className="text-yellow-700 dark:text-yellow-300 flex-shrink-0" size={16} />
+          <p className="text-yellow-800 dark:text-yellow-200 text-sm font-semibold">
+            Daily file upload limit reached. Uploads reset at {resetTime}.
+          </p>
+        </div>
+      )}
+
+      {/* Upload tray: what happened to each file of the last upload */}
+      {uploadResults.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl p-3 space-y-1.5">
+          <div className="flex items-center justify-between">
+            <p className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide">
+              {uploadResults.filter(result => result.status === 'accepted').length} of {uploadResults.length} files attached
+            </p>
+            <button
+              onClick={() => setUploadResults([])}
+              className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+              title="Dismiss"
+            >
+              <X size={14} />
+            </button>
+          </div>
+          {uploadResults.map((result, i) => (
+            <div key={`${result.name}-${i}`} className="flex items-start gap-2 text-sm">
+              {result.status === 'accepted' ? (
+                <CheckCircle2 className="text-green-600 dark:text-green-400 flex-shrink-0 mt-0.5" size={14} />
+              ) : (
+                <AlertTriangle className="text-yellow-600 dark:text-yellow-400 flex-shrink-0 mt-0.5" size={14} />
+              )}
+              <span className="font-medium text-gray-800 dark:text-gray-200 truncate max-w-48">{result.name}</span>
+              <span className="text-gray-500 dark:text-gray-400">
+                {UPLOAD_STATUS_LABELS[result.status]}{result.message ? `: ${result.message}` : ''}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Premium Feature Notice for Free Users */}
       {isAuthenticated && !isPremium && (
         <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-xl p-3">
@@ -155,8 +320,8 @@ export const ChatInput: React.FC<ChatInputProps> = ({
             type="text"
             value={input}
             onChange={(e) => setInput(e.target.value)}
-            placeholder={placeholder || "Describe your industrial plant challenge or question..."}
-            disabled={isLoading}
+            placeholder={limitReached ? `Limit reached, resets at ${resetTime}` : placeholder || "Describe your industrial plant challenge or question..."}
+            disabled={isLoading || !!limitReached}
             className="w-full px-4 py-3 bg-gray-50 dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-xl
                      focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500
                      disabled:opacity-50 disabled:cursor-not-allowed
@@ -171,14 +336,22 @@ export const ChatInput: React.FC<ChatInputProps> = ({
                 type="file"
                 id="file-upload"
                 multiple
-                accept="image/*,.pdf,.xlsx,.xls,.csv"
+                accept={FILE_INPUT_ACCEPT}
                 onChange={handleFileSelect}
                 className="hidden"
               />
+              <button
+                type="button"
+                onClick={() => setShowLibrary(true)}
+                className="absolute right-24 top-1/2 transform -translate-y-1/2 p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+                title="Attach from My Files"
+              >
+                <FolderOpen size={16} />
+              </button>
               <label
                 htmlFor="file-upload"
                 className="absolute right-16 top-1/2 transform -translate-y-1/2 p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors cursor-pointer"
-                title="Upload files (PDF, Images, Excel)"
+                title="Upload files (PDF, images, Excel, CSV, Word, text, email, DXF)"
               >
                 <Paperclip size={16} />
               </label>
@@ -193,20 +366,78 @@ export const ChatInput: React.FC<ChatInputProps> = ({
           </button>
         </div>
         
-        <button
-          type="submit"
-          disabled={!input.trim() || isLoading}
-          className="px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-xl 
-                   focus:outline-none focus:ring-2 focus:ring-blue-500 
-                   disabled:opacity-50 disabled:cursor-not-allowed
-                   transition-all duration-200 flex items-center gap-2 
-                   font-semibold text-sm"
-        >
-          <Send size={16} />
-          <span className="hidden sm:inline">Send</span>
-        </button>
+        {onStop ? (
+          <button
+            type="button"
+            onClick={onStop}
+            className="px-6 py-3 bg-red-600 hover:bg-red-700 text-white rounded-xl 
+                     focus:outline-none focus:ring-2 focus:ring-red-500 
+                     transition-all duration-200 flex items-center gap-2 
+                     font-semibold text-sm"
+            title="Stop generating"
+          >
+            <Square size={16} />
+            <span className="hidden sm:inline">Stop</span>
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={!input.trim() || isLoading || !!limitReached}
+            className="px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-xl 
+                     focus:outline-none focus:ring-2 focus:ring-blue-500 
+                     disabled:opacity-50 disabled:cursor-not-allowed
+                     transition-all duration-200 flex items-center gap-2 
+                     font-semibold text-sm"
+          >
+            <Send size={16} />
+            <span className="hidden sm:inline">Send</span>
+          </button>
+        )}
       </form>
 
+      {previewFile && isTextAttachment(previewFile) && (
+        <AttachmentTextPreview file={previewFile} onClose={() => setPreviewFileId(null)} />
+      )}
+
+      {previewFile && onUpdateFile && !isTextAttachment(previewFile) && (isSpreadsheet(previewFile) ? (
+        <SpreadsheetPreview
+          file={previewFile}
+          onSave={(spreadsheet) => {
+            onUpdateFile({ ...previewFile, spreadsheet });
+            setPreviewFileId(null);
+          }}
+          onClose={() => setPreviewFileId(null)}
+        />
+      ) : previewFile.type.startsWith('image/') ? (
+        <ImageMarkupEditor
+          file={previewFile}
+          onSave={(edited) => {
+            setPreviewFileId(null);
+            void handleEditedImage(edited);
+          }}
+          onClose={() => setPreviewFileId(null)}
+        />
+      ) : (
+        <PdfPagePicker
+          file={previewFile}
+          onSave={(pdf) => {
+            onUpdateFile({ ...previewFile, pdf });
+            setPreviewFileId(null);
+          }}
+          onClose={() => setPreviewFileId(null)}
+        />
+      ))}
+
+      {user && onFileUpload && (
+        <FileLibraryPanel
+          isOpen={showLibrary}
+          onClose={() => setShowLibrary(false)}
+          userId={user.id}
+          tier={status.tier}
+          onAttach={onFileUpload}
+        />
+      )}
+
       {/* Drag & Drop Overlay */}
       {isDragOver && canUploadFiles && (
         <div className="absolute inset-0 bg-blue-500/10 border-2 border-dashed border-blue-500 rounded-xl flex items-center justify-center pointer-events-none">
@@ -1,139 +1,372 @@
-import React from 'react';
-import { User, Bot, AlertTriangle, CheckCircle, Info, Target, BarChart3, Lightbulb, Shield, FileText, Image } from 'lucide-react';
-import type { Message, FileUpload } from '../types';
+import React, { useState } from 'react';
+import { User, Bot, AlertTriangle, Target, BarChart3, Lightbulb, Shield, FileText, Image, Calculator, Database, RefreshCw, SlidersHorizontal, Scissors, ShieldAlert, PlayCircle, BookOpen, Users, Loader2, CornerDownRight, FileSpreadsheet } from 'lucide-react';
+import type { Citation, Message, FileUpload, PanelExpertAnswer, StructuredAnswer, ToolCallRecord } from '../types';
 import { useAuth } from '../contexts/AuthContext';
+import { BLOCK_REASON_EXPLANATIONS, describeSafetyCategory, isFlaggedRating } from '../utils/llm/safety';
+import { openKnowledgeDocument } from '../utils/knowledge/openDocument';
+import { isSpreadsheet } from '../utils/spreadsheet';
+import { formatPageRanges } from '../utils/pdfPages';
+import { STRUCTURED_SECTION_TITLES } from '../utils/structuredAnswer';
+import type { RegenerateOptions } from '../utils/answerVariants';
+import { AnswerVariantControls } from './AnswerVariantControls';
+import { MessageBranchControls } from './MessageBranchControls';
+import { MarkdownContent } from './MarkdownContent';
 
 interface ChatMessageProps {
   message: Message;
+  onRegenerate?: (messageId: string, options?: RegenerateOptions) => void; // Add another answer variant, bypassing the cache
+  onSelectVariant?: (messageId: string, index: number) => void;
+  onContinue?: (messageId: string) => void; // Resume an answer cut off at the token limit
+  onFollowUp?: (question: string) => void; // Ask a suggested follow-up question
+  onEdit?: (messageId: string, content: string) => void; // Ask an edited question as a new branch
+  branchIds?: string[]; // Every version of this question, for the branch switcher
+  onSwitchBranch?: (messageId: string) => void;
 }
 
-export const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
-  const { isAuthenticated } = useAuth();
+interface StructuredSection {
+  key: keyof StructuredAnswer;
+  title: string;
+  icon: React.ReactNode;
+  header: string;
+  border: string;
+}
+
+// Card styling for each typed section of a structured answer
+const STRUCTURED_SECTIONS: StructuredSection[] = [
+  { key: 'problem', title: 'PROBLEM UNDERSTANDING', icon: <Target className="w-4 h-4" />, header: 'border-red-200 bg-red-50 text-red-700', border: 'border-red-200' },
+  { key: 'analysis', title: 'ANALYSIS / BEST PRACTICES', icon: <BarChart3 className="w-4 h-4" />, header: 'border-blue-200 bg-blue-50 text-blue-700', border: 'border-blue-200' },
+  { key: 'recommendations', title: 'ACTIONABLE RECOMMENDATIONS', icon: <Lightbulb className="w-4 h-4" />, header: 'border-green-200 bg-green-50 text-green-700', border: 'border-green-200' },
+  { key: 'compliance', title: 'COMPLIANCE & SAFETY NOTES', icon: <Shield className="w-4 h-4" />, header: 'border-yellow-200 bg-yellow-50 text-yellow-700', border: 'border-yellow-200' },
+  { key: 'cost', title: 'COST & EFFICIENCY IMPLICATIONS', icon: <BarChart3 className="w-4 h-4" />, header: 'border-purple-200 bg-purple-50 text-purple-700', border: 'border-purple-200' }
+];
+
+const SECTION_BY_TITLE = new Map(
+  (Object.keys(STRUCTURED_SECTION_TITLES) as (keyof StructuredAnswer)[]).map(key => [STRUCTURED_SECTION_TITLES[key], key])
+);
+
+// Split text written by structuredAnswerToText at its section title lines.
+// Only lines that are exactly a title start a section, so ordinary answers
+// that mention "analysis" or "safety" stay whole in intro.
+const splitStructuredText = (content: string) => {
+  let intro = '';
+  const sections: { key: keyof StructuredAnswer; body: string }[] = [];
+  for (const line of content.split('\n')) {
+    const key = SECTION_BY_TITLE.get(line.trim());
+    if (key) {
+      sections.push({ key, body: '' });
+    } else if (sections.length > 0) {
+      sections[sections.length - 1].body += `${line}\n`;
+    } else {
+      intro += `${line}\n`;
+    }
+  }
+  return { intro: intro.trim(), sections: sections.map(section => ({ ...section, body: section.body.trim() })) };
+};
+
+// Memoized so that only the message being streamed re-renders on each chunk
+export const ChatMessage: React.FC<ChatMessageProps> = React.memo(({ message, onRegenerate, onSelectVariant, onContinue, onFollowUp, onEdit, branchIds, onSwitchBranch }) => {
+  const { user, isAuthenticated } = useAuth();
+  const [missingSources, setMissingSources] = useState<string[]>([]);
+  const [draft, setDraft] = useState<string | null>(null);
+  const [panelTab, setPanelTab] = useState(0);
   const isUser = message.role === 'user';
+
+  const handleSaveEdit = () => {
+    if (!draft?.trim() || !onEdit) return;
+    if (draft.trim() !== message.content.trim()) onEdit(message.id, draft.trim());
+    setDraft(null);
+  };
   
   const renderStructuredContent = (content: string, isAuthenticatedUser: boolean) => {
     // For authenticated users, render content naturally without structured sections
     if (isAuthenticatedUser) {
       return (
         <div className="text-slate-700 dark:text-slate-300 leading-relaxed">
-          {content.split('\n').map((line, index) => {
-            const trimmedLine = line.trim();
-            if (trimmedLine.startsWith('•') || trimmedLine.startsWith('-') || trimmedLine.startsWith('*')) {
-              return (
-                <div key={index} className="flex items-start gap-3 ml-4 mb-2">
-                  <div className="w-2 h-2 bg-blue-500 rounded-full mt-2 flex-shrink-0"></div>
-                  <span>{trimmedLine.replace(/^[•\-*]\s*/, '')}</span>
-                </div>
-              );
-            }
-            return trimmedLine ? <p key={index} className="mb-2">{trimmedLine}</p> : null;
-          })}
+          <MarkdownContent content={content} />
         </div>
       );
     }
 
-    // For guest users, maintain structured format
-    // Split content by sections
-    const sections = content.split(/(?=Section \d+:|Problem Understanding|Analysis|Actionable Recommendations|Compliance Notes|Cost & Efficiency)/g);
-    
-    return sections.map((section, index) => {
-      if (section.trim() === '') return null;
-      
-      // Check for section headers
-      if (section.includes('Problem Understanding') || section.includes('Section 1:')) {
-        return (
-          <div key={index} className="mb-6">
-            <div className="flex items-center gap-2 px-4 py-3 rounded-lg border-2 border-red-200 bg-red-50 text-red-700 font-bold text-sm mb-3">
-              <Target className="w-4 h-4" />
-              PROBLEM UNDERSTANDING
-            </div>
-            <div className="text-slate-700 leading-relaxed pl-4 border-l-4 border-red-200">
-              {section.replace(/Problem Understanding|Section 1:/g, '').trim()}
-            </div>
+    // Guests see the section cards when the text is a structured answer in
+    // plain-text form; anything else is ordinary Markdown
+    const { intro, sections } = splitStructuredText(content);
+    return (
+      <>
+        {intro && (
+          <div className="text-slate-700 dark:text-slate-300 leading-relaxed mb-4">
+            <MarkdownContent content={intro} />
           </div>
-        );
-      }
-      
-      if (section.includes('Analysis') || section.includes('Section 2:')) {
-        return (
-          <div key={index} className="mb-6">
-            <div className="flex items-center gap-2 px-4 py-3 rounded-lg border-2 border-blue-200 bg-blue-50 text-blue-700 font-bold text-sm mb-3">
-              <BarChart3 className="w-4 h-4" />
-              ANALYSIS / BEST PRACTICES
-            </div>
-            <div className="text-slate-700 leading-relaxed pl-4 border-l-4 border-blue-200">
-              {formatBulletPoints(section.replace(/Analysis|Best Practices|Section 2:/g, '').trim())}
+        )}
+        {sections.map(({ key, body }, index) => {
+          const section = STRUCTURED_SECTIONS.find(s => s.key === key);
+          return section && renderSectionCard(section, <MarkdownContent content={body} />, index);
+        })}
+      </>
+    );
+  };
+
+  const renderSectionCard = (section: StructuredSection, body: React.ReactNode, key: React.Key) => (
+    <div key={key} className="mb-6">
+      <div className={`flex items-center gap-2 px-4 py-3 rounded-lg border-2 ${section.header} font-bold text-sm mb-3`}>
+        {section.icon}
+        {section.title}
+      </div>
+      <div className={`text-slate-700 dark:text-slate-300 leading-relaxed pl-4 border-l-4 ${section.border}`}>
+        {body}
+      </div>
+    </div>
+  );
+
+  // Draw the section cards straight from the typed fields; sections that
+  // are empty (or haven't streamed in yet) are skipped
+  const renderStructuredAnswer = (answer: StructuredAnswer) => {
+    return STRUCTURED_SECTIONS.map(section => {
+      const value = answer[section.key];
+      if (typeof value === 'string' ? !value.trim() : value.length === 0) return null;
+
+      return renderSectionCard(
+        section,
+        typeof value === 'string' ? (
+          <MarkdownContent content={value} />
+        ) : (
+          value.map((item, index) => (
+            <div key={index} className="flex items-start gap-3 ml-4 mb-2">
+              <div className="w-2 h-2 bg-blue-500 rounded-full mt-2 flex-shrink-0"></div>
+              <span><MarkdownContent content={item} inline /></span>
             </div>
+          ))
+        ),
+        section.key
+      );
+    });
+  };
+
+  const renderAssistantContent = () => {
+    if (message.structured) {
+      return (
+        <>
+          {renderStructuredAnswer(message.structured)}
+          {message.isStreaming && (
+            <span className="inline-block w-2 h-4 ml-1 align-middle bg-blue-500 animate-pulse" />
+          )}
+        </>
+      );
+    }
+
+    // Free-form text, or a structured answer that failed validation
+    if (!message.isStreaming) {
+      return renderStructuredContent(message.content, isAuthenticated);
+    }
+
+    // Hold back the unfinished last line so section detection and Markdown
+    // only ever see complete lines and cards don't flip while words arrive
+    const lastBreak = message.content.lastIndexOf('\n');
+    const settled = lastBreak === -1 ? '' : message.content.slice(0, lastBreak);
+    const tail = message.content.slice(lastBreak + 1).trim();
+
+    return (
+      <>
+        {settled && renderStructuredContent(settled, isAuthenticated)}
+        <p className="mb-2 text-slate-700 dark:text-slate-300">
+          {tail}
+          <span className="inline-block w-2 h-4 ml-1 align-middle bg-blue-500 animate-pulse" />
+        </p>
+      </>
+    );
+  };
+
+  const renderCaret = () => <span className="inline-block w-2 h-4 ml-1 align-middle bg-blue-500 animate-pulse" />;
+
+  const renderExpertAnswer = (answer: PanelExpertAnswer) => (
+    <>
+      {answer.structured ? renderStructuredAnswer(answer.structured) : answer.content && <MarkdownContent content={answer.content} />}
+      {answer.isStreaming && renderCaret()}
+      {answer.error && (
+        <div className="flex items-center gap-2 text-xs font-semibold text-red-600 dark:text-red-400">
+          <AlertTriangle size={12} />
+          The {answer.role} expert could not answer: {answer.error}
+        </div>
+      )}
+      {answer.citations && answer.citations.length > 0 && renderCitations(answer.citations)}
+    </>
+  );
+
+  // Expert panel: one tab per role, then the consolidated recommendation
+  // that weighs their answers against each other
+  const renderPanelAnswer = (panel: PanelExpertAnswer[]) => {
+    const active = panel[Math.min(panelTab, panel.length - 1)];
+    return (
+      <>
+        <div className="mb-4 rounded-lg border border-gray-200 dark:border-gray-700">
+          <div className="flex flex-wrap gap-1 px-2 pt-2 border-b border-gray-200 dark:border-gray-700">
+            {panel.map((answer, index) => (
+              <button
+                key={answer.role}
+                onClick={() => setPanelTab(index)}
+                className={`flex items-center gap-1 px-3 py-1.5 -mb-px rounded-t-lg text-xs font-semibold border transition-colors ${
+                  answer === active
+                    ? 'border-gray-200 dark:border-gray-700 border-b-white dark:border-b-gray-800 bg-white dark:bg-gray-800 text-blue-600 dark:text-blue-400'
+                    : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+                }`}
+              >
+                {answer.isStreaming && <Loader2 size={10} className="animate-spin" />}
+                {answer.error && <AlertTriangle size={10} className="text-red-500" />}
+                {answer.role}
+              </button>
+            ))}
           </div>
-        );
-      }
-      
-      if (section.includes('Actionable Recommendations') || section.includes('Solution') || section.includes('Section 3:')) {
-        return (
-          <div key={index} className="mb-6">
-            <div className="flex items-center gap-2 px-4 py-3 rounded-lg border-2 border-green-200 bg-green-50 text-green-700 font-bold text-sm mb-3">
-              <Lightbulb className="w-4 h-4" />
-              ACTIONABLE RECOMMENDATIONS
-            </div>
-            <div className="text-slate-700 leading-relaxed pl-4 border-l-4 border-green-200">
-              {formatBulletPoints(section.replace(/Actionable Recommendations|Solution|Recommendation|Section 3:/g, '').trim())}
-            </div>
+          <div className="p-3 text-slate-700 dark:text-slate-300 leading-relaxed">
+            {renderExpertAnswer(active)}
           </div>
-        );
-      }
-      
-      if (section.includes('Compliance Notes') || section.includes('Safety') || section.includes('Section 4:')) {
-        return (
-          <div key={index} className="mb-6">
-            <div className="flex items-center gap-2 px-4 py-3 rounded-lg border-2 border-yellow-200 bg-yellow-50 text-yellow-700 font-bold text-sm mb-3">
-              <Shield className="w-4 h-4" />
-              COMPLIANCE & SAFETY NOTES
+        </div>
+        {(message.content || message.isStreaming) && (
+          <div className="rounded-lg border-2 border-blue-200 dark:border-blue-800 p-3">
+            <div className="flex items-center gap-2 mb-2 text-xs font-bold text-blue-700 dark:text-blue-300">
+              <Users size={14} />
+              CONSOLIDATED RECOMMENDATION
             </div>
-            <div className="text-slate-700 leading-relaxed pl-4 border-l-4 border-yellow-200">
-              {formatBulletPoints(section.replace(/Compliance Notes|Safety|Best Practices|Section 4:/g, '').trim())}
+            <div className="text-slate-700 dark:text-slate-300 leading-relaxed">
+              {message.content ? <MarkdownContent content={message.content} /> : (
+                <p className="text-xs text-gray-500 dark:text-gray-400">Waiting for every expert before consolidating...</p>
+              )}
+              {message.isStreaming && message.content && renderCaret()}
             </div>
           </div>
-        );
-      }
-      
-      if (section.includes('Cost & Efficiency') || section.includes('Section 5:')) {
-        return (
-          <div key={index} className="mb-6">
-            <div className="flex items-center gap-2 px-4 py-3 rounded-lg border-2 border-purple-200 bg-purple-50 text-purple-700 font-bold text-sm mb-3">
-              <BarChart3 className="w-4 h-4" />
-              COST & EFFICIENCY IMPLICATIONS
-            </div>
-            <div className="text-slate-700 leading-relaxed pl-4 border-l-4 border-purple-200">
-              {formatBulletPoints(section.replace(/Cost & Efficiency|Section 5:/g, '').trim())}
+        )}
+      </>
+    );
+  };
+
+  const formatToolValues = (values: Record<string, unknown>) =>
+    Object.entries(values)
+      .map(([key, value]) => `${key} = ${typeof value === 'number' ? Number(value.toPrecision(6)) : String(value)}`)
+      .join(', ');
+
+  // Every calculator run is listed with its exact inputs and outputs so the
+  // numbers quoted in the answer can be checked
+  const renderToolCalls = (toolCalls: ToolCallRecord[]) => (
+    <div className="mb-4 rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/40">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-gray-200 dark:border-gray-700 text-xs font-bold text-gray-600 dark:text-gray-300">
+        <Calculator size={14} />
+        CALCULATIONS
+      </div>
+      <div className="divide-y divide-gray-200 dark:divide-gray-700">
+        {toolCalls.map(call => (
+          <div key={call.id} className="px-3 py-2 text-xs space-y-1">
+            <div className="font-semibold text-gray-800 dark:text-gray-200">{call.label}</div>
+            <div className="font-mono text-gray-600 dark:text-gray-400 break-words">
+              <span className="font-sans font-semibold">Inputs:</span> {formatToolValues(call.args)}
             </div>
+            {call.error ? (
+              <div className="flex items-center gap-1 text-red-600 dark:text-red-400">
+                <AlertTriangle size={12} />
+                {call.error}
+              </div>
+            ) : call.result && (
+              <div className="font-mono text-gray-600 dark:text-gray-400 break-words">
+                <span className="font-sans font-semibold">Results:</span> {formatToolValues(call.result)}
+              </div>
+            )}
           </div>
-        );
-      }
-      
-      // Default content
+        ))}
+      </div>
+    </div>
+  );
+
+  const handleOpenCitation = async (citation: Citation) => {
+    if (!user) return;
+    const opened = await openKnowledgeDocument(user.id, citation.documentId, citation.page);
+    if (!opened) setMissingSources(prev => [...prev, citation.documentId]);
+  };
+
+  // Knowledge base passages the answer cites; each opens the source
+  // document at the cited page
+  const renderCitations = (citations: Citation[]) => (
+    <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-700">
+      <div className="flex items-center gap-2 mb-2 text-xs font-bold text-gray-600 dark:text-gray-300">
+        <BookOpen size={14} />
+        SOURCES
+      </div>
+      <ol className="space-y-1">
+        {citations.map(citation => (
+          <li key={citation.number} className="text-xs">
+            {missingSources.includes(citation.documentId) ? (
+              <span className="text-gray-500 dark:text-gray-400">
+                [{citation.number}] {citation.documentName}, p. {citation.page} (no longer in your knowledge base)
+              </span>
+            ) : (
+              <button
+                onClick={() => void handleOpenCitation(citation)}
+                title={citation.snippet}
+                className="text-left text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                [{citation.number}] {citation.documentName}, p. {citation.page}
+              </button>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+
+  // Explain why an answer ended early: the token limit, or a safety or
+  // recitation filter stopping it part-way
+  const renderFinishNotice = () => {
+    const meta = message.responseMeta;
+    if (!meta || message.isStreaming) return null;
+    const flagged = meta.safetyRatings?.filter(isFlaggedRating) ?? [];
+
+    if (meta.finishReason === 'max_tokens') {
       return (
-        <div key={index} className="text-slate-700 leading-relaxed mb-4">
-          {formatBulletPoints(section)}
+        <div className="flex items-center justify-between gap-3 mt-3 px-3 py-2 rounded-lg border border-yellow-200 dark:border-yellow-800 bg-yellow-50 dark:bg-yellow-900/20 text-xs text-yellow-800 dark:text-yellow-200">
+          <span className="flex items-center gap-2">
+            <Scissors size={12} />
+            Cut off at the {message.generationSettings?.maxOutputTokens ?? 'output'}-token limit.
+          </span>
+          {onContinue && message.resumeFrom && (
+            <button
+              onClick={() => onContinue(message.id)}
+              className="flex items-center gap-1 px-2 py-1 rounded-md bg-yellow-600 text-white font-semibold hover:bg-yellow-700 transition-colors"
+            >
+              <PlayCircle size={12} />
+              Continue
+            </button>
+          )}
         </div>
       );
-    });
-  };
-  
-  const formatBulletPoints = (text: string) => {
-    return text.split('\n').map((line, lineIndex) => {
-      const trimmedLine = line.trim();
-      if (trimmedLine.startsWith('•') || trimmedLine.startsWith('-') || trimmedLine.startsWith('*')) {
-        return (
-          <div key={lineIndex} className="flex items-start gap-3 ml-4 mb-2">
-            <div className="w-2 h-2 bg-blue-500 rounded-full mt-2 flex-shrink-0"></div>
-            <span>{trimmedLine.replace(/^[•\-*]\s*/, '')}</span>
+    }
+
+    if (meta.finishReason === 'safety' || meta.finishReason === 'recitation') {
+      return (
+        <div className="mt-3 px-3 py-2 rounded-lg border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20 text-xs text-red-800 dark:text-red-200 space-y-1">
+          <div className="flex items-center gap-2 font-semibold">
+            <ShieldAlert size={12} />
+            The rest of this answer was withheld.
           </div>
-        );
-      }
-      return trimmedLine ? <p key={lineIndex} className="mb-2">{trimmedLine}</p> : null;
-    });
+          {meta.finishReason === 'recitation' && <p>{BLOCK_REASON_EXPLANATIONS.RECITATION}</p>}
+          {flagged.map(rating => {
+            const info = describeSafetyCategory(rating.category);
+            return (
+              <p key={rating.category}>
+                <span className="font-semibold">{info.label}:</span> {info.explanation}
+              </p>
+            );
+          })}
+        </div>
+      );
+    }
+
+    if (flagged.length > 0) {
+      return (
+        <div className="flex items-center gap-2 mt-3 text-xs text-yellow-700 dark:text-yellow-300">
+          <ShieldAlert size={12} />
+          Safety filters flagged: {flagged.map(r => `${describeSafetyCategory(r.category).label} (${r.probability.toLowerCase()})`).join(', ')}
+        </div>
+      );
+    }
+    return null;
   };
-  
+
   const renderFileAttachments = (files: FileUpload[]) => {
     if (!files || files.length === 0) return null;
 
@@ -143,6 +376,8 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
           <div key={file.id} className="flex items-center gap-2 bg-gray-100 dark:bg-gray-700 rounded-lg p-2">
             {file.type.startsWith('image/') ? (
               <Image className="text-blue-500" size={16} />
+            ) : isSpreadsheet(file) ? (
+              <FileSpreadsheet className="text-green-600" size={16} />
             ) : (
               <FileText className="text-red-500" size={16} />
             )}
@@ -152,6 +387,16 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
             <span className="text-xs text-gray-500 dark:text-gray-400">
               ({(file.size / 1024).toFixed(1)} KB)
             </span>
+            {file.pdf && file.pdf.pages.length < file.pdf.pageCount && (
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                pages {formatPageRanges(file.pdf.pages)}
+              </span>
+            )}
+            {file.markup && file.markup.annotations.length > 0 && (
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                {file.markup.annotations.length} mark{file.markup.annotations.length === 1 ? '' : 's'}
+              </span>
+            )}
           </div>
         ))}
       </div>
@@ -175,22 +420,131 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
             : 'bg-white dark:bg-gray-800 text-gray-900 dark:text-white border border-gray-200 dark:border-gray-700 rounded-xl rounded-bl-md'
         }`}>
           <div className="text-sm leading-relaxed">
-            {isUser ? (
+            {isUser && draft !== null ? (
+              <div className="space-y-2 text-left">
+                <textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && !e.shiftKey) {
+                      e.preventDefault();
+                      handleSaveEdit();
+                    } else if (e.key === 'Escape') {
+                      setDraft(null);
+                    }
+                  }}
+                  rows={Math.min(8, Math.max(2, draft.split('\n').length))}
+                  autoFocus
+                  className="w-full min-w-[16rem] sm:min-w-[28rem] px-3 py-2 rounded-lg text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-blue-300 resize-y"
+                />
+                <div className="flex justify-end gap-2 text-xs">
+                  <button
+                    onClick={() => setDraft(null)}
+                    className="px-3 py-1 rounded-md border border-white/40 hover:bg-white/10 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleSaveEdit}
+                    disabled={!draft.trim()}
+                    className="px-3 py-1 rounded-md bg-white text-blue-700 font-semibold hover:bg-blue-50 transition-colors disabled:opacity-50"
+                  >
+                    Save & ask
+                  </button>
+                </div>
+                <p className="text-xs text-blue-100">The answer is generated again on a new branch; the original stays available.</p>
+              </div>
+            ) : isUser ? (
               <div className="space-y-2">
                 <div className="font-semibold break-words">{message.content}</div>
                 {message.files && renderFileAttachments(message.files)}
               </div>
             ) : (
               <div className="space-y-2">
-                {renderStructuredContent(message.content, isAuthenticated)}
+                {message.toolCalls && message.toolCalls.length > 0 && renderToolCalls(message.toolCalls)}
+                {message.panel ? renderPanelAnswer(message.panel) : renderAssistantContent()}
+                {message.citations && message.citations.length > 0 && renderCitations(message.citations)}
+                {renderFinishNotice()}
+                {message.stopped && (
+                  <div className="flex items-center gap-2 text-xs font-semibold text-yellow-700 dark:text-yellow-300">
+                    <AlertTriangle size={12} />
+                    Response stopped before completion
+                  </div>
+                )}
               </div>
             )}
           </div>
         </div>
         <div className={`text-xs text-gray-500 dark:text-gray-400 mt-2 font-medium ${isUser ? 'text-right' : 'text-left'}`}>
           {isUser ? 'YOU' : 'FortAS AI'} • {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          {message.cachedAt && (
+            <span className="inline-flex items-center gap-2 ml-2">
+              <span
+                className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300"
+                title={`Served from the local cache; first generated ${message.cachedAt.toLocaleString()}`}
+              >
+                <Database size={10} />
+                Cached
+              </span>
+              {onRegenerate && (
+                <button
+                  onClick={() => onRegenerate(message.id)}
+                  className="inline-flex items-center gap-1 text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  <RefreshCw size={10} />
+                  Regenerate fresh
+                </button>
+              )}
+            </span>
+          )}
+          {message.generationSettings && (
+            <span
+              className="inline-flex items-center gap-1 ml-2 text-gray-400 dark:text-gray-500"
+              title={[
+                `${message.generationSettings.tier} tier`,
+                message.generationSettings.overridden && `Your overrides: ${message.generationSettings.overridden.join(', ')}`,
+                message.generationSettings.capped && `Capped by tier: ${message.generationSettings.capped.join(', ')}`
+              ].filter(Boolean).join('\n')}
+            >
+              <SlidersHorizontal size={10} />
+              {message.generationSettings.model} · T {message.generationSettings.temperature} · P {message.generationSettings.topP} · K {message.generationSettings.topK} · {message.generationSettings.maxOutputTokens} tok
+            </span>
+          )}
+          {message.responseMeta?.usage && (
+            <span
+              className="ml-2 text-gray-400 dark:text-gray-500"
+              title={`Prompt ${message.responseMeta.usage.promptTokens} · output ${message.responseMeta.usage.outputTokens}`}
+            >
+              · {message.responseMeta.usage.totalTokens.toLocaleString()} tokens used
+            </span>
+          )}
         </div>
+        {isUser && draft === null && (
+          <MessageBranchControls
+            messageId={message.id}
+            branchIds={branchIds ?? [message.id]}
+            onSwitchBranch={onSwitchBranch}
+            onStartEdit={onEdit ? () => setDraft(message.content) : undefined}
+          />
+        )}
+        {!isUser && (
+          <AnswerVariantControls message={message} onRegenerate={onRegenerate} onSelectVariant={onSelectVariant} />
+        )}
+        {!isUser && onFollowUp && message.followUps && message.followUps.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-3">
+            {message.followUps.map(question => (
+              <button
+                key={question}
+                onClick={() => onFollowUp(question)}
+                className="flex items-center gap-1 px-3 py-1.5 rounded-full border border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-900/20 text-xs text-blue-700 dark:text-blue-300 text-left hover:bg-blue-100 dark:hover:bg-blue-900/40 transition-colors"
+              >
+                <CornerDownRight size={12} className="flex-shrink-0" />
+                {question}
+              </button>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
-};
\ No newline at end of file
+});
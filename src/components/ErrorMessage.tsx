@@ -1,12 +1,58 @@
 import React from 'react';
-import { AlertTriangle, RefreshCw } from 'lucide-react';
+import { AlertTriangle, RefreshCw, X } from 'lucide-react';
+import type { LLMError, LLMErrorKind } from '../utils/llm/errors';
+import { SafetyBlockedError, UsageLimitError } from '../utils/llm/errors';
+import { BLOCK_REASON_EXPLANATIONS, describeSafetyCategory } from '../utils/llm/safety';
 
 interface ErrorMessageProps {
-  message: string;
+  error: LLMError;
   onRetry?: () => void;
+  onDismiss?: () => void;
 }
 
-export const ErrorMessage: React.FC<ErrorMessageProps> = ({ message, onRetry }) => {
+const ERROR_GUIDANCE: Record<LLMErrorKind, { title: string; guidance: string }> = {
+  auth: {
+    title: 'Authentication Failed',
+    guidance: 'The model provider rejected our credentials. Check the API key configured for this deployment.'
+  },
+  quota: {
+    title: 'Rate Limit Reached',
+    guidance: 'Too many requests were sent to the model service. Wait a moment before retrying.'
+  },
+  limit: {
+    title: 'Daily Limit Reached',
+    guidance: 'Your plan\'s daily allowance is used up.'
+  },
+  safety: {
+    title: 'Blocked by Safety Filters',
+    guidance: 'The question or the answer was blocked by the provider\'s safety filters. Rephrase the question, focusing on the technical details.'
+  },
+  network: {
+    title: 'Connection Problem',
+    guidance: 'The model service could not be reached. Check your network connection and retry.'
+  },
+  timeout: {
+    title: 'Request Timed Out',
+    guidance: 'The model took too long to respond. Retry, or shorten the question or attachments.'
+  },
+  empty: {
+    title: 'Empty Answer',
+    guidance: 'The model returned no answer. Retrying usually helps.'
+  },
+  config: {
+    title: 'Configuration Error',
+    guidance: 'The model provider is not set up for this deployment.'
+  },
+  unknown: {
+    title: 'System Error',
+    guidance: 'Technical system error occurred. Please try again or contact support.'
+  }
+};
+
+export const ErrorMessage: React.FC<ErrorMessageProps> = ({ error, onRetry, onDismiss }) => {
+  const { title, guidance } = ERROR_GUIDANCE[error.kind];
+  const retryAfterSeconds = error.retryAfterMs ? Math.ceil(error.retryAfterMs / 1000) : null;
+
   return (
     <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl p-4 mb-4">
       <div className="flex items-center gap-4">
@@ -14,8 +60,40 @@ export const ErrorMessage: React.FC<ErrorMessageProps> = ({ message, onRetry })
           <AlertTriangle className="text-red-600 dark:text-red-400" size={20} />
         </div>
         <div className="flex-1">
-          <h3 className="text-base font-bold text-red-800 dark:text-red-200 mb-1">System Error</h3>
-          <p className="text-sm text-red-700 dark:text-red-300 leading-relaxed">{message}</p>
+          <h3 className="text-base font-bold text-red-800 dark:text-red-200 mb-1">
+            {title}
+            {error.status ? <span className="ml-2 text-xs font-semibold opacity-70">HTTP {error.status}</span> : null}
+          </h3>
+          <p className="text-sm text-red-700 dark:text-red-300 leading-relaxed">
+            {error.kind === 'config'
+              ? error.message
+              : error instanceof UsageLimitError
+                ? `${error.message} It resets at ${error.resetsAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.`
+                : error instanceof SafetyBlockedError && (error.categories.length > 0 || (error.reason && error.reason !== 'SAFETY'))
+                  ? 'The provider withheld this answer for the reasons below. Rephrasing around safe practice and standards usually helps.'
+                  : guidance}
+            {retryAfterSeconds && ` You can try again in about ${retryAfterSeconds} seconds.`}
+          </p>
+          {error instanceof SafetyBlockedError && (
+            <div className="text-xs text-red-700 dark:text-red-300 mt-1 space-y-1">
+              {error.reason && error.reason !== 'SAFETY' && BLOCK_REASON_EXPLANATIONS[error.reason] && (
+                <p>{BLOCK_REASON_EXPLANATIONS[error.reason]}</p>
+              )}
+              {error.categories.map(category => {
+                const info = describeSafetyCategory(category);
+                return (
+                  <p key={category}>
+                    <span className="font-semibold">{info.label}:</span> {info.explanation}
+                  </p>
+                );
+              })}
+            </div>
+          )}
+          {error.attempts > 1 && (
+            <p className="text-xs text-red-600/80 dark:text-red-400/80 mt-1">
+              Failed after {error.attempts} attempts.
+            </p>
+          )}
         </div>
         {onRetry && (
           <button
@@ -28,7 +106,16 @@ export const ErrorMessage: React.FC<ErrorMessageProps> = ({ message, onRetry })
             Retry
           </button>
         )}
+        {onDismiss && (
+          <button
+            onClick={onDismiss}
+            className="p-2 text-red-500 hover:text-red-700 dark:text-red-400 dark:hover:text-red-200 transition-colors"
+            title="Dismiss"
+          >
+            <X size={16} />
+          </button>
+        )}
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
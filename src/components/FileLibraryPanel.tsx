@@ -0,0 +1,233 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { FolderOpen, X, Search, Trash2, ExternalLink, AlertTriangle, FileText, FileSpreadsheet, Image } from 'lucide-react';
+import { FileLibraryService, formatMegabytes } from '../services/fileLibraryService';
+import { QuotaService } from '../services/quotaService';
+import { openStoredFile } from '../utils/knowledge/openDocument';
+import { isSpreadsheet } from '../utils/spreadsheet';
+import type { FileUpload, LibraryFile, MembershipTier } from '../types';
+
+interface FileLibraryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  userId: string;
+  tier: MembershipTier;
+  onAttach?: (files: FileUpload[]) => void; // Picker mode: choose files for the next message
+}
+
+// The user's uploaded files. From the sidebar it is for browsing and
+// clearing space; from the chat input it picks files to attach again.
+export const FileLibraryPanel: React.FC<FileLibraryPanelProps> = ({ isOpen, onClose, userId, tier, onAttach }) => {
+  const [files, setFiles] = useState<LibraryFile[]>([]);
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setFiles(await FileLibraryService.listFiles(userId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load your files.');
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSelected(new Set());
+    setQuery('');
+    setError(null);
+    void refresh();
+  }, [isOpen, refresh]);
+
+  if (!isOpen) return null;
+
+  const limit = QuotaService.getStorageLimit(tier);
+  const used = files.reduce((total, file) => total + file.size, 0);
+  const percent = limit > 0 ? Math.min(100, (used / limit) * 100) : 100;
+  const term = query.trim().toLowerCase();
+  const shown = term ? files.filter(file => file.name.toLowerCase().includes(term)) : files;
+
+  const toggle = (fileId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(fileId)) next.delete(fileId);
+      else next.add(fileId);
+      return next;
+    });
+  };
+
+  const handleDelete = async (file: LibraryFile) => {
+    if (!window.confirm(`Delete ${file.name}? Chats that used it will only show its name.`)) return;
+    try {
+      await FileLibraryService.deleteFile(userId, file.id);
+      setFiles(prev => prev.filter(f => f.id !== file.id));
+      setSelected(prev => {
+        const next = new Set(prev);
+        next.delete(file.id);
+        return next;
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Could not delete ${file.name}.`);
+    }
+  };
+
+  const handleAttach = async () => {
+    if (!onAttach) return;
+    try {
+      onAttach(await FileLibraryService.attachFiles(userId, [...selected]));
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not attach the files.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-gray-900 rounded-2xl shadow-2xl max-w-2xl w-full max-h-[85vh] flex flex-col overflow-hidden text-left">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-br from-blue-600 to-blue-800 rounded-xl">
+              <FolderOpen className="text-white" size={20} />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white">{onAttach ? 'Attach From My Files' : 'My Files'}</h2>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Files you upload are kept on this device and can be attached to any chat
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+          >
+            <X className="text-gray-500" size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700 space-y-3">
+          {/* Storage */}
+          <div>
+            <div className="flex justify-between text-xs mb-1">
+              <span className="text-gray-600 dark:text-gray-400">Storage · {tier} plan</span>
+              <span className={`font-semibold ${percent >= 100 ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>
+                {formatMegabytes(used)} / {formatMegabytes(limit)}
+              </span>
+            </div>
+            <div className="h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+              <div
+                className={`h-full transition-all ${percent >= 100 ? 'bg-red-500' : percent >= 80 ? 'bg-yellow-500' : 'bg-blue-500'}`}
+                style={{ width: `${percent}%` }}
+              />
+            </div>
+            {limit === 0 && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                Upgrade to Premium to add files. Files you already have stay available.
+              </p>
+            )}
+          </div>
+
+          <div className="relative">
+            <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search by name..."
+              className="w-full pl-8 pr-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-800 dark:text-white"
+            />
+          </div>
+        </div>
+
+        {error && (
+          <div className="mx-4 mt-4 p-3 rounded-lg border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300 flex items-start gap-2">
+            <AlertTriangle size={14} className="mt-0.5 flex-shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {/* Files */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {shown.length === 0 ? (
+            <p className="text-center text-sm text-gray-500 dark:text-gray-400 py-8">
+              {files.length === 0 ? 'No files yet. Files you attach to messages appear here.' : 'No files match your search.'}
+            </p>
+          ) : (
+            shown.map(file => (
+              <div
+                key={file.id}
+                className={`flex items-center gap-3 border rounded-xl p-3 ${
+                  selected.has(file.id)
+                    ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30'
+                    : 'border-gray-200 dark:border-gray-700'
+                }`}
+              >
+                {onAttach && (
+                  <input
+                    type="checkbox"
+                    checked={selected.has(file.id)}
+                    onChange={() => toggle(file.id)}
+                    className="rounded border-gray-300"
+                  />
+                )}
+                {file.type.startsWith('image/') ? (
+                  <Image className="text-blue-500 flex-shrink-0" size={18} />
+                ) : isSpreadsheet(file) ? (
+                  <FileSpreadsheet className="text-green-600 flex-shrink-0" size={18} />
+                ) : (
+                  <FileText className="text-red-500 flex-shrink-0" size={18} />
+                )}
+                <button
+                  onClick={() => onAttach && toggle(file.id)}
+                  className={`flex-1 min-w-0 text-left ${onAttach ? '' : 'cursor-default'}`}
+                >
+                  <p className="text-sm font-semibold text-gray-900 dark:text-white truncate">{file.name}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {(file.size / 1024).toFixed(0)} KB · added {file.addedAt.toLocaleDateString()} · last used {file.lastUsedAt.toLocaleDateString()}
+                  </p>
+                </button>
+                <button
+                  onClick={() => void openStoredFile(() => FileLibraryService.getFile(userId, file.id))}
+                  className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+                  title="Open"
+                >
+                  <ExternalLink className="text-gray-500" size={16} />
+                </button>
+                {!onAttach && (
+                  <button
+                    onClick={() => void handleDelete(file)}
+                    className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                    title="Delete"
+                  >
+                    <Trash2 className="text-red-500" size={16} />
+                  </button>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* Footer */}
+        {onAttach && (
+          <div className="flex items-center gap-3 p-4 border-t border-gray-200 dark:border-gray-700 text-sm">
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              Attaching from your files does not count towards daily uploads
+            </span>
+            <div className="flex-1" />
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => void handleAttach()}
+              disabled={selected.size === 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              Attach {selected.size > 0 ? selected.size : ''} file{selected.size === 1 ? '' : 's'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,389 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  ArrowUpRight,
+  Circle,
+  Crop,
+  Loader2,
+  PenLine,
+  Pencil,
+  RotateCcw,
+  RotateCw,
+  Trash2,
+  Type,
+  Undo2,
+  X
+} from 'lucide-react';
+import type { FileUpload, ImageAnnotation, ImageMarkup, MarkupPoint } from '../types';
+import {
+  EMPTY_MARKUP,
+  MARKUP_COLORS,
+  cropBox,
+  drawMarkup,
+  fileToDataUrl,
+  loadImage,
+  renderMarkup,
+  rotatedBox,
+  rotatePoint,
+  rotatedSize,
+  unrotatePoint
+} from '../utils/imageMarkup';
+
+interface ImageMarkupEditorProps {
+  file: FileUpload;
+  onSave: (file: FileUpload) => void;
+  onClose: () => void;
+}
+
+type Tool = 'arrow' | 'circle' | 'freehand' | 'text' | 'crop';
+
+const TOOLS: { value: Tool; label: string; icon: React.ElementType }[] = [
+  { value: 'arrow', label: 'Arrow', icon: ArrowUpRight },
+  { value: 'circle', label: 'Circle', icon: Circle },
+  { value: 'freehand', label: 'Draw', icon: Pencil },
+  { value: 'text', label: 'Label', icon: Type },
+  { value: 'crop', label: 'Crop', icon: Crop }
+];
+
+// Smaller drags are treated as stray clicks
+const MIN_DRAG = 0.01;
+
+const isEmpty = (markup: ImageMarkup) => markup.rotation === 0 && !markup.crop && markup.annotations.length === 0;
+
+const mimeOf = (dataUrl: string) => dataUrl.slice(5, dataUrl.indexOf(';'));
+
+// Decoded size of a base64 data URL
+const dataUrlBytes = (dataUrl: string) => Math.round((dataUrl.length - dataUrl.indexOf(',') - 1) * 0.75);
+
+// Annotation editor for an attached photo: arrows, circles, freehand marks
+// and labels, plus crop and rotate. Marks are kept in the original photo's
+// coordinates so they can be changed again until the message is sent.
+export const ImageMarkupEditor: React.FC<ImageMarkupEditorProps> = ({ file, onSave, onClose }) => {
+  const [original] = useState(() => file.markup?.original ?? fileToDataUrl(file));
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [markup, setMarkup] = useState<ImageMarkup>(() => ({ ...EMPTY_MARKUP, ...file.markup, original: undefined }));
+  const [tool, setTool] = useState<Tool>('arrow');
+  const [color, setColor] = useState(MARKUP_COLORS[0].value);
+  const [draft, setDraft] = useState<ImageAnnotation | null>(null);
+  const [cropDraft, setCropDraft] = useState<{ from: MarkupPoint; to: MarkupPoint } | null>(null);
+  const [label, setLabel] = useState<{ at: MarkupPoint; text: string } | null>(null);
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragStart = useRef<MarkupPoint | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(original)
+      .then(loaded => {
+        if (!cancelled) setImage(loaded);
+      })
+      .catch(err => {
+        if (!cancelled) setLoadError(err instanceof Error ? err.message : 'Could not read the image.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [original]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setViewport({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Fit the rotated photo into the available space
+  const full = image ? rotatedSize(image, markup.rotation) : null;
+  const scale = full ? Math.min(1, viewport.width / full.width, viewport.height / full.height) : 0;
+  const displayWidth = full ? Math.floor(full.width * scale) : 0;
+  const displayHeight = full ? Math.floor(full.height * scale) : 0;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !image || displayWidth === 0 || displayHeight === 0) return;
+
+    canvas.width = displayWidth;
+    canvas.height = displayHeight;
+    drawMarkup(ctx, image, { ...markup, annotations: draft ? [...markup.annotations, draft] : markup.annotations }, displayWidth, displayHeight);
+
+    // Dim everything outside the crop
+    const crop = cropDraft ? rotatedBox(cropDraft.from, cropDraft.to, markup.rotation) : markup.crop ? cropBox(markup) : null;
+    if (crop) {
+      const x = crop.x * displayWidth;
+      const y = crop.y * displayHeight;
+      const w = crop.width * displayWidth;
+      const h = crop.height * displayHeight;
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+      ctx.fillRect(0, 0, displayWidth, y);
+      ctx.fillRect(0, y + h, displayWidth, displayHeight - y - h);
+      ctx.fillRect(0, y, x, h);
+      ctx.fillRect(x + w, y, displayWidth - x - w, h);
+      ctx.setLineDash([6, 4]);
+      ctx.strokeStyle = '#ffffff';
+      ctx.lineWidth = 1.5;
+      ctx.strokeRect(x, y, w, h);
+    }
+  }, [image, markup, draft, cropDraft, displayWidth, displayHeight]);
+
+  // Pointer position as original-photo fractions
+  const toPoint = (e: React.PointerEvent): MarkupPoint => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    const clamp = (value: number) => Math.min(1, Math.max(0, value));
+    return unrotatePoint(
+      { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) },
+      markup.rotation
+    );
+  };
+
+  const commitLabel = () => {
+    if (label?.text.trim()) {
+      setMarkup(prev => ({ ...prev, annotations: [...prev.annotations, { kind: 'text', at: label.at, text: label.text.trim(), color }] }));
+    }
+    setLabel(null);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = toPoint(e);
+    if (tool === 'text') {
+      // Keep focus in the open label so it moves instead of blurring
+      e.preventDefault();
+      commitLabel();
+      setLabel({ at: point, text: '' });
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = point;
+    if (tool === 'crop') setCropDraft({ from: point, to: point });
+    else if (tool === 'freehand') setDraft({ kind: 'freehand', points: [point], color });
+    else setDraft({ kind: tool, from: point, to: point, color });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!dragStart.current) return;
+    const point = toPoint(e);
+    if (tool === 'crop') {
+      setCropDraft(prev => prev && { ...prev, to: point });
+      return;
+    }
+    setDraft(prev => {
+      if (!prev) return prev;
+      if (prev.kind === 'freehand') return { ...prev, points: [...prev.points, point] };
+      if (prev.kind === 'arrow' || prev.kind === 'circle') return { ...prev, to: point };
+      return prev;
+    });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const start = dragStart.current;
+    if (!start) return;
+    dragStart.current = null;
+    const end = toPoint(e);
+    const moved = Math.abs(end.x - start.x) > MIN_DRAG || Math.abs(end.y - start.y) > MIN_DRAG;
+
+    if (tool === 'crop') {
+      if (moved) setMarkup(prev => ({ ...prev, crop: { from: start, to: end } }));
+      setCropDraft(null);
+      return;
+    }
+    if (draft && (moved || draft.kind === 'freehand')) {
+      setMarkup(prev => ({ ...prev, annotations: [...prev.annotations, draft] }));
+    }
+    setDraft(null);
+  };
+
+  const rotate = (quarterTurns: 1 | -1) => {
+    commitLabel();
+    setMarkup(prev => ({ ...prev, rotation: ((prev.rotation + quarterTurns * 90 + 360) % 360) as ImageMarkup['rotation'] }));
+  };
+
+  const handleSave = () => {
+    if (!image) return;
+    if (isEmpty(markup)) {
+      // Nothing changed: send the photo as it was uploaded
+      onSave(file.markup
+        ? { ...file, content: original, type: mimeOf(original), size: dataUrlBytes(original), markup: undefined }
+        : file);
+      return;
+    }
+    const content = renderMarkup(image, markup, mimeOf(original));
+    onSave({
+      ...file,
+      content,
+      type: mimeOf(content),
+      size: dataUrlBytes(content),
+      markup: { ...markup, original }
+    });
+  };
+
+  // Where the pending label's input sits over the canvas
+  const labelPosition = label && rotatePoint(label.at, markup.rotation);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-gray-900 rounded-2xl shadow-2xl max-w-5xl w-full h-[85vh] flex flex-col overflow-hidden text-left">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="p-2 bg-gradient-to-br from-blue-600 to-blue-800 rounded-xl">
+              <PenLine className="text-white" size={20} />
+            </div>
+            <div className="min-w-0">
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white">Mark Up Photo</h2>
+              <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                {file.name}: point at the problem area. The marks are also described to the model.
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+          >
+            <X className="text-gray-500" size={20} />
+          </button>
+        </div>
+
+        {/* Toolbar */}
+        <div className="flex flex-wrap items-center gap-3 p-4 border-b border-gray-200 dark:border-gray-700 text-sm">
+          <div className="flex gap-1">
+            {TOOLS.map(({ value, label: toolLabel, icon: Icon }) => (
+              <button
+                key={value}
+                onClick={() => {
+                  commitLabel();
+                  setTool(value);
+                }}
+                className={`flex items-center gap-1 px-2.5 py-1.5 rounded-lg transition-colors ${
+                  tool === value
+                    ? 'bg-blue-600 text-white'
+                    : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'
+                }`}
+              >
+                <Icon size={14} />
+                {toolLabel}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-1">
+            {MARKUP_COLORS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => setColor(option.value)}
+                title={option.name}
+                style={{ backgroundColor: option.value }}
+                className={`w-6 h-6 rounded-full border ${
+                  color === option.value ? 'ring-2 ring-blue-500 ring-offset-1 dark:ring-offset-gray-900' : ''
+                } border-gray-300 dark:border-gray-600`}
+              />
+            ))}
+          </div>
+          <div className="flex gap-1">
+            <button
+              onClick={() => rotate(-1)}
+              className="p-1.5 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"
+              title="Rotate left"
+            >
+              <RotateCcw size={16} />
+            </button>
+            <button
+              onClick={() => rotate(1)}
+              className="p-1.5 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"
+              title="Rotate right"
+            >
+              <RotateCw size={16} />
+            </button>
+          </div>
+          <div className="flex-1" />
+          {markup.crop && (
+            <button
+              onClick={() => setMarkup(prev => ({ ...prev, crop: undefined }))}
+              className="px-2.5 py-1.5 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"
+            >
+              Remove crop
+            </button>
+          )}
+          <button
+            onClick={() => setMarkup(prev => ({ ...prev, annotations: prev.annotations.slice(0, -1) }))}
+            disabled={markup.annotations.length === 0}
+            className="flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50"
+          >
+            <Undo2 size={14} />
+            Undo
+          </button>
+          <button
+            onClick={() => setMarkup(EMPTY_MARKUP)}
+            disabled={isEmpty(markup)}
+            className="flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50"
+          >
+            <Trash2 size={14} />
+            Reset
+          </button>
+        </div>
+
+        {/* Canvas */}
+        <div ref={containerRef} className="flex-1 min-h-0 m-4 flex items-center justify-center bg-gray-100 dark:bg-gray-800 rounded-lg">
+          {loadError ? (
+            <p className="text-sm text-red-600 dark:text-red-400">{loadError}</p>
+          ) : !image ? (
+            <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+              <Loader2 size={16} className="animate-spin" />
+              Loading photo...
+            </div>
+          ) : (
+            <div className="relative" style={{ width: displayWidth, height: displayHeight }}>
+              <canvas
+                ref={canvasRef}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                className={`touch-none ${tool === 'text' ? 'cursor-text' : 'cursor-crosshair'}`}
+              />
+              {label && labelPosition && (
+                <input
+                  autoFocus
+                  value={label.text}
+                  onChange={(e) => setLabel({ ...label, text: e.target.value })}
+                  onBlur={commitLabel}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitLabel();
+                    if (e.key === 'Escape') setLabel(null);
+                  }}
+                  placeholder="Label, e.g. crack"
+                  style={{ left: labelPosition.x * displayWidth, top: labelPosition.y * displayHeight }}
+                  className="absolute -translate-y-1/2 w-40 px-2 py-1 text-sm border border-blue-500 rounded bg-white/90 dark:bg-gray-900/90 dark:text-white"
+                />
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex flex-wrap items-center gap-3 p-4 border-t border-gray-200 dark:border-gray-700 text-sm">
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            {markup.annotations.length} mark{markup.annotations.length === 1 ? '' : 's'}
+            {markup.crop ? ', cropped' : ''}
+            {markup.rotation ? `, rotated ${markup.rotation}°` : ''}
+          </span>
+          <div className="flex-1" />
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!image}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            Use edited photo
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,245 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Library, X, Upload, Trash2, ExternalLink, Loader2, AlertTriangle, FileText } from 'lucide-react';
+import { KnowledgeBaseService } from '../services/knowledgeBaseService';
+import { useUsage } from '../contexts/UsageContext';
+import { openKnowledgeDocument } from '../utils/knowledge/openDocument';
+import { getEmbeddingProvider } from '../utils/llm';
+import type { FileUpload, KnowledgeDocument, UserRole } from '../types';
+
+interface KnowledgeBasePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  userId: string;
+}
+
+const ROLES: (UserRole | 'General AI')[] = [
+  'Operations',
+  'Project Management',
+  'Sales & Marketing',
+  'Procurement',
+  'Erection & Commissioning',
+  'Engineering & Design',
+  'General AI'
+];
+
+const readFile = (file: File): Promise<FileUpload> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve({
+      id: `file_${Date.now()}_${Math.random()}`,
+      name: file.name,
+      type: file.type,
+      size: file.size,
+      content: reader.result as ArrayBuffer,
+      uploadDate: new Date()
+    });
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(file);
+  });
+
+// Per-user document library. Documents are indexed locally and their
+// passages are retrieved into questions asked in the roles they are enabled for.
+export const KnowledgeBasePanel: React.FC<KnowledgeBasePanelProps> = ({ isOpen, onClose, userId }) => {
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+  const [uploadRoles, setUploadRoles] = useState<(UserRole | 'General AI')[]>([]);
+  const [indexing, setIndexing] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { recordFiles } = useUsage();
+
+  const refresh = useCallback(async () => {
+    try {
+      setDocuments(await KnowledgeBaseService.listDocuments(userId));
+    } catch (err) {
+      setErrors([err instanceof Error ? err.message : 'Could not load the knowledge base.']);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    if (isOpen) void refresh();
+  }, [isOpen, refresh]);
+
+  if (!isOpen) return null;
+
+  // Without an embedding model passages are ranked by keyword match alone
+  const semanticSearch = getEmbeddingProvider() !== null;
+
+  const handleFiles = async (files: File[]) => {
+    const failures: string[] = [];
+    for (const file of files) {
+      // Documents count towards the daily file upload allowance
+      const limitError = recordFiles(1);
+      if (limitError) {
+        failures.push(limitError);
+        break;
+      }
+      setIndexing(file.name);
+      try {
+        const document = await KnowledgeBaseService.addDocument(userId, await readFile(file), uploadRoles);
+        if (semanticSearch && !document.embeddingModel) {
+          failures.push(`${file.name}: the embedding model could not be reached, so it is indexed for keyword search only.`);
+        }
+      } catch (err) {
+        failures.push(err instanceof Error ? err.message : `${file.name}: could not be indexed.`);
+      }
+    }
+    setIndexing(null);
+    setErrors(failures);
+    await refresh();
+  };
+
+  const toggleRole = (roles: (UserRole | 'General AI')[], role: UserRole | 'General AI') =>
+    roles.includes(role) ? roles.filter(r => r !== role) : [...roles, role];
+
+  const handleRoleToggle = async (document: KnowledgeDocument, role: UserRole | 'General AI') => {
+    const updated = await KnowledgeBaseService.updateRoles(userId, document.id, toggleRole(document.roles, role));
+    setDocuments(prev => prev.map(d => (d.id === updated.id ? updated : d)));
+  };
+
+  const handleDelete = async (document: KnowledgeDocument) => {
+    if (!window.confirm(`Remove ${document.name} from your knowledge base?`)) return;
+    await KnowledgeBaseService.deleteDocument(userId, document.id);
+    setDocuments(prev => prev.filter(d => d.id !== document.id));
+  };
+
+  const renderRoleChips = (selected: (UserRole | 'General AI')[], onToggle: (role: UserRole | 'General AI') => void) => (
+    <div className="flex flex-wrap gap-1">
+      {ROLES.map(role => (
+        <button
+          key={role}
+          onClick={() => onToggle(role)}
+          className={`px-2 py-0.5 rounded-full text-xs border transition-colors ${
+            selected.includes(role)
+              ? 'bg-blue-600 border-blue-600 text-white'
+              : 'border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'
+          }`}
+        >
+          {role}
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-gray-900 rounded-2xl shadow-2xl max-w-3xl w-full max-h-[85vh] flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-br from-blue-600 to-blue-800 rounded-xl">
+              <Library className="text-white" size={20} />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white">Knowledge Base</h2>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                SOPs, OEM manuals and P&IDs are indexed on this device and cited in answers
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+          >
+            <X className="text-gray-500" size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* Upload */}
+          <div className="bg-gray-50 dark:bg-gray-800 rounded-xl p-4 space-y-3">
+            <div>
+              <p className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+                Use new documents for {uploadRoles.length === 0 ? 'all roles' : 'these roles'}
+              </p>
+              {renderRoleChips(uploadRoles, role => setUploadRoles(prev => toggleRole(prev, role)))}
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept=".pdf,.txt,.md,.csv"
+              onChange={(e) => {
+                void handleFiles(Array.from(e.target.files || []));
+                e.target.value = '';
+              }}
+              className="hidden"
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={!!indexing}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {indexing ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />}
+              {indexing ? `Indexing ${indexing}...` : 'Add documents'}
+            </button>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              PDF or text, up to {KnowledgeBaseService.MAX_FILE_BYTES / 1024 / 1024} MB. Scanned PDFs need a text layer.
+            </p>
+          </div>
+
+          {!semanticSearch && (
+            <p className="flex items-start gap-2 p-3 rounded-lg border border-yellow-200 dark:border-yellow-800 bg-yellow-50 dark:bg-yellow-900/20 text-sm text-yellow-700 dark:text-yellow-300">
+              <AlertTriangle size={14} className="mt-0.5 flex-shrink-0" />
+              Semantic search is off: no embedding model is configured for the current model provider, so passages are matched by keyword only.
+            </p>
+          )}
+
+          {errors.length > 0 && (
+            <div className="p-3 rounded-lg border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300 space-y-1">
+              {errors.map(message => (
+                <p key={message} className="flex items-start gap-2">
+                  <AlertTriangle size={14} className="mt-0.5 flex-shrink-0" />
+                  {message}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {/* Documents */}
+          {documents.length === 0 ? (
+            <p className="text-center text-sm text-gray-500 dark:text-gray-400 py-8">
+              No documents yet. Added documents are searched for every question you ask.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {documents.map(document => (
+                <div key={document.id} className="border border-gray-200 dark:border-gray-700 rounded-xl p-4 space-y-3">
+                  <div className="flex items-start gap-3">
+                    <FileText className="text-red-500 flex-shrink-0 mt-0.5" size={18} />
+                    <div className="flex-1 min-w-0">
+                      <p className="font-semibold text-gray-900 dark:text-white truncate">{document.name}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {document.pageCount} page{document.pageCount === 1 ? '' : 's'} · {document.chunkCount} passages · {(document.size / 1024).toFixed(0)} KB ·{' '}
+                        {document.embeddingModel ? `semantic + keyword (${document.embeddingModel})` : 'keyword search'} · added {document.addedAt.toLocaleDateString()}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => void openKnowledgeDocument(userId, document.id)}
+                      className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+                      title="Open"
+                    >
+                      <ExternalLink className="text-gray-500" size={16} />
+                    </button>
+                    <button
+                      onClick={() => void handleDelete(document)}
+                      className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                      title="Remove"
+                    >
+                      <Trash2 className="text-red-500" size={16} />
+                    </button>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">
+                      Used for {document.roles.length === 0 ? 'all roles' : document.roles.join(', ')}
+                    </p>
+                    {renderRoleChips(document.roles, role => void handleRoleToggle(document, role))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,11 @@
 import React from 'react';
 import { Bot, Cog } from 'lucide-react';
 
-export const LoadingMessage: React.FC = () => {
+interface LoadingMessageProps {
+  status?: string; // Replaces the default progress text, e.g. while retrying
+}
+
+export const LoadingMessage: React.FC<LoadingMessageProps> = ({ status }) => {
   return (
     <div className="flex gap-4 mb-6">
       <div className="flex-shrink-0 w-10 h-10 rounded-full flex items-center justify-center 
@@ -20,7 +24,7 @@ export const LoadingMessage: React.FC = () => {
             </div>
             <div className="flex items-center gap-2">
               <Cog className="text-gray-600 dark:text-gray-400 animate-spin" size={16} />
-              <span className="text-sm text-gray-700 dark:text-gray-300 font-medium">FortAS AI is analyzing your query...</span>
+              <span className="text-sm text-gray-700 dark:text-gray-300 font-medium">{status ?? 'FortAS AI is analyzing your query...'}</span>
             </div>
           </div>
         </div>
@@ -0,0 +1,105 @@
+import React, { useRef, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import type { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
+import { Check, Copy } from 'lucide-react';
+import 'katex/dist/katex.min.css';
+
+interface MarkdownContentProps {
+  content: string;
+  inline?: boolean; // Render a single paragraph without its <p> wrapper (list items, card fields)
+}
+
+// The default schema drops every class except language-*; keep the ones
+// remark-math puts on formulas so KaTeX can tell inline from display math.
+// KaTeX runs after sanitising, so only its own generated markup is added.
+const SANITIZE_SCHEMA = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [...(defaultSchema.attributes?.code ?? []), ['className', /^language-./, 'math-inline', 'math-display']]
+  }
+};
+
+const REMARK_PLUGINS = [remarkGfm, remarkMath];
+const REHYPE_PLUGINS = [[rehypeSanitize, SANITIZE_SCHEMA], rehypeKatex] as React.ComponentProps<typeof ReactMarkdown>['rehypePlugins'];
+
+const CodeBlock: React.FC<React.HTMLAttributes<HTMLPreElement>> = ({ children }) => {
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(preRef.current?.innerText ?? '');
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.warn('Could not copy code block:', err);
+    }
+  };
+
+  return (
+    <div className="relative group my-3">
+      <pre ref={preRef} className="overflow-x-auto rounded-lg bg-gray-900 text-gray-100 text-xs p-4 pr-12 font-mono">
+        {children}
+      </pre>
+      <button
+        onClick={() => void handleCopy()}
+        className="absolute top-2 right-2 p-1.5 rounded-md bg-gray-700/80 text-gray-200 opacity-0 group-hover:opacity-100 focus:opacity-100 hover:bg-gray-600 transition-opacity"
+        title={copied ? 'Copied' : 'Copy code'}
+      >
+        {copied ? <Check size={14} /> : <Copy size={14} />}
+      </button>
+    </div>
+  );
+};
+
+const COMPONENTS: Components = {
+  h1: ({ children }) => <h3 className="text-lg font-bold mt-4 mb-2 text-gray-900 dark:text-white">{children}</h3>,
+  h2: ({ children }) => <h4 className="text-base font-bold mt-4 mb-2 text-gray-900 dark:text-white">{children}</h4>,
+  h3: ({ children }) => <h5 className="font-bold mt-3 mb-2 text-gray-900 dark:text-white">{children}</h5>,
+  h4: ({ children }) => <h6 className="font-semibold mt-3 mb-1 text-gray-900 dark:text-white">{children}</h6>,
+  p: ({ children }) => <p className="mb-2">{children}</p>,
+  ul: ({ children }) => <ul className="list-disc pl-6 mb-2 space-y-1">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal pl-6 mb-2 space-y-1">{children}</ol>,
+  blockquote: ({ children }) => (
+    <blockquote className="border-l-4 border-blue-200 dark:border-blue-800 pl-4 my-2 text-gray-600 dark:text-gray-400">{children}</blockquote>
+  ),
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">{children}</a>
+  ),
+  pre: ({ children }) => <CodeBlock>{children}</CodeBlock>,
+  code: ({ className, children }) => className
+    ? <code className={className}>{children}</code>
+    : <code className="px-1 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-xs font-mono">{children}</code>,
+  table: ({ children }) => (
+    <div className="overflow-x-auto my-3">
+      <table className="min-w-full text-xs border border-gray-200 dark:border-gray-700">{children}</table>
+    </div>
+  ),
+  thead: ({ children }) => <thead className="bg-gray-50 dark:bg-gray-900/40">{children}</thead>,
+  th: ({ children, style }) => (
+    <th style={style} className="px-3 py-2 border border-gray-200 dark:border-gray-700 font-semibold text-left">{children}</th>
+  ),
+  td: ({ children, style }) => (
+    <td style={style} className="px-3 py-2 border border-gray-200 dark:border-gray-700 align-top">{children}</td>
+  ),
+  hr: () => <hr className="my-4 border-gray-200 dark:border-gray-700" />
+};
+
+const INLINE_COMPONENTS: Components = { ...COMPONENTS, p: ({ children }) => <>{children}</> };
+
+// Model output rendered as GitHub-flavoured Markdown with KaTeX formulas.
+// Raw HTML is never rendered and the tree is sanitised before display.
+export const MarkdownContent: React.FC<MarkdownContentProps> = React.memo(({ content, inline = false }) => (
+  <ReactMarkdown
+    remarkPlugins={REMARK_PLUGINS}
+    rehypePlugins={REHYPE_PLUGINS}
+    components={inline ? INLINE_COMPONENTS : COMPONENTS}
+  >
+    {content}
+  </ReactMarkdown>
+));
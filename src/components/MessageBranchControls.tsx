@@ -0,0 +1,51 @@
+import React from 'react';
+import { ChevronLeft, ChevronRight, Pencil } from 'lucide-react';
+
+interface MessageBranchControlsProps {
+  messageId: string;
+  branchIds: string[]; // Every version of this question, oldest first
+  onSwitchBranch?: (messageId: string) => void;
+  onStartEdit?: () => void;
+}
+
+// Edit a question, and page between the branches earlier edits created
+export const MessageBranchControls: React.FC<MessageBranchControlsProps> = ({ messageId, branchIds, onSwitchBranch, onStartEdit }) => {
+  const index = branchIds.indexOf(messageId);
+  if (branchIds.length < 2 && !onStartEdit) return null;
+
+  const buttonClass = 'inline-flex items-center gap-1 text-gray-500 dark:text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 disabled:opacity-40 disabled:hover:text-gray-500';
+
+  return (
+    <div className="flex items-center justify-end gap-3 mt-1 text-xs">
+      {branchIds.length > 1 && (
+        <span className="inline-flex items-center gap-1">
+          <button
+            onClick={() => onSwitchBranch?.(branchIds[index - 1])}
+            disabled={!onSwitchBranch || index <= 0}
+            className={buttonClass}
+            title="Previous version"
+          >
+            <ChevronLeft size={14} />
+          </button>
+          <span className="font-semibold text-gray-600 dark:text-gray-300">
+            Version {index + 1} / {branchIds.length}
+          </span>
+          <button
+            onClick={() => onSwitchBranch?.(branchIds[index + 1])}
+            disabled={!onSwitchBranch || index === branchIds.length - 1}
+            className={buttonClass}
+            title="Next version"
+          >
+            <ChevronRight size={14} />
+          </button>
+        </span>
+      )}
+      {onStartEdit && (
+        <button onClick={onStartEdit} className={buttonClass}>
+          <Pencil size={12} />
+          Edit
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal, Save, RotateCcw } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { AuthService } from '../services/authService';
+import { ModelSettingsService } from '../services/modelSettingsService';
+import type { GenerationSettings, UserRole } from '../types';
+
+const ROLES: (UserRole | 'General AI')[] = [
+  'Operations',
+  'Project Management',
+  'Sales & Marketing',
+  'Procurement',
+  'Erection & Commissioning',
+  'Engineering & Design',
+  'General AI'
+];
+
+const NUMERIC_FIELDS: { key: Exclude<keyof GenerationSettings, 'model'>; label: string; step: number }[] = [
+  { key: 'temperature', label: 'Temperature', step: 0.1 },
+  { key: 'topP', label: 'Top P', step: 0.05 },
+  { key: 'topK', label: 'Top K', step: 1 },
+  { key: 'maxOutputTokens', label: 'Max output tokens', step: 256 }
+];
+
+// Per-user model setting overrides. Blank fields fall back to the defaults of
+// whichever role is selected in the chat; everything is clamped to the tier caps.
+export const ModelSettingsPanel: React.FC = () => {
+  const { user, updateProfile, isLoading } = useAuth();
+  const [previewRole, setPreviewRole] = useState<UserRole | 'General AI'>(user?.preferredRole || 'Operations');
+  const [draft, setDraft] = useState<Partial<GenerationSettings>>(user?.settings?.generation ?? {});
+  const [saved, setSaved] = useState(false);
+
+  if (!user) return null;
+
+  const tier = user.membershipType;
+  const caps = ModelSettingsService.getCaps(tier);
+  const defaults = ModelSettingsService.getRoleDefaults(previewRole);
+  const applied = ModelSettingsService.resolve(previewRole, tier, draft);
+
+  const setField = (key: keyof GenerationSettings, raw: string) => {
+    setSaved(false);
+    setDraft(prev => {
+      const next = { ...prev };
+      if (raw.trim() === '') {
+        delete next[key];
+      } else if (key === 'model') {
+        next.model = raw;
+      } else if (Number.isFinite(Number(raw))) {
+        next[key] = Number(raw);
+      }
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    const success = await updateProfile({
+      settings: { ...AuthService.DEFAULT_SETTINGS, ...user.settings, generation: draft }
+    });
+    setSaved(success);
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100 dark:disabled:bg-gray-800 dark:bg-gray-800 dark:text-white';
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-800 rounded-xl p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+          <SlidersHorizontal size={16} />
+          Model Settings
+        </h4>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {tier} caps: temperature ≤ {caps.maxTemperature}, ≤ {caps.maxOutputTokens} tokens
+        </span>
+      </div>
+
+      <div>
+        <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+          Preview defaults for
+        </label>
+        <select
+          value={previewRole}
+          onChange={(e) => setPreviewRole(e.target.value as UserRole | 'General AI')}
+          className={inputClass}
+        >
+          {ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {NUMERIC_FIELDS.map(field => (
+          <div key={field.key}>
+            <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+              {field.label}
+            </label>
+            <input
+              type="number"
+              step={field.step}
+              value={draft[field.key] ?? ''}
+              placeholder={`Default ${defaults[field.key]}`}
+              onChange={(e) => setField(field.key, e.target.value)}
+              disabled={!caps.allowOverrides}
+              className={inputClass}
+            />
+          </div>
+        ))}
+        <div className="md:col-span-2">
+          <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+            Model {!caps.allowModelOverride && <span className="font-normal text-gray-500">(Premium only)</span>}
+          </label>
+          <input
+            type="text"
+            value={draft.model ?? ''}
+            placeholder={`Default ${defaults.model}`}
+            onChange={(e) => setField('model', e.target.value)}
+            disabled={!caps.allowModelOverride}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Applied for {previewRole}: {applied.model} · temperature {applied.temperature} · top P {applied.topP} · top K {applied.topK} · {applied.maxOutputTokens} tokens
+        {applied.capped && <span className="text-yellow-600 dark:text-yellow-400"> · capped: {applied.capped.join(', ')}</span>}
+      </p>
+
+      <div className="flex gap-3">
+        <button
+          onClick={() => { setDraft({}); setSaved(false); }}
+          className="flex items-center gap-2 px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+        >
+          <RotateCcw size={16} />
+          Use defaults
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={isLoading || !caps.allowOverrides}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          <Save size={16} />
+          {saved ? 'Saved' : 'Save'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,227 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FileText, Loader2, Search, X } from 'lucide-react';
+import type { FileUpload, PdfPageSelection } from '../types';
+import type { DocumentPage } from '../utils/documentText';
+import { renderPdfPages } from '../utils/documentText';
+import { extractPdfText, formatPageRanges, parsePageRanges } from '../utils/pdfPages';
+
+interface PdfPagePickerProps {
+  file: FileUpload;
+  onSave: (selection: PdfPageSelection) => void;
+  onClose: () => void;
+}
+
+const THUMBNAIL_WIDTH = 120;
+
+// Page thumbnails of an attached PDF, where the user picks the pages answers
+// may draw on. Long selections are narrowed further to the passages that
+// match each question when it is sent.
+export const PdfPagePicker: React.FC<PdfPagePickerProps> = ({ file, onSave, onClose }) => {
+  const [pages, setPages] = useState<DocumentPage[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set(file.pdf?.pages));
+  const [thumbnails, setThumbnails] = useState<Record<number, string>>({});
+  const [rangeInput, setRangeInput] = useState('');
+  const [query, setQuery] = useState('');
+  const [lastClicked, setLastClicked] = useState<number | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    extractPdfText(file)
+      .then(extracted => {
+        if (controller.signal.aborted) return;
+        setPages(extracted);
+        if (!file.pdf) setSelected(new Set(extracted.map(p => p.page)));
+        // Thumbnails fill in one by one; text is enough to start picking
+        return renderPdfPages(
+          file,
+          extracted.map(p => p.page),
+          THUMBNAIL_WIDTH,
+          (page, dataUrl) => setThumbnails(prev => ({ ...prev, [page]: dataUrl })),
+          controller.signal
+        );
+      })
+      .catch(err => {
+        if (!controller.signal.aborted) setLoadError(err instanceof Error ? err.message : 'Could not read the PDF.');
+      });
+    return () => controller.abort();
+  }, [file]);
+
+  const sortedSelection = useMemo(() => [...selected].sort((a, b) => a - b), [selected]);
+
+  useEffect(() => {
+    setRangeInput(formatPageRanges(sortedSelection));
+  }, [sortedSelection]);
+
+  const matches = useMemo(() => {
+    const term = query.trim().toLowerCase();
+    if (!term || !pages) return null;
+    return new Set(pages.filter(p => p.text.toLowerCase().includes(term)).map(p => p.page));
+  }, [pages, query]);
+
+  // Click toggles a page; shift-click applies the same to the whole run since the last click
+  const togglePage = (page: number, extend: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      const select = !prev.has(page);
+      const from = extend && lastClicked !== null ? Math.min(lastClicked, page) : page;
+      const to = extend && lastClicked !== null ? Math.max(lastClicked, page) : page;
+      for (let p = from; p <= to; p++) {
+        if (select) next.add(p);
+        else next.delete(p);
+      }
+      return next;
+    });
+    setLastClicked(page);
+  };
+
+  const applyRangeInput = () => {
+    if (pages) setSelected(new Set(parsePageRanges(rangeInput, pages.length)));
+  };
+
+  const selectedChars = pages
+    ? pages.filter(p => selected.has(p.page)).reduce((total, p) => total + p.text.length, 0)
+    : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-gray-900 rounded-2xl shadow-2xl max-w-5xl w-full h-[85vh] flex flex-col overflow-hidden text-left">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="p-2 bg-gradient-to-br from-blue-600 to-blue-800 rounded-xl">
+              <FileText className="text-white" size={20} />
+            </div>
+            <div className="min-w-0">
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white">Choose Pages</h2>
+              <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                {file.name}: only the pages you pick are read. Shift-click to select a run of pages.
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+          >
+            <X className="text-gray-500" size={20} />
+          </button>
+        </div>
+
+        {loadError ? (
+          <div className="m-6 p-3 rounded-lg border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+            {loadError}
+          </div>
+        ) : !pages ? (
+          <div className="flex-1 flex items-center justify-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+            <Loader2 size={16} className="animate-spin" />
+            Reading PDF...
+          </div>
+        ) : (
+          <>
+            {/* Search and bulk selection */}
+            <div className="flex flex-wrap items-center gap-3 p-4 border-b border-gray-200 dark:border-gray-700 text-sm">
+              <div className="relative flex-1 min-w-48">
+                <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+                <input
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  placeholder="Find pages mentioning..."
+                  className="w-full pl-8 pr-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-800 dark:text-white"
+                />
+              </div>
+              {matches && (
+                <button
+                  onClick={() => setSelected(new Set(matches))}
+                  disabled={matches.size === 0}
+                  className="px-3 py-1.5 rounded-lg bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 hover:bg-blue-100 dark:hover:bg-blue-900/50 disabled:opacity-50"
+                >
+                  Select {matches.size} matching page{matches.size === 1 ? '' : 's'}
+                </button>
+              )}
+              <button
+                onClick={() => setSelected(new Set(pages.map(p => p.page)))}
+                className="px-3 py-1.5 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"
+              >
+                All
+              </button>
+              <button
+                onClick={() => setSelected(new Set())}
+                className="px-3 py-1.5 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800"
+              >
+                None
+              </button>
+            </div>
+
+            {/* Thumbnails */}
+            <div className="flex-1 overflow-y-auto p-4 grid grid-cols-3 sm:grid-cols-5 lg:grid-cols-7 gap-3 content-start">
+              {pages.map(({ page, text }) => {
+                const isSelected = selected.has(page);
+                return (
+                  <button
+                    key={page}
+                    onClick={(e) => togglePage(page, e.shiftKey)}
+                    className={`relative flex flex-col items-center gap-1 p-1.5 rounded-lg border-2 transition-colors ${
+                      isSelected
+                        ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30'
+                        : 'border-transparent hover:border-gray-300 dark:hover:border-gray-600'
+                    } ${matches?.has(page) ? 'ring-2 ring-yellow-400' : ''}`}
+                  >
+                    {thumbnails[page] ? (
+                      <img src={thumbnails[page]} alt={`Page ${page}`} className={`w-full shadow ${isSelected ? '' : 'opacity-60'}`} />
+                    ) : (
+                      <div className="w-full aspect-[3/4] bg-gray-100 dark:bg-gray-800 rounded" />
+                    )}
+                    <span className="text-xs text-gray-600 dark:text-gray-300">
+                      {page}{!text.trim() && <span className="ml-1 text-gray-400">(scan)</span>}
+                    </span>
+                    <input
+                      type="checkbox"
+                      checked={isSelected}
+                      readOnly
+                      tabIndex={-1}
+                      className="absolute top-2 right-2 rounded border-gray-300 pointer-events-none"
+                    />
+                  </button>
+                );
+              })}
+            </div>
+          </>
+        )}
+
+        {/* Footer */}
+        {pages && (
+          <div className="flex flex-wrap items-center gap-3 p-4 border-t border-gray-200 dark:border-gray-700 text-sm">
+            <span className="font-semibold text-gray-700 dark:text-gray-300">Pages</span>
+            <input
+              value={rangeInput}
+              onChange={(e) => setRangeInput(e.target.value)}
+              onBlur={applyRangeInput}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') applyRangeInput();
+              }}
+              placeholder="e.g. 1-5, 12, 110-115"
+              className="w-56 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-800 dark:text-white"
+            />
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              {selected.size} of {pages.length} pages, {Math.round(selectedChars / 1000)}k characters of text
+            </span>
+            <div className="flex-1" />
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onSave({ pageCount: pages.length, pages: sortedSelection })}
+              disabled={selected.size === 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              Use these pages
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
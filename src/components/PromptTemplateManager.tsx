@@ -0,0 +1,265 @@
+import React, { useMemo, useState } from 'react';
+import { FileCode, X, Save, RotateCcw, GitCompare, Eye, Pencil, AlertTriangle } from 'lucide-react';
+import { PromptTemplateService } from '../services/promptTemplateService';
+import { PROMPT_VARIABLES, diffLines } from '../utils/promptTemplates';
+import type { PromptTemplate } from '../types';
+
+interface PromptTemplateManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  author: string;
+}
+
+type Tab = 'view' | 'edit' | 'diff';
+
+export const PromptTemplateManager: React.FC<PromptTemplateManagerProps> = ({ isOpen, onClose, author }) => {
+  const [templates, setTemplates] = useState<PromptTemplate[]>(() => PromptTemplateService.getTemplates());
+  const [selectedId, setSelectedId] = useState(templates[0]?.id ?? '');
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [compareVersion, setCompareVersion] = useState<number | null>(null);
+  const [activeTab, setActiveTab] = useState<Tab>('view');
+  const [draft, setDraft] = useState('');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const template = templates.find(t => t.id === selectedId);
+  const live = template ? PromptTemplateService.getLiveVersion(template) : undefined;
+  const shown = template?.versions.find(v => v.version === selectedVersion) ?? live;
+  const compared = template?.versions.find(v => v.version === compareVersion)
+    ?? template?.versions[template.versions.length - 2];
+
+  const diff = useMemo(
+    () => (compared && shown ? diffLines(compared.body, shown.body) : []),
+    [compared, shown]
+  );
+
+  if (!isOpen) return null;
+
+  const selectTemplate = (id: string) => {
+    setSelectedId(id);
+    setSelectedVersion(null);
+    setCompareVersion(null);
+    setActiveTab('view');
+    setError(null);
+  };
+
+  const startEditing = () => {
+    setDraft(shown?.body ?? '');
+    setNote('');
+    setError(null);
+    setActiveTab('edit');
+  };
+
+  // Apply a registry change and refresh the list, surfacing validation errors
+  const publish = (change: () => PromptTemplate) => {
+    try {
+      const updated = change();
+      setTemplates(PromptTemplateService.getTemplates());
+      setSelectedVersion(PromptTemplateService.getLiveVersion(updated).version);
+      setCompareVersion(null);
+      setActiveTab('view');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save the template.');
+    }
+  };
+
+  const groups: { title: string; kind: PromptTemplate['kind'] }[] = [
+    { title: 'Personas', kind: 'persona' },
+    { title: 'Shared fragments', kind: 'fragment' }
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-gray-900 rounded-2xl shadow-2xl max-w-5xl w-full h-[85vh] flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-br from-blue-600 to-blue-800 rounded-xl">
+              <FileCode className="text-white" size={20} />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white">Prompt Templates</h2>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Variables: {PROMPT_VARIABLES.map(name => `{{${name}}}`).join(' ')} · Fragments: {'{{> fragment/id}}'}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+          >
+            <X className="text-gray-500" size={20} />
+          </button>
+        </div>
+
+        <p className="flex items-start gap-2 px-6 py-3 border-b border-yellow-200 dark:border-yellow-800 bg-yellow-50 dark:bg-yellow-900/20 text-xs text-yellow-700 dark:text-yellow-300">
+          <AlertTriangle size={14} className="mt-0.5 flex-shrink-0" />
+          Edits and rollbacks are saved in this browser only and change the prompts used on this device. Other users and devices keep the built-in templates.
+        </p>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Template list */}
+          <div className="w-64 border-r border-gray-200 dark:border-gray-700 overflow-y-auto p-3 space-y-4">
+            {groups.map(group => (
+              <div key={group.kind}>
+                <h4 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide mb-2 px-2">
+                  {group.title}
+                </h4>
+                {templates.filter(t => t.kind === group.kind).map(t => (
+                  <button
+                    key={t.id}
+                    onClick={() => selectTemplate(t.id)}
+                    className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${
+                      t.id === selectedId
+                        ? 'bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 font-semibold'
+                        : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'
+                    }`}
+                  >
+                    <span className="block truncate">{t.name}</span>
+                    <span className="block text-xs text-gray-400">
+                      v{PromptTemplateService.getLiveVersion(t).version}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          {/* Template detail */}
+          {template && live && shown && (
+            <div className="flex-1 flex flex-col min-w-0">
+              <div className="p-4 border-b border-gray-200 dark:border-gray-700 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <h3 className="font-bold text-gray-900 dark:text-white truncate">{template.name}</h3>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 font-mono">{template.id}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{template.description}</p>
+                  </div>
+                  <select
+                    value={shown.version}
+                    onChange={(e) => setSelectedVersion(Number(e.target.value))}
+                    className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                  >
+                    {[...template.versions].reverse().map(v => (
+                      <option key={v.version} value={v.version}>
+                        v{v.version}{v.version === live.version ? ' (live)' : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  v{shown.version} by {shown.author} on {shown.createdAt.toLocaleString()}
+                  {shown.note && <> · {shown.note}</>}
+                </p>
+
+                <div className="flex items-center gap-2">
+                  {([
+                    { id: 'view', label: 'View', icon: Eye },
+                    { id: 'edit', label: 'Edit', icon: Pencil },
+                    { id: 'diff', label: 'Diff', icon: GitCompare }
+                  ] as const).map(tab => (
+                    <button
+                      key={tab.id}
+                      onClick={() => (tab.id === 'edit' ? startEditing() : setActiveTab(tab.id))}
+                      disabled={tab.id === 'diff' && template.versions.length < 2}
+                      className={`flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-semibold transition-colors disabled:opacity-40 ${
+                        activeTab === tab.id
+                          ? 'bg-blue-600 text-white'
+                          : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+                      }`}
+                    >
+                      <tab.icon size={14} />
+                      {tab.label}
+                    </button>
+                  ))}
+                  {shown.version !== live.version && (
+                    <button
+                      onClick={() => publish(() => PromptTemplateService.rollback(template.id, shown.version, author))}
+                      className="ml-auto flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm font-semibold bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-200 hover:bg-yellow-200 dark:hover:bg-yellow-900/50 transition-colors"
+                    >
+                      <RotateCcw size={14} />
+                      Roll back to v{shown.version}
+                    </button>
+                  )}
+                </div>
+
+                {error && (
+                  <div className="flex items-center gap-2 text-sm text-red-600 dark:text-red-400">
+                    <AlertTriangle size={14} />
+                    {error}
+                  </div>
+                )}
+              </div>
+
+              <div className="flex-1 overflow-y-auto p-4">
+                {activeTab === 'view' && (
+                  <pre className="text-sm font-mono whitespace-pre-wrap text-gray-800 dark:text-gray-200">{shown.body}</pre>
+                )}
+
+                {activeTab === 'edit' && (
+                  <div className="flex flex-col h-full gap-3">
+                    <textarea
+                      value={draft}
+                      onChange={(e) => setDraft(e.target.value)}
+                      className="flex-1 min-h-[240px] w-full p-3 text-sm font-mono border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <div className="flex gap-3">
+                      <input
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                        placeholder="What changed? (optional)"
+                        className="flex-1 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                      />
+                      <button
+                        onClick={() => publish(() => PromptTemplateService.saveVersion(template.id, draft, author, note))}
+                        className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg font-semibold hover:bg-blue-700 transition-colors"
+                      >
+                        <Save size={16} />
+                        Save v{live.version + 1} on this device
+                      </button>
+                    </div>
+                  </div>
+                )}
+
+                {activeTab === 'diff' && compared && (
+                  <div className="space-y-3">
+                    <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+                      Comparing v{shown.version} against
+                      <select
+                        value={compared.version}
+                        onChange={(e) => setCompareVersion(Number(e.target.value))}
+                        className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                      >
+                        {template.versions.filter(v => v.version !== shown.version).map(v => (
+                          <option key={v.version} value={v.version}>v{v.version}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="font-mono text-sm rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+                      {diff.map((line, index) => (
+                        <div
+                          key={index}
+                          className={`px-3 whitespace-pre-wrap ${
+                            line.type === 'added'
+                              ? 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-300'
+                              : line.type === 'removed'
+                                ? 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-300'
+                                : 'text-gray-700 dark:text-gray-300'
+                          }`}
+                        >
+                          {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text || ' '}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,11 +1,14 @@
 import React from 'react';
-import { Factory, BarChart3, TrendingUp, ShoppingCart, Wrench, Settings, Bot } from 'lucide-react';
+import { Factory, BarChart3, TrendingUp, ShoppingCart, Wrench, Settings, Bot, Users, Check } from 'lucide-react';
 import type { UserRole } from '../types';
 import { useAuth } from '../contexts/AuthContext';
+import { MAX_PANEL_ROLES } from '../utils/gemini';
 
 interface RoleSelectorProps {
   selectedRole: UserRole | 'General AI';
   onRoleChange: (role: UserRole | 'General AI') => void;
+  panelRoles?: UserRole[]; // Expert panel mode when not empty
+  onPanelRolesChange?: (roles: UserRole[]) => void;
 }
 
 const roles: { 
@@ -68,13 +71,86 @@ const roles: {
   },
 ];
 
-export const RoleSelector: React.FC<RoleSelectorProps> = ({ selectedRole, onRoleChange }) => {
+export const RoleSelector: React.FC<RoleSelectorProps> = ({ selectedRole, onRoleChange, panelRoles = [], onPanelRolesChange }) => {
   const { user, isAuthenticated } = useAuth();
   
   const isPremium = user?.membershipType === 'Premium';
+  const isPanel = panelRoles.length > 0;
+
+  // Panel mode starts from the current expert; General AI has no discipline to add
+  const togglePanelMode = () => {
+    if (!onPanelRolesChange) return;
+    onPanelRolesChange(isPanel ? [] : [selectedRole === 'General AI' ? 'Operations' : selectedRole]);
+  };
+
+  // Keep at least one expert on the panel
+  const togglePanelRole = (role: UserRole) => {
+    if (!onPanelRolesChange) return;
+    if (panelRoles.includes(role)) {
+      if (panelRoles.length > 1) onPanelRolesChange(panelRoles.filter(r => r !== role));
+    } else if (panelRoles.length < MAX_PANEL_ROLES) {
+      onPanelRolesChange([...panelRoles, role]);
+    }
+  };
+
+  if (isPanel) {
+    return (
+      <div className="space-y-2">
+        <button
+          onClick={togglePanelMode}
+          className="w-full flex items-center justify-between gap-2 px-3 py-2 rounded-lg border border-blue-500 bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300 text-xs font-semibold"
+        >
+          <span className="flex items-center gap-2">
+            <Users size={16} />
+            Expert panel · {panelRoles.length} of {MAX_PANEL_ROLES}
+          </span>
+          <span className="font-normal underline">Single expert</span>
+        </button>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {panelRoles.length < 2
+            ? 'Pick at least one more expert to compare answers.'
+            : 'Each expert answers separately, then a consolidated recommendation highlights where they disagree.'}
+        </p>
+        {roles
+          .filter((role): role is typeof role & { value: UserRole } => role.value !== 'General AI')
+          .map((role) => {
+            const selected = panelRoles.includes(role.value);
+            return (
+              <button
+                key={role.value}
+                onClick={() => togglePanelRole(role.value)}
+                disabled={!selected && panelRoles.length >= MAX_PANEL_ROLES}
+                className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg transition-all duration-300 border disabled:opacity-50 disabled:cursor-not-allowed ${
+                  selected
+                    ? `${role.color} shadow-md`
+                    : 'border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                }`}
+              >
+                <div className={`p-1 rounded ${selected ? 'bg-white/20' : 'bg-gray-200 dark:bg-gray-700'} flex-shrink-0`}>
+                  {role.icon}
+                </div>
+                <div className={`text-left flex-1 min-w-0 font-semibold text-xs truncate ${selected ? '' : 'text-gray-900 dark:text-white'}`}>
+                  {role.label}
+                </div>
+                {selected && <Check size={14} className="flex-shrink-0" />}
+              </button>
+            );
+          })}
+      </div>
+    );
+  }
 
   return (
     <div className="space-y-2">
+      {onPanelRolesChange && (
+        <button
+          onClick={togglePanelMode}
+          className="w-full flex items-center gap-2 px-3 py-2 rounded-lg border border-dashed border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 text-xs font-semibold transition-colors"
+        >
+          <Users size={16} />
+          Consult an expert panel
+        </button>
+      )}
       {roles
         .filter(role => {
           if (role.requiresAuth && !isAuthenticated) return false;
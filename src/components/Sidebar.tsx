@@ -1,9 +1,15 @@
 import React, { useState } from 'react';
-import { Factory, User, LogOut, X, Plus, MessageSquare, Zap } from 'lucide-react';
+import { Factory, User, LogOut, X, Plus, MessageSquare, Zap, FileCode, Library, FolderOpen } from 'lucide-react';
 import { RoleSelector } from './RoleSelector';
 import { ChatHistoryList } from './ChatHistoryList';
+import { PromptTemplateManager } from './PromptTemplateManager';
+import { KnowledgeBasePanel } from './KnowledgeBasePanel';
+import { FileLibraryPanel } from './FileLibraryPanel';
+import { UsageMeters } from './UsageMeters';
+import { AuthService } from '../services/authService';
 import { useAuth } from '../contexts/AuthContext';
 import { useChatHistory } from '../contexts/ChatHistoryContext';
+import { useUsage } from '../contexts/UsageContext';
 import type { UserRole, ChatHistory } from '../types';
 
 interface SidebarProps {
@@ -11,6 +17,8 @@ interface SidebarProps {
   onClose: () => void;
   selectedRole: UserRole | 'General AI';
   onRoleChange: (role: UserRole | 'General AI') => void;
+  panelRoles: UserRole[];
+  onPanelRolesChange: (roles: UserRole[]) => void;
   onLoadChat: (history: ChatHistory) => void;
   onNewChat: () => void;
   messageCount: number;
@@ -22,14 +30,22 @@ export const Sidebar: React.FC<SidebarProps> = ({
   onClose,
   selectedRole,
   onRoleChange,
+  panelRoles,
+  onPanelRolesChange,
   onLoadChat,
   onNewChat,
   messageCount,
   isLoading
 }) => {
   const { user, isAuthenticated, logout } = useAuth();
-  const { histories } = useChatHistory();
+  const { histories, currentChatId, renameChat } = useChatHistory();
   const [showLogoutConfirm, setShowLogoutConfirm] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [showKnowledgeBase, setShowKnowledgeBase] = useState(false);
+  const [showFiles, setShowFiles] = useState(false);
+  const { status } = useUsage();
+  const isAdmin = AuthService.isAdmin(user);
+  const isPremium = isAuthenticated && user?.membershipType === 'Premium';
 
   const handleLogout = () => {
     logout();
@@ -136,6 +152,8 @@ export const Sidebar: React.FC<SidebarProps> = ({
               <RoleSelector 
                 selectedRole={selectedRole}
                 onRoleChange={onRoleChange}
+                panelRoles={panelRoles}
+                onPanelRolesChange={onPanelRolesChange}
               />
             </div>
           </div>
@@ -151,6 +169,40 @@ export const Sidebar: React.FC<SidebarProps> = ({
               New Chat
             </button>
 
+            {/* Knowledge base (premium) */}
+            {isPremium && (
+              <button
+                onClick={() => setShowKnowledgeBase(true)}
+                className="w-full flex items-center gap-2 px-4 py-3 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-xl transition-colors font-semibold"
+              >
+                <Library size={16} />
+                Knowledge Base
+              </button>
+            )}
+
+            {/* File library; shown on every plan so files kept after a downgrade can still be opened or cleared */}
+            {isAuthenticated && (
+              <button
+                onClick={() => setShowFiles(true)}
+                className="w-full flex items-center gap-2 px-4 py-3 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-xl transition-colors font-semibold"
+              >
+                <FolderOpen size={16} />
+                My Files
+              </button>
+            )}
+
+            {/* Admin tools */}
+            {isAdmin && (
+              <button
+                onClick={() => setShowTemplates(true)}
+                title="Override the prompt templates used in this browser"
+                className="w-full flex items-center gap-2 px-4 py-3 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-xl transition-colors font-semibold"
+              >
+                <FileCode size={16} />
+                Prompt Templates
+              </button>
+            )}
+
             {/* Chat History */}
             {isAuthenticated && (
               <div>
@@ -160,6 +212,8 @@ export const Sidebar: React.FC<SidebarProps> = ({
                 <ChatHistoryList 
                   history={histories}
                   onSelect={(history) => onLoadChat(history)}
+                  onRename={renameChat}
+                  currentChatId={currentChatId}
                 />
               </div>
             )}
@@ -187,6 +241,8 @@ export const Sidebar: React.FC<SidebarProps> = ({
                   {isLoading ? 'Processing...' : 'Ready'}
                 </p>
               </div>
+
+              <UsageMeters compact />
             </div>
 
             {/* Guest Mode Notice */}
@@ -216,6 +272,32 @@ export const Sidebar: React.FC<SidebarProps> = ({
         </div>
       </div>
 
+      {/* Prompt Template Manager (admins only) */}
+      {isAdmin && user && (
+        <PromptTemplateManager
+          isOpen={showTemplates}
+          onClose={() => setShowTemplates(false)}
+          author={user.email}
+        />
+      )}
+
+      {isPremium && user && (
+        <KnowledgeBasePanel
+          isOpen={showKnowledgeBase}
+          onClose={() => setShowKnowledgeBase(false)}
+          userId={user.id}
+        />
+      )}
+
+      {isAuthenticated && user && (
+        <FileLibraryPanel
+          isOpen={showFiles}
+          onClose={() => setShowFiles(false)}
+          userId={user.id}
+          tier={status.tier}
+        />
+      )}
+
       {/* Logout Confirmation Modal */}
       {showLogoutConfirm && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
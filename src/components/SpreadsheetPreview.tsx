@@ -0,0 +1,293 @@
+import React, { useEffect, useState } from 'react';
+import { FileSpreadsheet, Loader2, X } from 'lucide-react';
+import type { FileUpload, SpreadsheetOptions, SpreadsheetSampling, SpreadsheetSheetOptions } from '../types';
+import {
+  DEFAULT_SAMPLE_SIZE,
+  defaultSpreadsheetOptions,
+  formatCell,
+  parseSpreadsheet,
+  sampleRows
+} from '../utils/spreadsheet';
+import type { ColumnType, SpreadsheetSheet } from '../utils/spreadsheet';
+
+interface SpreadsheetPreviewProps {
+  file: FileUpload;
+  onSave: (options: SpreadsheetOptions) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 20;
+
+const SAMPLING_OPTIONS: { value: SpreadsheetSampling; label: string }[] = [
+  { value: 'all', label: 'All rows' },
+  { value: 'head', label: 'First rows' },
+  { value: 'even', label: 'Rows spread evenly' },
+  { value: 'summary', label: 'Column statistics only' }
+];
+
+const TYPE_BADGES: Record<ColumnType, string> = {
+  number: '123',
+  date: 'date',
+  boolean: 'y/n',
+  text: 'abc',
+  empty: '–'
+};
+
+// Preview grid for an attached spreadsheet, where the user picks the sheets,
+// column ranges and row sampling sent to the model
+export const SpreadsheetPreview: React.FC<SpreadsheetPreviewProps> = ({ file, onSave, onClose }) => {
+  const [sheets, setSheets] = useState<SpreadsheetSheet[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [options, setOptions] = useState<SpreadsheetOptions | null>(file.spreadsheet ?? null);
+  const [activeSheet, setActiveSheet] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    parseSpreadsheet(file)
+      .then(parsed => {
+        if (cancelled) return;
+        const initial = file.spreadsheet ?? defaultSpreadsheetOptions(parsed);
+        setSheets(parsed);
+        setOptions(initial);
+        setActiveSheet(initial.sheets[0]?.name ?? parsed[0]?.name ?? null);
+      })
+      .catch(err => {
+        if (!cancelled) setLoadError(err instanceof Error ? err.message : 'Could not read the spreadsheet.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  const sheet = sheets?.find(s => s.name === activeSheet);
+  const selection = options?.sheets.find(s => s.name === activeSheet);
+
+  const toggleSheet = (target: SpreadsheetSheet) => {
+    setOptions(prev => prev && {
+      ...prev,
+      sheets: prev.sheets.some(s => s.name === target.name)
+        ? prev.sheets.filter(s => s.name !== target.name)
+        : [...prev.sheets, { name: target.name, firstColumn: 0, lastColumn: Math.max(0, target.columns.length - 1) }]
+    });
+    setActiveSheet(target.name);
+  };
+
+  const setColumns = (changes: Partial<SpreadsheetSheetOptions>) => {
+    setOptions(prev => prev && {
+      ...prev,
+      sheets: prev.sheets.map(s => {
+        if (s.name !== activeSheet) return s;
+        const next = { ...s, ...changes };
+        // Keep the range the right way round
+        return next.firstColumn > next.lastColumn
+          ? { ...next, firstColumn: next.lastColumn, lastColumn: next.firstColumn }
+          : next;
+      })
+    });
+  };
+
+  // Rows and columns that will actually be sent
+  const sentRows = options && sheets
+    ? options.sheets.reduce((total, choice) => {
+        const rows = sheets.find(s => s.name === choice.name)?.rows.length ?? 0;
+        return total + sampleRows(rows, options.sampling, options.sampleSize).length;
+      }, 0)
+    : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-gray-900 rounded-2xl shadow-2xl max-w-5xl w-full h-[85vh] flex flex-col overflow-hidden text-left">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="p-2 bg-gradient-to-br from-blue-600 to-blue-800 rounded-xl">
+              <FileSpreadsheet className="text-white" size={20} />
+            </div>
+            <div className="min-w-0">
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white">Spreadsheet Preview</h2>
+              <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                {file.name}: choose what the model reads. Statistics always cover every row.
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+          >
+            <X className="text-gray-500" size={20} />
+          </button>
+        </div>
+
+        {loadError ? (
+          <div className="m-6 p-3 rounded-lg border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+            {loadError}
+          </div>
+        ) : !sheets || !options ? (
+          <div className="flex-1 flex items-center justify-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+            <Loader2 size={16} className="animate-spin" />
+            Reading spreadsheet...
+          </div>
+        ) : (
+          <div className="flex-1 flex min-h-0">
+            {/* Sheets */}
+            <div className="w-56 flex-shrink-0 border-r border-gray-200 dark:border-gray-700 p-4 space-y-1 overflow-y-auto">
+              <p className="text-xs font-semibold uppercase text-gray-500 dark:text-gray-400 mb-2">Sheets</p>
+              {sheets.map(s => (
+                <div
+                  key={s.name}
+                  className={`flex items-start gap-2 p-2 rounded-lg ${
+                    s.name === activeSheet ? 'bg-blue-50 dark:bg-blue-900/30' : 'hover:bg-gray-50 dark:hover:bg-gray-800'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={options.sheets.some(choice => choice.name === s.name)}
+                    onChange={() => toggleSheet(s)}
+                    className="mt-0.5 rounded border-gray-300"
+                  />
+                  <button onClick={() => setActiveSheet(s.name)} className="text-left min-w-0">
+                    <p className="text-sm font-medium text-gray-800 dark:text-gray-200 truncate">{s.name}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {s.rows.length} rows × {s.columns.length} cols
+                    </p>
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex-1 flex flex-col min-w-0">
+              {/* Column range */}
+              {sheet && (
+                <div className="flex flex-wrap items-center gap-3 p-4 border-b border-gray-200 dark:border-gray-700 text-sm">
+                  <span className="font-semibold text-gray-700 dark:text-gray-300">Columns</span>
+                  {selection ? (
+                    <>
+                      {(['firstColumn', 'lastColumn'] as const).map((key, i) => (
+                        <React.Fragment key={key}>
+                          {i === 1 && <span className="text-gray-500">to</span>}
+                          <select
+                            value={selection[key]}
+                            onChange={(e) => setColumns({ [key]: Number(e.target.value) })}
+                            className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-800 dark:text-white max-w-48"
+                          >
+                            {sheet.columns.map((column, index) => (
+                              <option key={column.letter} value={index}>
+                                {column.letter}{column.name !== column.letter ? ` · ${column.name}` : ''}
+                              </option>
+                            ))}
+                          </select>
+                        </React.Fragment>
+                      ))}
+                    </>
+                  ) : (
+                    <span className="text-gray-500 dark:text-gray-400">Tick the sheet to include it</span>
+                  )}
+                </div>
+              )}
+
+              {/* Grid */}
+              <div className="flex-1 overflow-auto">
+                {sheet && sheet.columns.length > 0 ? (
+                  <table className="min-w-full text-xs">
+                    <thead className="sticky top-0 bg-gray-50 dark:bg-gray-800">
+                      <tr>
+                        <th className="px-2 py-2 border-b border-gray-200 dark:border-gray-700 text-gray-400 font-normal">#</th>
+                        {sheet.columns.map((column, index) => {
+                          const included = !!selection && index >= selection.firstColumn && index <= selection.lastColumn;
+                          return (
+                            <th
+                              key={column.letter}
+                              className={`px-3 py-2 border-b border-gray-200 dark:border-gray-700 text-left whitespace-nowrap ${
+                                included ? 'text-gray-900 dark:text-white' : 'text-gray-400 dark:text-gray-600'
+                              }`}
+                            >
+                              {column.name}
+                              <span className="ml-1 px-1 rounded bg-gray-200 dark:bg-gray-700 text-[10px] font-normal text-gray-600 dark:text-gray-300">
+                                {TYPE_BADGES[column.type]}
+                              </span>
+                            </th>
+                          );
+                        })}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {sheet.rows.slice(0, PREVIEW_ROWS).map((row, r) => (
+                        <tr key={r} className="border-b border-gray-100 dark:border-gray-800">
+                          <td className="px-2 py-1 text-gray-400">{sheet.firstRow + r}</td>
+                          {row.map((value, index) => {
+                            const included = !!selection && index >= selection.firstColumn && index <= selection.lastColumn;
+                            return (
+                              <td
+                                key={index}
+                                className={`px-3 py-1 whitespace-nowrap max-w-xs truncate ${
+                                  included ? 'text-gray-800 dark:text-gray-200' : 'text-gray-300 dark:text-gray-600'
+                                }`}
+                              >
+                                {formatCell(value)}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                ) : (
+                  <p className="p-6 text-sm text-gray-500 dark:text-gray-400 italic">This sheet is empty.</p>
+                )}
+                {sheet && sheet.rows.length > PREVIEW_ROWS && (
+                  <p className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400">
+                    Showing the first {PREVIEW_ROWS} of {sheet.rows.length} rows.
+                  </p>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Footer */}
+        {options && sheets && (
+          <div className="flex flex-wrap items-center gap-3 p-4 border-t border-gray-200 dark:border-gray-700 text-sm">
+            <span className="font-semibold text-gray-700 dark:text-gray-300">Rows</span>
+            <select
+              value={options.sampling}
+              onChange={(e) => setOptions({ ...options, sampling: e.target.value as SpreadsheetSampling })}
+              className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-800 dark:text-white"
+            >
+              {SAMPLING_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            {(options.sampling === 'head' || options.sampling === 'even') && (
+              <input
+                type="number"
+                min={1}
+                value={options.sampleSize}
+                onChange={(e) => setOptions({ ...options, sampleSize: Math.max(1, Number(e.target.value) || DEFAULT_SAMPLE_SIZE) })}
+                className="w-24 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-800 dark:text-white"
+              />
+            )}
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              {options.sheets.length === 0
+                ? 'No sheets selected'
+                : `${sentRows} rows from ${options.sheets.length} sheet${options.sheets.length === 1 ? '' : 's'}, plus column statistics`}
+            </span>
+            <div className="flex-1" />
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onSave(options)}
+              disabled={options.sheets.length === 0}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              Use these settings
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
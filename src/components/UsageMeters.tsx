@@ -0,0 +1,59 @@
+import React from 'react';
+import { Gauge } from 'lucide-react';
+import { useUsage } from '../contexts/UsageContext';
+import type { UsageMetric } from '../types';
+
+interface UsageMetersProps {
+  compact?: boolean; // Sidebar layout: no heading details, tighter spacing
+}
+
+const METERS: { metric: UsageMetric; label: string }[] = [
+  { metric: 'messages', label: 'Messages' },
+  { metric: 'files', label: 'File uploads' },
+  { metric: 'tokens', label: 'Tokens' }
+];
+
+const formatCount = (value: number): string =>
+  value >= 10_000 ? `${Math.round(value / 1000).toLocaleString()}k` : value.toLocaleString();
+
+// Today's usage against the plan's daily allowances. Metrics the plan does
+// not include at all are left out.
+export const UsageMeters: React.FC<UsageMetersProps> = ({ compact = false }) => {
+  const { status } = useUsage();
+  const resetTime = status.resetsAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className={`bg-gray-50 dark:bg-gray-800 rounded-xl ${compact ? 'p-3 space-y-2' : 'p-4 space-y-3'}`}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Gauge className="text-blue-500" size={14} />
+          <span className="text-xs font-semibold text-gray-600 dark:text-gray-400">
+            {compact ? 'TODAY' : `DAILY USAGE · ${status.tier.toUpperCase()} PLAN`}
+          </span>
+        </div>
+        <span className="text-xs text-gray-500 dark:text-gray-400">Resets {resetTime}</span>
+      </div>
+
+      {METERS.filter(({ metric }) => status.limits[metric] > 0).map(({ metric, label }) => {
+        const used = status.used[metric];
+        const limit = status.limits[metric];
+        const percent = Math.min(100, (used / limit) * 100);
+        const color = percent >= 100 ? 'bg-red-500' : percent >= 80 ? 'bg-yellow-500' : 'bg-blue-500';
+
+        return (
+          <div key={metric}>
+            <div className="flex justify-between text-xs mb-1">
+              <span className="text-gray-600 dark:text-gray-400">{label}</span>
+              <span className={`font-semibold ${percent >= 100 ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>
+                {formatCount(used)} / {formatCount(limit)}
+              </span>
+            </div>
+            <div className="h-1.5 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+              <div className={`h-full ${color} transition-all`} style={{ width: `${percent}%` }} />
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,7 +1,9 @@
 import React, { useState } from 'react';
 import { User, Settings, Crown, BarChart3, FileText, MessageSquare, X, Save } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
-import type { UserRole } from '../types';
+import { AuthService } from '../services/authService';
+import { ModelSettingsPanel } from './ModelSettingsPanel';
+import { UsageMeters } from './UsageMeters';
 
 interface UserProfileProps {
   isOpen: boolean;
@@ -88,7 +90,7 @@ export const UserProfile: React.FC<UserProfileProps> = ({ isOpen, onClose }) =>
             ].map(tab => (
               <button
                 key={tab.id}
-                onClick={() => setActiveTab(tab.id as any)}
+                onClick={() => setActiveTab(tab.id as typeof activeTab)}
                 className={`flex-1 flex items-center justify-center gap-2 py-4 px-6 font-semibold transition-colors ${
                   activeTab === tab.id
                     ? 'text-blue-600 dark:text-blue-400 border-b-2 border-blue-600 dark:border-blue-400'
@@ -219,7 +221,9 @@ export const UserProfile: React.FC<UserProfileProps> = ({ isOpen, onClose }) =>
             {activeTab === 'activity' && (
               <div className="space-y-6">
                 <h3 className="text-lg font-bold text-gray-900 dark:text-white">Activity Dashboard</h3>
-                
+
+                <UsageMeters />
+
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                   <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-xl p-4">
                     <div className="flex items-center gap-3 mb-2">
@@ -268,6 +272,8 @@ export const UserProfile: React.FC<UserProfileProps> = ({ isOpen, onClose }) =>
                 <h3 className="text-lg font-bold text-gray-900 dark:text-white">Account Settings</h3>
                 
                 <div className="space-y-4">
+                  <ModelSettingsPanel />
+
                   <div className="bg-gray-50 dark:bg-gray-800 rounded-xl p-4">
                     <h4 className="font-semibold text-gray-900 dark:text-white mb-3">Security</h4>
                     <button className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors">
@@ -278,6 +284,15 @@ export const UserProfile: React.FC<UserProfileProps> = ({ isOpen, onClose }) =>
                   <div className="bg-gray-50 dark:bg-gray-800 rounded-xl p-4">
                     <h4 className="font-semibold text-gray-900 dark:text-white mb-3">Preferences</h4>
                     <div className="space-y-3">
+                      <label className="flex items-center gap-3">
+                        <input
+                          type="checkbox"
+                          className="rounded"
+                          checked={user.settings?.followUpSuggestions !== false}
+                          onChange={(e) => void updateProfile({ settings: { ...AuthService.DEFAULT_SETTINGS, ...user.settings, followUpSuggestions: e.target.checked } })}
+                        />
+                        <span className="text-sm text-gray-700 dark:text-gray-300">Suggest follow-up questions under answers</span>
+                      </label>
                       <label className="flex items-center gap-3">
                         <input type="checkbox" className="rounded" defaultChecked />
                         <span className="text-sm text-gray-700 dark:text-gray-300">Email notifications</span>
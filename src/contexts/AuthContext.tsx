@@ -1,6 +1,6 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { AuthService } from '../services/authService';
-import type { User, AuthState, RegisterData, LoginData } from '../types';
+import type { AuthState, RegisterData, LoginData, UserProfile } from '../types';
 
 interface AuthContextType extends AuthState {
   login: (credentials: LoginData) => Promise<boolean>;
@@ -9,6 +9,8 @@ interface AuthContextType extends AuthState {
   sendOTP: (mobile: string) => Promise<{ success: boolean; message: string; otp?: string }>;
   verifyOTP: (mobile: string, otp: string) => Promise<boolean>;
   clearError: () => void;
+  updateProfile: (updates: Partial<UserProfile>) => Promise<boolean>;
+  upgradeToPremium: () => Promise<boolean>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -54,7 +56,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     try {
       const user = await AuthService.login(credentials);
       if (user) {
-        AuthService.saveCurrentUser(user);
+        AuthService.saveCurrentUser(user, credentials.rememberMe);
         setAuthState({
           user,
           isAuthenticated: true,
@@ -70,7 +72,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         }));
         return false;
       }
-    } catch (error) {
+    } catch {
       setAuthState(prev => ({
         ...prev,
         isLoading: false,
@@ -93,7 +95,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         error: null
       });
       return true;
-    } catch (error) {
+    } catch {
       setAuthState(prev => ({
         ...prev,
         isLoading: false,
@@ -117,7 +119,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     try {
       const response = await AuthService.sendOTP(mobile);
       return response;
-    } catch (error) {
+    } catch {
       return {
         success: false,
         message: 'Failed to send OTP. Please try again.'
@@ -128,7 +130,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const verifyOTP = async (mobile: string, otp: string): Promise<boolean> => {
     try {
       return await AuthService.verifyOTP(mobile, otp);
-    } catch (error) {
+    } catch {
       return false;
     }
   };
@@ -137,6 +139,28 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     setAuthState(prev => ({ ...prev, error: null }));
   };
 
+  const updateProfile = async (updates: Partial<UserProfile>): Promise<boolean> => {
+    if (!authState.user) return false;
+
+    const user = await AuthService.updateProfile(authState.user.id, updates);
+    if (!user) {
+      setAuthState(prev => ({ ...prev, error: 'Could not update your profile.' }));
+      return false;
+    }
+    setAuthState(prev => ({ ...prev, user, error: null }));
+    return true;
+  };
+
+  const upgradeToPremium = async (): Promise<boolean> => {
+    if (!authState.user) return false;
+
+    const success = await AuthService.upgradeToPremium(authState.user.id);
+    if (success) {
+      setAuthState(prev => (prev.user ? { ...prev, user: { ...prev.user, membershipType: 'Premium' } } : prev));
+    }
+    return success;
+  };
+
   const value: AuthContextType = {
     ...authState,
     login,
@@ -144,7 +168,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     logout,
     sendOTP,
     verifyOTP,
-    clearError
+    clearError,
+    updateProfile,
+    upgradeToPremium
   };
 
   return (
@@ -1,18 +1,23 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
 import { ChatHistoryService } from '../services/chatHistoryService';
+import { ModelSettingsService } from '../services/modelSettingsService';
+import { QuotaService } from '../services/quotaService';
 import { useAuth } from './AuthContext';
-import type { ChatHistory, ChatHistoryState, Message, UserRole } from '../types';
+import { getActiveMessages } from '../utils/messageTree';
+import { countExchanges, generateChatSummary, needsSummary } from '../utils/chatSummary';
+import type { ChatHistory, ChatHistoryState, MessageTree, UserRole } from '../types';
 
 interface ChatHistoryContextType extends ChatHistoryState {
   saveChatHistory: (chatData: {
     title?: string;
-    messages: Message[];
+    tree: MessageTree;
     role: UserRole | 'General AI';
   }) => ChatHistory | null;
   loadChatHistory: (chatId: string) => ChatHistory | null;
   deleteChatHistory: (chatId: string) => void;
   clearAllHistories: () => void;
-  updateCurrentChat: (messages: Message[]) => void;
+  updateCurrentChat: (tree: MessageTree) => void;
+  renameChat: (chatId: string, title: string) => void;
   setCurrentChatId: (chatId: string | null) => void;
 }
 
@@ -37,6 +42,7 @@ export const ChatHistoryProvider: React.FC<ChatHistoryProviderProps> = ({ childr
     currentChatId: null,
     maxHistories: 10
   });
+  const summarizing = useRef(new Set<string>());
 
   // Load chat histories when user changes
   useEffect(() => {
@@ -55,15 +61,44 @@ export const ChatHistoryProvider: React.FC<ChatHistoryProviderProps> = ({ childr
     }
   }, [user, isAuthenticated]);
 
-  const saveChatHistory = (chatData: {
+  const replaceHistory = useCallback((history: ChatHistory) => {
+    setChatHistoryState(prev => ({
+      ...prev,
+      histories: prev.histories.map(h => (h.id === history.id ? history : h))
+    }));
+  }, []);
+
+  // Generate a title and summary in the background after the first
+  // exchange, and again when the topic drifts. Failures just keep the old ones.
+  const summarizeIfNeeded = useCallback((history: ChatHistory) => {
+    if (!user) return;
+    const messages = getActiveMessages(history.tree);
+    if (summarizing.current.has(history.id) || !needsSummary(history, messages)) return;
+
+    summarizing.current.add(history.id);
+    const tier = ModelSettingsService.getTier(true, user.membershipType === 'Premium');
+    generateChatSummary(messages, tier, QuotaService.getUsageKey(user.id))
+      .then(({ title, summary }) => {
+        const updated = ChatHistoryService.saveSummary(user.id, history.id, {
+          title,
+          summary,
+          summarizedExchanges: countExchanges(messages)
+        });
+        if (updated) replaceHistory(updated);
+      })
+      .catch(err => console.warn('Could not summarize chat:', err))
+      .finally(() => summarizing.current.delete(history.id));
+  }, [user, replaceHistory]);
+
+  const saveChatHistory = useCallback((chatData: {
     title?: string;
-    messages: Message[];
+    tree: MessageTree;
     role: UserRole | 'General AI';
   }): ChatHistory | null => {
     if (!isAuthenticated || !user) return null;
 
     // Only save if there are at least 2 messages (1 user + 1 AI response)
-    if (chatData.messages.length < 2) return null;
+    if (getActiveMessages(chatData.tree).length < 2) return null;
 
     const newHistory = ChatHistoryService.saveChatHistory(user.id, chatData);
     
@@ -73,9 +108,10 @@ export const ChatHistoryProvider: React.FC<ChatHistoryProviderProps> = ({ childr
       histories: [newHistory, ...prev.histories.filter(h => h.id !== newHistory.id)].slice(0, prev.maxHistories),
       currentChatId: newHistory.id
     }));
+    summarizeIfNeeded(newHistory);
 
     return newHistory;
-  };
+  }, [isAuthenticated, user, summarizeIfNeeded]);
 
   const loadChatHistory = (chatId: string): ChatHistory | null => {
     if (!isAuthenticated || !user) return null;
@@ -114,27 +150,39 @@ export const ChatHistoryProvider: React.FC<ChatHistoryProviderProps> = ({ childr
     }));
   };
 
-  const updateCurrentChat = (messages: Message[]): void => {
-    if (!isAuthenticated || !user || !chatHistoryState.currentChatId) return;
+  const currentChatId = chatHistoryState.currentChatId;
+
+  const updateCurrentChat = useCallback((tree: MessageTree): void => {
+    if (!isAuthenticated || !user || !currentChatId) return;
 
-    ChatHistoryService.updateChatHistory(user.id, chatHistoryState.currentChatId, messages);
+    ChatHistoryService.updateChatHistory(user.id, currentChatId, tree);
     
     setChatHistoryState(prev => ({
       ...prev,
       histories: prev.histories.map(h => 
-        h.id === chatHistoryState.currentChatId 
-          ? { ...h, messages, lastUpdated: new Date() }
+        h.id === currentChatId 
+          ? { ...h, tree, lastUpdated: new Date() }
           : h
       )
     }));
-  };
 
-  const setCurrentChatId = (chatId: string | null): void => {
+    const updated = ChatHistoryService.getChatHistory(user.id, currentChatId);
+    if (updated) summarizeIfNeeded(updated);
+  }, [isAuthenticated, user, currentChatId, summarizeIfNeeded]);
+
+  const renameChat = useCallback((chatId: string, title: string): void => {
+    if (!isAuthenticated || !user || !title.trim()) return;
+
+    const updated = ChatHistoryService.renameChatHistory(user.id, chatId, title.trim());
+    if (updated) replaceHistory(updated);
+  }, [isAuthenticated, user, replaceHistory]);
+
+  const setCurrentChatId = useCallback((chatId: string | null): void => {
     setChatHistoryState(prev => ({
       ...prev,
       currentChatId: chatId
     }));
-  };
+  }, []);
 
   const value: ChatHistoryContextType = {
     ...chatHistoryState,
@@ -143,6 +191,7 @@ export const ChatHistoryProvider: React.FC<ChatHistoryProviderProps> = ({ childr
     deleteChatHistory,
     clearAllHistories,
     updateCurrentChat,
+    renameChat,
     setCurrentChatId
   };
 
@@ -0,0 +1,74 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { QuotaService } from '../services/quotaService';
+import { ModelSettingsService } from '../services/modelSettingsService';
+import { useAuth } from './AuthContext';
+import type { UsageCounts, UsageStatus } from '../types';
+
+interface UsageContextType {
+  usageKey: string;
+  status: UsageStatus;
+  // Check uploaded files against the allowance without counting them;
+  // returns an error message when over it
+  checkFiles: (count: number) => string | null;
+  // Check and count uploaded files; returns an error message when over the allowance
+  recordFiles: (count: number) => string | null;
+}
+
+const UsageContext = createContext<UsageContextType | undefined>(undefined);
+
+export const useUsage = () => {
+  const context = useContext(UsageContext);
+  if (context === undefined) {
+    throw new Error('useUsage must be used within a UsageProvider');
+  }
+  return context;
+};
+
+interface UsageProviderProps {
+  children: ReactNode;
+}
+
+export const UsageProvider: React.FC<UsageProviderProps> = ({ children }) => {
+  const { user, isAuthenticated } = useAuth();
+  const usageKey = QuotaService.getUsageKey(isAuthenticated ? user?.id : undefined);
+  const tier = ModelSettingsService.getTier(isAuthenticated, user?.membershipType === 'Premium');
+  const [status, setStatus] = useState<UsageStatus>(() => QuotaService.getStatus(usageKey, tier));
+
+  const refresh = useCallback(() => {
+    setStatus(QuotaService.getStatus(usageKey, tier));
+  }, [usageKey, tier]);
+
+  // Refresh when the user or tier changes and whenever usage is recorded
+  useEffect(() => {
+    refresh();
+    return QuotaService.subscribe(refresh);
+  }, [refresh]);
+
+  // Counters start again at midnight
+  useEffect(() => {
+    const timer = setTimeout(refresh, status.resetsAt.getTime() - Date.now() + 1000);
+    return () => clearTimeout(timer);
+  }, [status.resetsAt, refresh]);
+
+  const checkFiles = useCallback((count: number): string | null => {
+    try {
+      QuotaService.check(usageKey, tier, { files: count });
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : 'File upload limit reached.';
+    }
+  }, [usageKey, tier]);
+
+  const recordFiles = useCallback((count: number): string | null => {
+    const amounts: Partial<UsageCounts> = { files: count };
+    const limitError = checkFiles(count);
+    if (!limitError) QuotaService.record(usageKey, amounts);
+    return limitError;
+  }, [checkFiles, usageKey]);
+
+  return (
+    <UsageContext.Provider value={{ usageKey, status, checkFiles, recordFiles }}>
+      {children}
+    </UsageContext.Provider>
+  );
+};
@@ -3,6 +3,7 @@ import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
 import { AuthProvider } from './contexts/AuthContext.tsx';
 import { ChatHistoryProvider } from './contexts/ChatHistoryContext.tsx';
+import { UsageProvider } from './contexts/UsageContext.tsx';
 import { ThemeProvider } from './contexts/ThemeContext.tsx';
 import './index.css';
 
@@ -10,9 +11,11 @@ createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <ThemeProvider>
       <AuthProvider>
-        <ChatHistoryProvider>
-          <App />
-        </ChatHistoryProvider>
+        <UsageProvider>
+          <ChatHistoryProvider>
+            <App />
+          </ChatHistoryProvider>
+        </UsageProvider>
       </AuthProvider>
     </ThemeProvider>
   </StrictMode>
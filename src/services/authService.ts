@@ -1,4 +1,4 @@
-import type { User, RegisterData, LoginData, OTPResponse, UserProfile, PasswordResetData } from '../types';
+import type { User, RegisterData, LoginData, OTPResponse, UserProfile, PasswordResetData, UserSettings } from '../types';
 
 // Simple password hashing (in production, use bcrypt or similar)
 class PasswordUtils {
@@ -17,6 +17,13 @@ class PasswordUtils {
 }
 
 export class AuthService {
+  // Settings for accounts that have never saved any
+  static readonly DEFAULT_SETTINGS: UserSettings = {
+    autoLogout: false,
+    rememberMe: true,
+    notifications: true
+  };
+
   private static users: Map<string, User & { hashedPassword: string }> = new Map();
   private static otpStore: Map<string, { otp: string; expires: number; type: 'register' | 'login' | 'reset' }> = new Map();
   private static sessions: Map<string, { userId: string; expires: number }> = new Map();
@@ -31,6 +38,23 @@ export class AuthService {
     return Math.random().toString(36).substring(2) + Date.now().toString(36);
   }
 
+  // Strip the password hash and revive dates that were stored as strings
+  private static toPublicUser(stored: User & { hashedPassword: string }): User {
+    const user: User & { hashedPassword?: string } = { ...stored };
+    delete user.hashedPassword;
+    return {
+      ...user,
+      isAuthenticated: true,
+      registrationDate: new Date(user.registrationDate),
+      lastLoginDate: user.lastLoginDate ? new Date(user.lastLoginDate) : undefined
+    };
+  }
+
+  private static findById(userId: string): (User & { hashedPassword: string }) | undefined {
+    this.loadUsers();
+    return Array.from(this.users.values()).find(user => user.id === userId);
+  }
+
   // Load users from localStorage
   private static loadUsers(): void {
     const storedUsers = JSON.parse(localStorage.getItem('fortas_users') || '[]');
@@ -142,7 +166,11 @@ export class AuthService {
     user.lastLoginDate = new Date();
     this.saveUsers();
 
-    // Create session
+    return this.toPublicUser(user);
+  }
+
+  // Start a session for a user who just logged in or registered
+  static saveCurrentUser(user: User, rememberMe = false): void {
     const sessionToken = this.generateSessionToken();
     const sessionExpiry = rememberMe 
       ? Date.now() + (30 * 24 * 60 * 60 * 1000) // 30 days
@@ -150,20 +178,6 @@ export class AuthService {
     
     this.sessions.set(sessionToken, { userId: user.id, expires: sessionExpiry });
     localStorage.setItem('fortas_session_token', sessionToken);
-
-    return {
-      id: user.id,
-      fullName: user.fullName,
-      email: user.email,
-      mobile: user.mobile,
-      isAuthenticated: true,
-      registrationDate: user.registrationDate,
-      membershipType: user.membershipType,
-      preferredRole: user.preferredRole,
-      profilePicture: user.profilePicture,
-      lastLoginDate: user.lastLoginDate,
-      activityStats: user.activityStats
-    };
   }
 
   // Password reset
@@ -207,59 +221,27 @@ export class AuthService {
       return null;
     }
 
-    return {
-      id: user.id,
-      fullName: user.fullName,
-      email: user.email,
-      mobile: user.mobile,
-      isAuthenticated: true,
-      registrationDate: user.registrationDate,
-      membershipType: user.membershipType,
-      preferredRole: user.preferredRole,
-      profilePicture: user.profilePicture,
-      lastLoginDate: user.lastLoginDate,
-      activityStats: user.activityStats
-    };
+    return this.toPublicUser(user);
   }
 
   // Update user profile
   static async updateProfile(userId: string, updates: Partial<UserProfile>): Promise<User | null> {
-    this.loadUsers();
-    
-    const userEntry = Array.from(this.users.entries()).find(([_, user]) => user.id === userId);
-    if (!userEntry) {
+    const user = this.findById(userId);
+    if (!user) {
       return null;
     }
-
-    const [key, user] = userEntry;
     
     // Update user data
     Object.assign(user, updates);
     this.saveUsers();
 
-    return {
-      id: user.id,
-      fullName: user.fullName,
-      email: user.email,
-      mobile: user.mobile,
-      isAuthenticated: true,
-      registrationDate: user.registrationDate,
-      membershipType: user.membershipType,
-      preferredRole: user.preferredRole,
-      profilePicture: user.profilePicture,
-      lastLoginDate: user.lastLoginDate,
-      activityStats: user.activityStats
-    };
+    return this.toPublicUser(user);
   }
 
   // Update activity stats
   static updateActivityStats(userId: string, type: 'chat' | 'file' | 'report'): void {
-    this.loadUsers();
-    
-    const userEntry = Array.from(this.users.entries()).find(([_, user]) => user.id === userId);
-    if (!userEntry) return;
-
-    const [key, user] = userEntry;
+    const user = this.findById(userId);
+    if (!user) return;
     
     if (!user.activityStats) {
       user.activityStats = { totalChats: 0, filesUploaded: 0, reportsGenerated: 0 };
@@ -282,14 +264,11 @@ export class AuthService {
 
   // Upgrade to premium
   static async upgradeToPremium(userId: string): Promise<boolean> {
-    this.loadUsers();
-    
-    const userEntry = Array.from(this.users.entries()).find(([_, user]) => user.id === userId);
-    if (!userEntry) {
+    const user = this.findById(userId);
+    if (!user) {
       return false;
     }
 
-    const [key, user] = userEntry;
     user.membershipType = 'Premium';
     this.saveUsers();
     
@@ -305,6 +284,18 @@ export class AuthService {
     localStorage.removeItem('fortas_session_token');
   }
 
+  // Admins are configured by email through VITE_ADMIN_EMAILS. Like accounts,
+  // this is only checked in the browser: it shows the template editor, whose
+  // edits stay on the admin's own device
+  static isAdmin(user: User | null): boolean {
+    if (!user) return false;
+    const admins = (import.meta.env.VITE_ADMIN_EMAILS || '')
+      .split(',')
+      .map(email => email.trim().toLowerCase())
+      .filter(Boolean);
+    return admins.includes(user.email.toLowerCase());
+  }
+
   // Check session validity
   static isSessionValid(): boolean {
     const sessionToken = localStorage.getItem('fortas_session_token');
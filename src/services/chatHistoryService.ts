@@ -1,4 +1,34 @@
-import type { ChatHistory, Message, UserRole } from '../types';
+import { getActiveMessages, mapMessages, treeFromMessages } from '../utils/messageTree';
+import type { ChatHistory, FileUpload, Message, MessageTree, UserRole } from '../types';
+
+// Histories saved before conversations could branch hold a flat message list
+type StoredChatHistory = Omit<ChatHistory, 'tree'> & { tree?: MessageTree; messages?: Message[] };
+
+const reviveMessage = (m: Message): Message => ({
+  ...m,
+  timestamp: new Date(m.timestamp),
+  cachedAt: m.cachedAt ? new Date(m.cachedAt) : undefined,
+  files: m.files?.map(f => ({ ...f, uploadDate: new Date(f.uploadDate) })),
+  variants: m.variants?.map(v => ({
+    ...v,
+    timestamp: new Date(v.timestamp),
+    cachedAt: v.cachedAt ? new Date(v.cachedAt) : undefined
+  }))
+});
+
+// Attachments in the file library are saved as references; their bytes are
+// loaded back from the library when a question is sent again. Photos drop
+// the unedited copy kept for further markup.
+const toStoredFile = (file: FileUpload): FileUpload => ({
+  ...file,
+  content: file.libraryId ? '' : file.content,
+  markup: file.markup && { ...file.markup, original: undefined }
+});
+
+const toStoredHistory = (history: ChatHistory): ChatHistory => ({
+  ...history,
+  tree: mapMessages(history.tree, m => (m.files ? { ...m, files: m.files.map(toStoredFile) } : m))
+});
 
 export class ChatHistoryService {
   private static readonly MAX_HISTORIES = 10;
@@ -6,19 +36,19 @@ export class ChatHistoryService {
   // Save chat history for authenticated user
   static saveChatHistory(userId: string, chatData: {
     title?: string;
-    messages: Message[];
+    tree: MessageTree;
     role: UserRole | 'General AI';
   }): ChatHistory {
     // Auto-generate title from first user message
     const title = chatData.title || 
-      chatData.messages.find(m => m.role === 'user')?.content.substring(0, 30) + '...' || 
+      getActiveMessages(chatData.tree).find(m => m.role === 'user')?.content.substring(0, 30) + '...' || 
       'New Chat';
 
     // Create new chat history
     const newHistory: ChatHistory = {
       id: `chat_${Date.now()}`,
       title,
-      messages: chatData.messages,
+      tree: chatData.tree,
       role: chatData.role,
       createdAt: new Date(),
       lastUpdated: new Date()
@@ -31,7 +61,7 @@ export class ChatHistoryService {
     const updatedHistories = [newHistory, ...histories].slice(0, this.MAX_HISTORIES);
 
     // Save to localStorage
-    localStorage.setItem(`chat_histories_${userId}`, JSON.stringify(updatedHistories));
+    this.writeHistories(userId, updatedHistories);
 
     return newHistory;
   }
@@ -41,19 +71,27 @@ export class ChatHistoryService {
     const stored = localStorage.getItem(`chat_histories_${userId}`);
     if (!stored) return [];
 
-    const histories = JSON.parse(stored);
+    const storedHistories: StoredChatHistory[] = JSON.parse(stored);
+    const needsMigration = storedHistories.some(h => !h.tree);
     // Convert date strings back to Date objects
-    return histories.map((h: any) => ({
+    const histories = storedHistories.map(({ messages, tree, ...h }) => ({
       ...h,
+      tree: mapMessages(tree ?? treeFromMessages(messages ?? []), reviveMessage),
       createdAt: new Date(h.createdAt),
       lastUpdated: new Date(h.lastUpdated)
     }));
+
+    // Store migrated histories in the tree format once
+    if (needsMigration) {
+      this.writeHistories(userId, histories);
+    }
+    return histories;
   }
 
   // Delete specific chat history
   static deleteChatHistory(userId: string, chatId: string): void {
     const histories = this.getChatHistories(userId).filter(h => h.id !== chatId);
-    localStorage.setItem(`chat_histories_${userId}`, JSON.stringify(histories));
+    this.writeHistories(userId, histories);
   }
 
   // Clear all chat histories for user
@@ -67,15 +105,48 @@ export class ChatHistoryService {
     return histories.find(h => h.id === chatId) || null;
   }
 
+  // Store a generated title and summary. A title the user chose is kept.
+  static saveSummary(userId: string, chatId: string, details: {
+    title: string;
+    summary: string;
+    summarizedExchanges: number;
+  }): ChatHistory | null {
+    return this.modifyChatHistory(userId, chatId, history => ({
+      ...history,
+      title: history.titleIsCustom ? history.title : details.title,
+      summary: details.summary,
+      summarizedExchanges: details.summarizedExchanges
+    }));
+  }
+
+  // Rename a chat; generated titles no longer replace it
+  static renameChatHistory(userId: string, chatId: string, title: string): ChatHistory | null {
+    return this.modifyChatHistory(userId, chatId, history => ({ ...history, title, titleIsCustom: true }));
+  }
+
+  private static modifyChatHistory(userId: string, chatId: string, modify: (history: ChatHistory) => ChatHistory): ChatHistory | null {
+    const histories = this.getChatHistories(userId);
+    const index = histories.findIndex(h => h.id === chatId);
+    if (index === -1) return null;
+
+    histories[index] = modify(histories[index]);
+    this.writeHistories(userId, histories);
+    return histories[index];
+  }
+
+  private static writeHistories(userId: string, histories: ChatHistory[]): void {
+    localStorage.setItem(`chat_histories_${userId}`, JSON.stringify(histories.map(toStoredHistory)));
+  }
+
   // Update existing chat history
-  static updateChatHistory(userId: string, chatId: string, messages: Message[]): void {
+  static updateChatHistory(userId: string, chatId: string, tree: MessageTree): void {
     const histories = this.getChatHistories(userId);
     const historyIndex = histories.findIndex(h => h.id === chatId);
     
     if (historyIndex !== -1) {
-      histories[historyIndex].messages = messages;
+      histories[historyIndex].tree = tree;
       histories[historyIndex].lastUpdated = new Date();
-      localStorage.setItem(`chat_histories_${userId}`, JSON.stringify(histories));
+      this.writeHistories(userId, histories);
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,154 @@
+import type { FileUpload, LibraryFile, MembershipTier } from '../types';
+import { STORES, openDatabase, requestToPromise, transactionDone } from '../utils/indexedDb';
+import { sha256Hex } from '../utils/hash';
+import { fileToBytes } from '../utils/documentText';
+import { QuotaService } from './quotaService';
+
+export class FileLibraryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FileLibraryError';
+  }
+}
+
+interface StoredContent {
+  fileId: string;
+  content: string | ArrayBuffer;
+}
+
+export const formatMegabytes = (bytes: number): string => `${(bytes / 1024 / 1024).toFixed(bytes < 10 * 1024 * 1024 ? 1 : 0)} MB`;
+
+// Files a user has uploaded, kept on this device so they can be attached
+// again in any chat. Identical uploads share one entry, found by content hash.
+export class FileLibraryService {
+  static async listFiles(userId: string): Promise<LibraryFile[]> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.libraryFiles, 'readonly');
+    const files: LibraryFile[] = await requestToPromise(
+      tx.objectStore(STORES.libraryFiles).index('userId').getAll(userId)
+    );
+    return files.sort((a, b) => b.lastUsedAt.getTime() - a.lastUsedAt.getTime());
+  }
+
+  // Keep an upload in the library and return it linked to its entry. A file
+  // already there is reused, so it costs no extra space.
+  static async addFile(userId: string, tier: MembershipTier, file: FileUpload): Promise<FileUpload> {
+    const contentHash = await sha256Hex(fileToBytes(file).buffer as ArrayBuffer);
+    const id = `lib_${userId}_${contentHash}`;
+    const files = await this.listFiles(userId);
+    const existing = files.find(f => f.id === id);
+
+    const db = await openDatabase();
+    if (existing) {
+      const tx = db.transaction(STORES.libraryFiles, 'readwrite');
+      tx.objectStore(STORES.libraryFiles).put({ ...existing, lastUsedAt: new Date() });
+      await transactionDone(tx);
+      return { ...file, libraryId: id };
+    }
+
+    const limit = QuotaService.getStorageLimit(tier);
+    const used = files.reduce((total, f) => total + f.size, 0);
+    if (limit === 0) {
+      throw new FileLibraryError(`The ${tier} plan does not include a file library.`);
+    }
+    if (used + file.size > limit) {
+      throw new FileLibraryError(
+        `${file.name} does not fit in your file library (${formatMegabytes(used)} of ${formatMegabytes(limit)} used). Remove files under My Files to make room.`
+      );
+    }
+
+    const now = new Date();
+    const entry: LibraryFile = {
+      id,
+      userId,
+      contentHash,
+      name: file.name,
+      type: file.type,
+      size: file.size,
+      addedAt: now,
+      lastUsedAt: now
+    };
+    const tx = db.transaction([STORES.libraryFiles, STORES.libraryContent], 'readwrite');
+    tx.objectStore(STORES.libraryFiles).put(entry);
+    tx.objectStore(STORES.libraryContent).put({ fileId: id, content: file.content } satisfies StoredContent);
+    await transactionDone(tx);
+    return { ...file, libraryId: id };
+  }
+
+  // Stored file, for opening it from the library
+  static async getFile(userId: string, fileId: string): Promise<FileUpload | null> {
+    const db = await openDatabase();
+    const tx = db.transaction([STORES.libraryFiles, STORES.libraryContent], 'readonly');
+    const entry: LibraryFile | undefined = await requestToPromise(tx.objectStore(STORES.libraryFiles).get(fileId));
+    const stored: StoredContent | undefined = await requestToPromise(tx.objectStore(STORES.libraryContent).get(fileId));
+    if (!entry || !stored || entry.userId !== userId) return null;
+
+    return {
+      id: entry.id,
+      name: entry.name,
+      type: entry.type,
+      size: entry.size,
+      content: stored.content,
+      libraryId: entry.id,
+      uploadDate: entry.addedAt
+    };
+  }
+
+  // Library files as new attachments, marked as recently used
+  static async attachFiles(userId: string, fileIds: string[]): Promise<FileUpload[]> {
+    const db = await openDatabase();
+    const tx = db.transaction([STORES.libraryFiles, STORES.libraryContent], 'readwrite');
+    const entries = tx.objectStore(STORES.libraryFiles);
+    const contents = tx.objectStore(STORES.libraryContent);
+    const uploads: FileUpload[] = [];
+    for (const fileId of fileIds) {
+      const entry: LibraryFile | undefined = await requestToPromise(entries.get(fileId));
+      const stored: StoredContent | undefined = await requestToPromise(contents.get(fileId));
+      if (!entry || !stored || entry.userId !== userId) continue;
+
+      entries.put({ ...entry, lastUsedAt: new Date() });
+      uploads.push({
+        id: `file_${Date.now()}_${Math.random()}`,
+        name: entry.name,
+        type: entry.type,
+        size: entry.size,
+        content: stored.content,
+        libraryId: entry.id,
+        uploadDate: new Date()
+      });
+    }
+    await transactionDone(tx);
+    return uploads;
+  }
+
+  // Put the bytes back into attachments loaded from saved chats. Files since
+  // removed from the library are left out.
+  static async resolveFiles(userId: string, files: FileUpload[]): Promise<FileUpload[]> {
+    if (files.every(file => !file.libraryId || file.content)) return files;
+
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.libraryContent, 'readonly');
+    const contents = tx.objectStore(STORES.libraryContent);
+    const resolved = await Promise.all(files.map(async file => {
+      if (!file.libraryId || file.content) return file;
+      const stored: StoredContent | undefined = await requestToPromise(contents.get(file.libraryId));
+      return stored && file.libraryId.startsWith(`lib_${userId}_`) ? { ...file, content: stored.content } : null;
+    }));
+    return resolved.filter((file): file is FileUpload => file !== null);
+  }
+
+  static async deleteFile(userId: string, fileId: string): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction([STORES.libraryFiles, STORES.libraryContent], 'readwrite');
+    const entries = tx.objectStore(STORES.libraryFiles);
+    const entry: LibraryFile | undefined = await requestToPromise(entries.get(fileId));
+    if (!entry || entry.userId !== userId) {
+      tx.abort();
+      throw new FileLibraryError('File not found.');
+    }
+
+    entries.delete(fileId);
+    tx.objectStore(STORES.libraryContent).delete(fileId);
+    await transactionDone(tx);
+  }
+}
@@ -0,0 +1,227 @@
+import type { FileUpload, KnowledgeChunk, KnowledgeDocument, RetrievedPassage, UserRole } from '../types';
+import { STORES, openDatabase, requestToPromise, transactionDone } from '../utils/indexedDb';
+import { sha256Hex } from '../utils/hash';
+import { extractDocumentPages } from '../utils/documentText';
+import { chunkPages } from '../utils/knowledge/chunking';
+import { bm25Search } from '../utils/knowledge/bm25';
+import { getEmbeddingProvider } from '../utils/llm';
+
+export class KnowledgeBaseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KnowledgeBaseError';
+  }
+}
+
+interface StoredFile {
+  documentId: string;
+  content: string | ArrayBuffer;
+}
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+export class KnowledgeBaseService {
+  static readonly MAX_FILE_BYTES = 20 * 1024 * 1024;
+  // Vector matches below this similarity are treated as unrelated
+  private static readonly MIN_SIMILARITY = 0.55;
+  // Reciprocal rank fusion constant; dampens the weight of the top ranks
+  private static readonly RRF_K = 60;
+
+  static async listDocuments(userId: string): Promise<KnowledgeDocument[]> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.knowledgeDocuments, 'readonly');
+    const documents: KnowledgeDocument[] = await requestToPromise(
+      tx.objectStore(STORES.knowledgeDocuments).index('userId').getAll(userId)
+    );
+    return documents.sort((a, b) => b.addedAt.getTime() - a.addedAt.getTime());
+  }
+
+  // Extract, chunk and index a document. Embedding failures are not fatal:
+  // the document is still searchable through BM25.
+  static async addDocument(
+    userId: string,
+    file: FileUpload,
+    roles: (UserRole | 'General AI')[] = []
+  ): Promise<KnowledgeDocument> {
+    if (file.size > this.MAX_FILE_BYTES) {
+      throw new KnowledgeBaseError(`${file.name} is larger than ${this.MAX_FILE_BYTES / 1024 / 1024} MB.`);
+    }
+
+    const contentHash = await sha256Hex(file.content);
+    const existing = (await this.listDocuments(userId)).find(doc => doc.contentHash === contentHash);
+    if (existing) {
+      throw new KnowledgeBaseError(`${file.name} is already in your knowledge base as ${existing.name}.`);
+    }
+
+    const pages = await extractDocumentPages(file);
+    const textChunks = chunkPages(pages);
+    if (textChunks.length === 0) {
+      throw new KnowledgeBaseError(`${file.name} has no readable text. Scanned PDFs need OCR before they can be indexed.`);
+    }
+
+    const documentId = `kb_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    const provider = getEmbeddingProvider();
+    let embeddings: number[][] | undefined;
+    if (provider) {
+      try {
+        embeddings = await provider.embed(textChunks.map(chunk => chunk.text), 'document');
+      } catch (error) {
+        console.warn('Embedding failed, falling back to keyword search:', error);
+      }
+    }
+
+    const document: KnowledgeDocument = {
+      id: documentId,
+      userId,
+      name: file.name,
+      type: file.type,
+      size: file.size,
+      contentHash,
+      pageCount: pages.length,
+      chunkCount: textChunks.length,
+      roles,
+      embeddingModel: embeddings ? provider?.model : undefined,
+      addedAt: new Date()
+    };
+    const chunks: KnowledgeChunk[] = textChunks.map((chunk, index) => ({
+      id: `${documentId}_${index}`,
+      documentId,
+      userId,
+      page: chunk.page,
+      text: chunk.text,
+      embedding: embeddings?.[index]
+    }));
+
+    const db = await openDatabase();
+    const tx = db.transaction([STORES.knowledgeDocuments, STORES.knowledgeChunks, STORES.knowledgeFiles], 'readwrite');
+    tx.objectStore(STORES.knowledgeDocuments).put(document);
+    tx.objectStore(STORES.knowledgeFiles).put({ documentId, content: file.content } satisfies StoredFile);
+    const chunkStore = tx.objectStore(STORES.knowledgeChunks);
+    chunks.forEach(chunk => chunkStore.put(chunk));
+    await transactionDone(tx);
+
+    return document;
+  }
+
+  static async updateRoles(userId: string, documentId: string, roles: (UserRole | 'General AI')[]): Promise<KnowledgeDocument> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.knowledgeDocuments, 'readwrite');
+    const store = tx.objectStore(STORES.knowledgeDocuments);
+    const document: KnowledgeDocument | undefined = await requestToPromise(store.get(documentId));
+    if (!document || document.userId !== userId) {
+      throw new KnowledgeBaseError('Document not found.');
+    }
+
+    const updated = { ...document, roles };
+    store.put(updated);
+    await transactionDone(tx);
+    return updated;
+  }
+
+  static async deleteDocument(userId: string, documentId: string): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction([STORES.knowledgeDocuments, STORES.knowledgeChunks, STORES.knowledgeFiles], 'readwrite');
+    const documents = tx.objectStore(STORES.knowledgeDocuments);
+    const document: KnowledgeDocument | undefined = await requestToPromise(documents.get(documentId));
+    if (!document || document.userId !== userId) {
+      tx.abort();
+      throw new KnowledgeBaseError('Document not found.');
+    }
+
+    documents.delete(documentId);
+    tx.objectStore(STORES.knowledgeFiles).delete(documentId);
+    const chunks = tx.objectStore(STORES.knowledgeChunks);
+    const keys = await requestToPromise(chunks.index('documentId').getAllKeys(documentId));
+    keys.forEach(key => chunks.delete(key));
+    await transactionDone(tx);
+  }
+
+  // Original upload, for opening a cited document
+  static async getFile(userId: string, documentId: string): Promise<FileUpload | null> {
+    const db = await openDatabase();
+    const tx = db.transaction([STORES.knowledgeDocuments, STORES.knowledgeFiles], 'readonly');
+    const document: KnowledgeDocument | undefined = await requestToPromise(tx.objectStore(STORES.knowledgeDocuments).get(documentId));
+    const stored: StoredFile | undefined = await requestToPromise(tx.objectStore(STORES.knowledgeFiles).get(documentId));
+    if (!document || !stored || document.userId !== userId) return null;
+
+    return {
+      id: document.id,
+      name: document.name,
+      type: document.type,
+      size: document.size,
+      content: stored.content,
+      uploadDate: document.addedAt
+    };
+  }
+
+  // Best passages for a question from the documents enabled for this role.
+  // BM25 always runs; when the documents carry embeddings from the current
+  // provider the vector ranking is merged in with reciprocal rank fusion.
+  static async search(
+    userId: string,
+    role: UserRole | 'General AI',
+    query: string,
+    limit = 4,
+    signal?: AbortSignal
+  ): Promise<RetrievedPassage[]> {
+    if (!query.trim()) return [];
+
+    const documents = (await this.listDocuments(userId))
+      .filter(doc => doc.roles.length === 0 || doc.roles.includes(role));
+    if (documents.length === 0) return [];
+
+    const byId = new Map(documents.map(doc => [doc.id, doc]));
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.knowledgeChunks, 'readonly');
+    const chunks = (await requestToPromise<KnowledgeChunk[]>(
+      tx.objectStore(STORES.knowledgeChunks).index('userId').getAll(userId)
+    )).filter(chunk => byId.has(chunk.documentId));
+
+    const rankings: string[][] = [
+      bm25Search(query, chunks, limit * 3).map(result => result.id)
+    ];
+
+    const provider = getEmbeddingProvider();
+    const embedded = provider
+      ? chunks.filter(chunk => chunk.embedding && byId.get(chunk.documentId)?.embeddingModel === provider.model)
+      : [];
+    if (provider && embedded.length > 0) {
+      try {
+        const [queryVector] = await provider.embed([query], 'query', signal);
+        rankings.push(embedded
+          .map(chunk => ({ id: chunk.id, score: cosineSimilarity(queryVector, chunk.embedding!) }))
+          .filter(result => result.score >= this.MIN_SIMILARITY)
+          .sort((a, b) => b.score - a.score)
+          .slice(0, limit * 3)
+          .map(result => result.id));
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        console.warn('Query embedding failed, using keyword search only:', error);
+      }
+    }
+
+    const scores = new Map<string, number>();
+    for (const ranking of rankings) {
+      ranking.forEach((id, rank) => scores.set(id, (scores.get(id) ?? 0) + 1 / (this.RRF_K + rank + 1)));
+    }
+
+    const chunkById = new Map(chunks.map(chunk => [chunk.id, chunk]));
+    return [...scores]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([id, score]) => {
+        const chunk = chunkById.get(id)!;
+        return { chunk, document: byId.get(chunk.documentId)!, score };
+      });
+  }
+}
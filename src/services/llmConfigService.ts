@@ -0,0 +1,57 @@
+import type { LLMProviderConfig, LLMProviderName } from '../types';
+
+const PROVIDERS: LLMProviderName[] = ['gemini', 'openai-compatible', 'proxy', 'mock'];
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  'gemini': 'gemini-1.5-flash',
+  'openai-compatible': 'gpt-4o-mini',
+  'proxy': 'gemini-1.5-flash',
+  'mock': 'fortas-mock-1'
+};
+
+export class LLMConfigService {
+  private static readonly STORAGE_KEY = 'fortas_llm_config';
+
+  // Resolve the active provider configuration.
+  // A saved override wins over build-time env vars; with nothing configured
+  // the app falls back to the offline mock provider instead of crashing.
+  // Gemini keys are never read from the build: anything in VITE_* ends up in
+  // the bundle, so production goes through the proxy server (server/).
+  static getConfig(): LLMProviderConfig {
+    const saved = this.getSavedConfig();
+    const env = import.meta.env;
+
+    const requested = (saved.provider || env.VITE_LLM_PROVIDER) as LLMProviderName | undefined;
+    const provider: LLMProviderName = requested && PROVIDERS.includes(requested)
+      ? requested
+      : env.VITE_LLM_PROXY_URL ? 'proxy' : 'mock';
+
+    // For the proxy this is its access key
+    const envKey = provider === 'openai-compatible' ? env.VITE_LLM_API_KEY : provider === 'proxy' ? env.VITE_LLM_PROXY_KEY : undefined;
+    const apiKey = saved.apiKey || envKey;
+
+    return {
+      provider,
+      model: saved.model || env.VITE_LLM_MODEL || DEFAULT_MODELS[provider],
+      apiKey: apiKey || undefined,
+      baseUrl: saved.baseUrl || (provider === 'proxy' ? env.VITE_LLM_PROXY_URL : env.VITE_LLM_BASE_URL) || undefined
+    };
+  }
+
+  // Persist a runtime override (e.g. switch to the mock provider for a demo)
+  static saveConfig(config: Partial<LLMProviderConfig>): void {
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify({ ...this.getSavedConfig(), ...config }));
+  }
+
+  static clearConfig(): void {
+    localStorage.removeItem(this.STORAGE_KEY);
+  }
+
+  private static getSavedConfig(): Partial<LLMProviderConfig> {
+    try {
+      return JSON.parse(localStorage.getItem(this.STORAGE_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  }
+}
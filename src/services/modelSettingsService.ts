@@ -0,0 +1,96 @@
+import type {
+  AppliedGenerationSettings,
+  GenerationSettings,
+  GenerationSettingsCaps,
+  MembershipTier,
+  UserRole
+} from '../types';
+import { LLMConfigService } from './llmConfigService';
+
+const BASE_SETTINGS: Omit<GenerationSettings, 'model'> = {
+  temperature: 0.7,
+  topP: 0.8,
+  topK: 40,
+  maxOutputTokens: 2048
+};
+
+// Roles whose answers carry specifications, safety or compliance content run
+// cooler; commercial roles keep more room for varied wording
+const ROLE_DEFAULTS: Record<UserRole | 'General AI', Partial<GenerationSettings>> = {
+  'Operations': { temperature: 0.5 },
+  'Project Management': { temperature: 0.6 },
+  'Sales & Marketing': { temperature: 0.8, topP: 0.9 },
+  'Procurement': { temperature: 0.4, topP: 0.7 },
+  'Erection & Commissioning': { temperature: 0.4, topP: 0.7 },
+  'Engineering & Design': { temperature: 0.3, topP: 0.7, topK: 32 },
+  'General AI': {}
+};
+
+const TIER_CAPS: Record<MembershipTier, GenerationSettingsCaps> = {
+  Guest: { maxTemperature: 1, maxOutputTokens: 2048, allowOverrides: false, allowModelOverride: false },
+  Free: { maxTemperature: 1, maxOutputTokens: 2048, allowOverrides: true, allowModelOverride: false },
+  Premium: { maxTemperature: 2, maxOutputTokens: 8192, allowOverrides: true, allowModelOverride: true }
+};
+
+export class ModelSettingsService {
+  static getTier(isAuthenticated: boolean, isPremium: boolean): MembershipTier {
+    if (!isAuthenticated) return 'Guest';
+    return isPremium ? 'Premium' : 'Free';
+  }
+
+  static getCaps(tier: MembershipTier): GenerationSettingsCaps {
+    return TIER_CAPS[tier];
+  }
+
+  // Settings before user overrides and caps: base, then the role's defaults
+  static getRoleDefaults(role: UserRole | 'General AI'): GenerationSettings {
+    return {
+      model: LLMConfigService.getConfig().model,
+      ...BASE_SETTINGS,
+      ...ROLE_DEFAULTS[role]
+    };
+  }
+
+  // Work out the settings for one request: role defaults, then the user's
+  // overrides (if the tier allows them), then the tier caps
+  static resolve(
+    role: UserRole | 'General AI',
+    tier: MembershipTier,
+    overrides: Partial<GenerationSettings> = {}
+  ): AppliedGenerationSettings {
+    const caps = TIER_CAPS[tier];
+    const settings = this.getRoleDefaults(role);
+    const overridden: (keyof GenerationSettings)[] = [];
+    const capped: (keyof GenerationSettings)[] = [];
+
+    if (caps.allowOverrides) {
+      for (const key of Object.keys(overrides) as (keyof GenerationSettings)[]) {
+        const value = overrides[key];
+        if (value === undefined || value === '') continue;
+        if (key === 'model' && !caps.allowModelOverride) continue;
+        Object.assign(settings, { [key]: value });
+        overridden.push(key);
+      }
+    }
+
+    // Keep every value inside the range the providers accept
+    const clamp = (key: 'temperature' | 'topP' | 'topK' | 'maxOutputTokens', min: number, max: number) => {
+      const value = Math.min(Math.max(settings[key], min), max);
+      if (value !== settings[key]) {
+        settings[key] = value;
+        capped.push(key);
+      }
+    };
+    clamp('temperature', 0, caps.maxTemperature);
+    clamp('topP', 0, 1);
+    clamp('topK', 1, 100);
+    clamp('maxOutputTokens', 64, caps.maxOutputTokens);
+
+    return {
+      ...settings,
+      tier,
+      ...(overridden.length > 0 ? { overridden } : {}),
+      ...(capped.length > 0 ? { capped } : {})
+    };
+  }
+}
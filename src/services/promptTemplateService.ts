@@ -0,0 +1,129 @@
+import type { PromptTemplate, PromptTemplateRef, PromptTemplateVersion, PromptVariables } from '../types';
+import {
+  DEFAULT_PROMPT_TEMPLATES,
+  PromptTemplateError,
+  findUnknownVariables,
+  renderTemplate
+} from '../utils/promptTemplates';
+
+// Placeholder values used to check that an edited template still renders
+const SAMPLE_VARIABLES: PromptVariables = {
+  userName: 'Sample User',
+  plantProfile: 'Sample plant',
+  units: 'metric',
+  language: 'English'
+};
+
+// Template edits are a per-device override: versions are kept in this
+// browser's localStorage, and other browsers render the built-in defaults
+export class PromptTemplateService {
+  private static readonly STORAGE_KEY = 'fortas_prompt_templates';
+
+  // All templates with their version history. Only edited templates are
+  // stored; the rest come straight from the built-in defaults.
+  static getTemplates(): PromptTemplate[] {
+    const stored = this.getStoredVersions();
+    return DEFAULT_PROMPT_TEMPLATES.map(template =>
+      stored[template.id] ? { ...template, versions: stored[template.id] } : template
+    );
+  }
+
+  static getTemplate(id: string): PromptTemplate | undefined {
+    return this.getTemplates().find(t => t.id === id);
+  }
+
+  static getLiveVersion(template: PromptTemplate): PromptTemplateVersion {
+    return template.versions[template.versions.length - 1];
+  }
+
+  // Render the live version of a template, returning the text and which
+  // template and fragment versions went into it
+  static render(id: string, variables: PromptVariables): { text: string; ref: PromptTemplateRef } {
+    const templates = this.getTemplates();
+    const resolve = (templateId: string) => {
+      const template = templates.find(t => t.id === templateId);
+      return template && this.getLiveVersion(template);
+    };
+
+    const live = resolve(id);
+    if (!live) {
+      throw new PromptTemplateError(`Unknown prompt template "${id}".`);
+    }
+
+    const fragments: Record<string, number> = {};
+    const text = renderTemplate(live.body, variables, resolve, fragments, [id]);
+    return {
+      text,
+      ref: { id, version: live.version, ...(Object.keys(fragments).length > 0 ? { fragments } : {}) }
+    };
+  }
+
+  // Publish a new version. The body is checked against the other live
+  // templates first so a broken edit never goes live.
+  static saveVersion(id: string, body: string, author: string, note?: string): PromptTemplate {
+    const templates = this.getTemplates();
+    const template = templates.find(t => t.id === id);
+    if (!template) {
+      throw new PromptTemplateError(`Unknown prompt template "${id}".`);
+    }
+
+    const trimmed = body.trim();
+    if (!trimmed) {
+      throw new PromptTemplateError('A template cannot be empty.');
+    }
+    if (trimmed === this.getLiveVersion(template).body) {
+      throw new PromptTemplateError('No changes to save.');
+    }
+
+    const unknown = findUnknownVariables(trimmed);
+    if (unknown.length > 0) {
+      throw new PromptTemplateError(`Unknown variable${unknown.length > 1 ? 's' : ''}: ${unknown.join(', ')}.`);
+    }
+
+    const version: PromptTemplateVersion = {
+      version: this.getLiveVersion(template).version + 1,
+      body: trimmed,
+      createdAt: new Date(),
+      author,
+      note: note?.trim() || undefined
+    };
+    const updated: PromptTemplate = { ...template, versions: [...template.versions, version] };
+
+    // Render every template that could include this one against the edit
+    const candidates = templates.map(t => (t.id === id ? updated : t));
+    const resolve = (templateId: string) => {
+      const candidate = candidates.find(t => t.id === templateId);
+      return candidate && this.getLiveVersion(candidate);
+    };
+    for (const candidate of candidates) {
+      renderTemplate(this.getLiveVersion(candidate).body, SAMPLE_VARIABLES, resolve, {}, [candidate.id]);
+    }
+
+    const stored = this.getStoredVersions();
+    stored[id] = updated.versions;
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(stored));
+
+    return updated;
+  }
+
+  // Rolling back publishes the old body as a new version, so history is never lost
+  static rollback(id: string, version: number, author: string): PromptTemplate {
+    const target = this.getTemplate(id)?.versions.find(v => v.version === version);
+    if (!target) {
+      throw new PromptTemplateError(`Version ${version} of "${id}" does not exist.`);
+    }
+    return this.saveVersion(id, target.body, author, `Rolled back to v${version}`);
+  }
+
+  private static getStoredVersions(): Record<string, PromptTemplateVersion[]> {
+    try {
+      const stored: Record<string, PromptTemplateVersion[]> = JSON.parse(localStorage.getItem(this.STORAGE_KEY) || '{}');
+      for (const id of Object.keys(stored)) {
+        stored[id] = stored[id].map(v => ({ ...v, createdAt: new Date(v.createdAt) }));
+      }
+      return stored;
+    } catch {
+      return {};
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import { AuthService } from './authService';
+import { errorFromStatus, parseRetryAfter, toLLMError } from '../utils/llm/errors';
+import type { ProxySession } from '../utils/llm/proxyProtocol';
+
+interface SavedSession extends ProxySession {
+  accountId: string | null; // Signed-in user the session was started for, so switching accounts starts afresh
+  baseUrl: string;
+}
+
+// Session tokens for the LLM proxy server, one per user and proxy URL.
+// Sessions are started with the proxy's access key. The server cannot check
+// accounts, which live in the browser, so it treats every session as a guest
+// and assigns its id.
+export class ProxySessionService {
+  private static readonly STORAGE_KEY = 'fortas_proxy_session';
+  // Renew this long before the server would start rejecting the token
+  private static readonly RENEW_MARGIN_MS = 60 * 1000;
+
+  static async getToken(baseUrl: string, accessKey: string | undefined, signal?: AbortSignal): Promise<string> {
+    const accountId = AuthService.getCurrentUser()?.id ?? null;
+    const saved = this.getSaved();
+    if (saved && saved.accountId === accountId && saved.baseUrl === baseUrl && saved.expiresAt - this.RENEW_MARGIN_MS > Date.now()) {
+      return saved.token;
+    }
+
+    const session = await this.requestSession(baseUrl, accessKey, signal);
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify({ ...session, accountId, baseUrl } satisfies SavedSession));
+    return session.token;
+  }
+
+  // Drop the saved token, e.g. after the server rejected it
+  static clear(): void {
+    localStorage.removeItem(this.STORAGE_KEY);
+  }
+
+  private static async requestSession(
+    baseUrl: string,
+    accessKey: string | undefined,
+    signal?: AbortSignal
+  ): Promise<ProxySession> {
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl.replace(/\/$/, '')}/api/session`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(accessKey && { Authorization: `Bearer ${accessKey}` })
+        },
+        body: '{}',
+        signal
+      });
+    } catch (error) {
+      throw toLLMError(error);
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw errorFromStatus(response.status, `Could not start a proxy session: [${response.status}] ${detail}`, parseRetryAfter(response.headers.get('Retry-After')));
+    }
+    return response.json();
+  }
+
+  private static getSaved(): SavedSession | null {
+    try {
+      return JSON.parse(localStorage.getItem(this.STORAGE_KEY) || 'null');
+    } catch {
+      return null;
+    }
+  }
+}
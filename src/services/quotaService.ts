@@ -0,0 +1,165 @@
+import type { MembershipTier, RateLimits, UploadLimits, UsageCounts, UsageMetric, UsageStatus } from '../types';
+import { UsageLimitError } from '../utils/llm/errors';
+
+const TIER_QUOTAS: Record<MembershipTier, UsageCounts> = {
+  Guest: { messages: 10, files: 0, tokens: 20_000 },
+  Free: { messages: 50, files: 0, tokens: 150_000 },
+  Premium: { messages: 500, files: 100, tokens: 2_000_000 }
+};
+
+const RATE_LIMITS: Record<MembershipTier, RateLimits> = {
+  Guest: { maxConcurrent: 1, requestsPerMinute: 4 },
+  Free: { maxConcurrent: 1, requestsPerMinute: 8 },
+  Premium: { maxConcurrent: 2, requestsPerMinute: 30 }
+};
+
+const NO_UPLOADS: UploadLimits = {
+  maxBytes: { image: 0, pdf: 0, spreadsheet: 0, word: 0, text: 0, email: 0, cad: 0 },
+  maxFilesPerMessage: 0
+};
+
+const UPLOAD_LIMITS: Record<MembershipTier, UploadLimits> = {
+  Guest: NO_UPLOADS,
+  Free: NO_UPLOADS,
+  // Long manuals are read page by page, so PDFs may be larger. Emails
+  // count their attachments, which are listed but not read.
+  Premium: {
+    maxBytes: {
+      image: 10 * 1024 * 1024,
+      pdf: 50 * 1024 * 1024,
+      spreadsheet: 10 * 1024 * 1024,
+      word: 20 * 1024 * 1024,
+      text: 5 * 1024 * 1024,
+      email: 25 * 1024 * 1024,
+      cad: 20 * 1024 * 1024
+    },
+    maxFilesPerMessage: 10
+  }
+};
+
+// File library size in bytes. Accounts that drop to a plan without uploads
+// keep their files but cannot add more.
+const STORAGE_QUOTAS: Record<MembershipTier, number> = {
+  Guest: 0,
+  Free: 0,
+  Premium: 500 * 1024 * 1024
+};
+
+const METRIC_LABELS: Record<UsageMetric, string> = {
+  messages: 'messages',
+  files: 'file uploads',
+  tokens: 'tokens'
+};
+
+interface DailyUsage extends UsageCounts {
+  date: string; // Local calendar day, YYYY-MM-DD
+}
+
+const EMPTY_USAGE: UsageCounts = { messages: 0, files: 0, tokens: 0 };
+
+const today = (): string => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+const nextMidnight = (): Date => {
+  const date = new Date();
+  date.setHours(24, 0, 0, 0);
+  return date;
+};
+
+// Daily allowances per membership tier, counted per user (guests share one
+// per-browser counter) and reset at local midnight
+export class QuotaService {
+  private static readonly STORAGE_KEY = 'fortas_usage';
+  private static listeners = new Set<() => void>();
+
+  // Key the usage of a signed-in user or of guest mode is stored under
+  static getUsageKey(userId?: string): string {
+    return userId ?? 'guest';
+  }
+
+  static getLimits(tier: MembershipTier): UsageCounts {
+    return TIER_QUOTAS[tier];
+  }
+
+  static getRateLimits(tier: MembershipTier): RateLimits {
+    return RATE_LIMITS[tier];
+  }
+
+  static getUploadLimits(tier: MembershipTier): UploadLimits {
+    return UPLOAD_LIMITS[tier];
+  }
+
+  static getStorageLimit(tier: MembershipTier): number {
+    return STORAGE_QUOTAS[tier];
+  }
+
+  static getStatus(usageKey: string, tier: MembershipTier): UsageStatus {
+    const used = this.getUsage(usageKey);
+    const limits = TIER_QUOTAS[tier];
+    const metrics = Object.keys(limits) as UsageMetric[];
+    return {
+      tier,
+      used,
+      limits,
+      // A zero allowance means "not in this plan", which the UI gates separately
+      exceeded: metrics.filter(metric => limits[metric] > 0 && used[metric] >= limits[metric]),
+      resetsAt: nextMidnight()
+    };
+  }
+
+  // Throw a UsageLimitError if a request needing these amounts would go over
+  // today's allowance
+  static check(usageKey: string, tier: MembershipTier, needed: Partial<UsageCounts>): void {
+    const { used, limits, resetsAt } = this.getStatus(usageKey, tier);
+    for (const metric of Object.keys(needed) as UsageMetric[]) {
+      const amount = needed[metric] ?? 0;
+      const remaining = limits[metric] - used[metric];
+      // Tokens are only known afterwards, so any allowance left admits a request
+      const fits = metric === 'tokens' ? remaining > 0 : amount <= remaining;
+      if (amount > 0 && !fits) {
+        throw new UsageLimitError(
+          limits[metric] === 0
+            ? `The ${tier} plan does not include ${METRIC_LABELS[metric]}.`
+            : `Daily limit of ${limits[metric].toLocaleString()} ${METRIC_LABELS[metric]} reached for the ${tier} plan.`,
+          metric,
+          resetsAt
+        );
+      }
+    }
+  }
+
+  static record(usageKey: string, amounts: Partial<UsageCounts>): void {
+    const all = this.getAllUsage();
+    const current = this.getUsage(usageKey);
+    all[usageKey] = {
+      date: today(),
+      messages: current.messages + (amounts.messages ?? 0),
+      files: current.files + (amounts.files ?? 0),
+      tokens: current.tokens + (amounts.tokens ?? 0)
+    };
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(all));
+    this.listeners.forEach(listener => listener());
+  }
+
+  // Called whenever usage is recorded, so meters can refresh
+  static subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private static getUsage(usageKey: string): UsageCounts {
+    const stored = this.getAllUsage()[usageKey];
+    if (!stored || stored.date !== today()) return { ...EMPTY_USAGE };
+    return { messages: stored.messages, files: stored.files, tokens: stored.tokens };
+  }
+
+  private static getAllUsage(): Record<string, DailyUsage> {
+    try {
+      return JSON.parse(localStorage.getItem(this.STORAGE_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  }
+}
@@ -0,0 +1,116 @@
+import type { FileUpload, GenerationSettings, MembershipTier, ResponseCacheEntry } from '../types';
+import { STORES, openDatabase, requestToPromise, transactionDone } from '../utils/indexedDb';
+import { sha256Hex } from '../utils/hash';
+
+export interface ResponseCacheKeyParts {
+  settings: GenerationSettings;
+  systemInstruction: string;
+  prompt: string;
+  role: string;
+  tier: MembershipTier;
+  files: FileUpload[];
+  // Earlier turns; the same question means something else mid-conversation
+  history: { role: string; content: string }[];
+}
+
+export class ResponseCacheService {
+  private static readonly TTL_MS = 7 * 24 * 60 * 60 * 1000;
+  private static readonly MAX_ENTRIES = 200;
+  private static readonly MAX_BYTES = 5 * 1024 * 1024;
+
+  static async buildKey(parts: ResponseCacheKeyParts): Promise<string> {
+    // Spreadsheets and PDFs send different text depending on the chosen sheets, rows or pages
+    const fileHashes = await Promise.all(parts.files.map(async file => {
+      const selection = file.spreadsheet ?? file.pdf;
+      return selection ? [await sha256Hex(file.content), selection] : sha256Hex(file.content);
+    }));
+    const { model, temperature, topP, topK, maxOutputTokens } = parts.settings;
+    return sha256Hex(JSON.stringify({
+      settings: [model, temperature, topP, topK, maxOutputTokens],
+      systemInstruction: parts.systemInstruction,
+      prompt: parts.prompt.trim(),
+      role: parts.role,
+      tier: parts.tier,
+      files: fileHashes,
+      history: parts.history
+    }));
+  }
+
+  // Look up a live entry and mark it as recently used. Cache failures are
+  // never fatal; the caller just goes to the model instead.
+  static async get(key: string): Promise<ResponseCacheEntry | null> {
+    try {
+      const db = await openDatabase();
+      const tx = db.transaction(STORES.responseCache, 'readwrite');
+      const store = tx.objectStore(STORES.responseCache);
+      const entry: ResponseCacheEntry | undefined = await requestToPromise(store.get(key));
+
+      if (!entry) return null;
+      if (Date.now() - entry.createdAt > this.TTL_MS) {
+        store.delete(key);
+        await transactionDone(tx);
+        return null;
+      }
+
+      store.put({ ...entry, lastAccessed: Date.now() });
+      await transactionDone(tx);
+      return entry;
+    } catch (error) {
+      console.warn('Response cache lookup failed:', error);
+      return null;
+    }
+  }
+
+  static async set(key: string, value: Pick<ResponseCacheEntry, 'content' | 'structured' | 'toolCalls' | 'promptTemplate' | 'citations'>): Promise<void> {
+    try {
+      const now = Date.now();
+      const entry: ResponseCacheEntry = {
+        key,
+        ...value,
+        createdAt: now,
+        lastAccessed: now,
+        size: new Blob([JSON.stringify(value)]).size
+      };
+      if (entry.size > this.MAX_BYTES) return;
+
+      const db = await openDatabase();
+      const tx = db.transaction(STORES.responseCache, 'readwrite');
+      tx.objectStore(STORES.responseCache).put(entry);
+      await transactionDone(tx);
+      await this.evict();
+    } catch (error) {
+      console.warn('Response cache write failed:', error);
+    }
+  }
+
+  static async clear(): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.responseCache, 'readwrite');
+    tx.objectStore(STORES.responseCache).clear();
+    await transactionDone(tx);
+  }
+
+  // Drop expired entries, then least recently used ones until the cache is
+  // back under its entry and size limits
+  private static async evict(): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORES.responseCache, 'readwrite');
+    const store = tx.objectStore(STORES.responseCache);
+    const entries: ResponseCacheEntry[] = await requestToPromise(store.index('lastAccessed').getAll());
+
+    const now = Date.now();
+    let count = entries.length;
+    let bytes = entries.reduce((total, entry) => total + entry.size, 0);
+
+    // Oldest access first
+    for (const entry of entries) {
+      const expired = now - entry.createdAt > this.TTL_MS;
+      if (!expired && count <= this.MAX_ENTRIES && bytes <= this.MAX_BYTES) continue;
+      store.delete(entry.key);
+      count--;
+      bytes -= entry.size;
+    }
+
+    await transactionDone(tx);
+  }
+}
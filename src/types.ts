@@ -4,15 +4,85 @@ export interface Message {
   content: string;
   timestamp: Date;
   files?: FileUpload[];
+  structured?: StructuredAnswer; // Typed five-section answer (guest format)
+  toolCalls?: ToolCallRecord[]; // Engineering calculations run while answering
+  promptTemplate?: PromptTemplateRef; // Template version that produced this answer
+  cachedAt?: Date; // Served from the local response cache; when it was first generated
+  generationSettings?: AppliedGenerationSettings; // Model settings the answer was generated with
+  responseMeta?: LLMResponseMetadata; // Finish reason, safety ratings and token usage
+  resumeFrom?: string; // Raw model output of an answer cut off at the token limit, for "continue"
+  citations?: Citation[]; // Knowledge base passages the answer cites as [n]
+  panel?: PanelExpertAnswer[]; // Per-role answers of an expert panel; content holds the consolidated recommendation
+  followUps?: string[]; // Suggested next questions, shown as chips
+  variants?: AnswerVariant[]; // Alternative answers; the active one is mirrored in the fields above
+  activeVariant?: number; // Index into variants
+  isStreaming?: boolean; // Assistant text is still arriving
+  stopped?: boolean; // Generation was stopped or failed part-way; content is partial
+}
+
+// The parts of an assistant message that make up one answer
+export type AnswerFields = Pick<Message,
+  'content' | 'timestamp' | 'structured' | 'toolCalls' | 'promptTemplate' | 'cachedAt' |
+  'generationSettings' | 'responseMeta' | 'resumeFrom' | 'citations' | 'panel' | 'followUps' | 'stopped'>;
+
+// One of several answers generated for the same question
+export interface AnswerVariant extends AnswerFields {
+  id: string;
+  role?: UserRole | 'General AI'; // Expertise the variant was generated with
+}
+
+// One expert's answer in a panel consultation
+export interface PanelExpertAnswer {
+  role: UserRole;
+  content: string;
+  structured?: StructuredAnswer;
+  citations?: Citation[];
+  error?: string; // The expert could not answer; the others still count
+  isStreaming?: boolean;
+}
+
+// One message in a conversation tree. Editing an earlier question adds a
+// sibling under the same parent, so every edit starts a new branch.
+export interface MessageNode {
+  message: Message;
+  parentId: string | null; // null for the first question of a branch
+  childIds: string[]; // Oldest first
+}
+
+// All branches of a conversation and the one being shown
+export interface MessageTree {
+  nodes: Record<string, MessageNode>;
+  rootIds: string[]; // Versions of the first question, oldest first
+  activePath: string[]; // Message ids from the root to the shown leaf
+}
+
+// Five-section answer returned through a response schema
+export interface StructuredAnswer {
+  problem: string;
+  analysis: string[];
+  recommendations: string[];
+  compliance: string[]; // Empty when no compliance notes apply
+  cost: string[];
+}
+
+// One local calculator run requested by the model, kept for auditing
+export interface ToolCallRecord {
+  id: string;
+  name: string;
+  label: string; // Human-readable calculator name
+  args: Record<string, unknown>;
+  result?: Record<string, unknown>;
+  error?: string;
 }
 
 export type UserRole = 'Operations' | 'Project Management' | 'Sales & Marketing' | 'Procurement' | 'Erection & Commissioning' | 'Engineering & Design';
 
 export interface ChatState {
-  messages: Message[];
+  tree: MessageTree;
   isLoading: boolean;
   selectedRole: UserRole | 'General AI';
-  uploadedFiles?: FileUpload[];
+  panelRoles: UserRole[]; // Expert panel mode when not empty: every listed role answers
+  uploadedFiles: FileUpload[];
 }
 
 export interface User {
@@ -26,6 +96,10 @@ export interface User {
   preferredRole?: UserRole | 'General AI';
   profilePicture?: string;
   lastLoginDate?: Date;
+  plantProfile?: string; // Free-text description of the user's plant, fed into prompts
+  units?: 'metric' | 'imperial';
+  language?: string;
+  settings?: UserSettings;
   activityStats?: {
     totalChats: number;
     filesUploaded: number;
@@ -50,10 +124,13 @@ export interface AuthState {
 export interface ChatHistory {
   id: string;
   title: string;
-  messages: Message[];
+  tree: MessageTree;
   role: UserRole | 'General AI';
   createdAt: Date;
   lastUpdated: Date;
+  summary?: string; // Generated 2-3 sentence overview, shown on hover
+  summarizedExchanges?: number; // Question/answer pairs the title and summary were generated from
+  titleIsCustom?: boolean; // Renamed by the user; generated titles no longer replace it
 }
 
 export interface ChatHistoryState {
@@ -67,9 +144,69 @@ export interface FileUpload {
   name: string;
   type: string;
   size: number;
-  content: string | ArrayBuffer;
-  url?: string;
+  content: string | ArrayBuffer; // Empty in saved chats once the file is in the library
+  libraryId?: string; // The file library entry holding the bytes
   uploadDate: Date;
+  spreadsheet?: SpreadsheetOptions; // Spreadsheets: what is sent to the model
+  pdf?: PdfPageSelection; // PDFs: the pages answers may draw on
+  markup?: ImageMarkup; // Images: crop, rotation and annotations baked into content
+}
+
+// Point as fractions (0-1) of the original photo's width and height
+export interface MarkupPoint {
+  x: number;
+  y: number;
+}
+
+export type ImageAnnotation =
+  | { kind: 'arrow'; from: MarkupPoint; to: MarkupPoint; color: string }
+  | { kind: 'circle'; from: MarkupPoint; to: MarkupPoint; color: string } // Ellipse in this bounding box
+  | { kind: 'freehand'; points: MarkupPoint[]; color: string }
+  | { kind: 'text'; at: MarkupPoint; text: string; color: string };
+
+// Edits to a photo, all in the original photo's coordinates so they can be
+// changed again until the message is sent
+export interface ImageMarkup {
+  original?: string; // Data URL of the unedited photo; not kept in saved chats
+  rotation: 0 | 90 | 180 | 270; // Clockwise
+  crop?: { from: MarkupPoint; to: MarkupPoint };
+  annotations: ImageAnnotation[];
+}
+
+// A file in a user's library, stored once per distinct content
+export interface LibraryFile {
+  id: string;
+  userId: string;
+  contentHash: string;
+  name: string;
+  type: string;
+  size: number;
+  addedAt: Date;
+  lastUsedAt: Date; // Last uploaded or attached to a message
+}
+
+export interface PdfPageSelection {
+  pageCount: number;
+  pages: number[]; // 1-based, ascending
+}
+
+// How a row sample is taken from each selected sheet
+export type SpreadsheetSampling =
+  | 'all'
+  | 'head' // The first sampleSize rows
+  | 'even' // sampleSize rows spread evenly over the sheet
+  | 'summary'; // Column statistics only, no rows
+
+export interface SpreadsheetSheetOptions {
+  name: string;
+  firstColumn: number; // 0-based, inclusive
+  lastColumn: number;
+}
+
+export interface SpreadsheetOptions {
+  sheets: SpreadsheetSheetOptions[]; // Selected sheets with their column ranges
+  sampling: SpreadsheetSampling;
+  sampleSize: number;
 }
 
 export interface UserProfile {
@@ -82,16 +219,48 @@ export interface UserProfile {
   profilePicture?: string;
   registrationDate: Date;
   lastLoginDate?: Date;
+  plantProfile?: string;
+  units?: 'metric' | 'imperial';
+  language?: string;
   activityStats: {
     totalChats: number;
     filesUploaded: number;
     reportsGenerated: number;
   };
-  settings: {
-    autoLogout: boolean;
-    rememberMe: boolean;
-    notifications: boolean;
-  };
+  settings: UserSettings;
+}
+
+export interface UserSettings {
+  autoLogout: boolean;
+  rememberMe: boolean;
+  notifications: boolean;
+  generation?: Partial<GenerationSettings>; // Per-user overrides, clamped to the tier caps
+  followUpSuggestions?: boolean; // Suggested follow-up questions under answers; on unless false
+}
+
+export type MembershipTier = 'Guest' | User['membershipType'];
+
+// Model settings for one request
+export interface GenerationSettings {
+  model: string;
+  temperature: number;
+  topP: number;
+  topK: number;
+  maxOutputTokens: number;
+}
+
+// Upper bounds for a membership tier
+export interface GenerationSettingsCaps {
+  maxTemperature: number;
+  maxOutputTokens: number;
+  allowOverrides: boolean; // Whether per-user overrides are honoured at all
+  allowModelOverride: boolean;
+}
+
+export interface AppliedGenerationSettings extends GenerationSettings {
+  tier: MembershipTier;
+  overridden?: (keyof GenerationSettings)[]; // Taken from the user's own overrides
+  capped?: (keyof GenerationSettings)[]; // Reduced to fit the tier caps
 }
 
 export interface PasswordResetData {
@@ -110,4 +279,227 @@ export interface RegisterData {
 export interface LoginData {
   emailOrMobile: string;
   password: string;
-}
\ No newline at end of file
+  rememberMe?: boolean;
+}
+// LLM provider layer
+export type LLMProviderName = 'gemini' | 'openai-compatible' | 'proxy' | 'mock';
+
+export interface LLMFunctionCall {
+  id?: string; // Call id for providers that pair calls with responses (OpenAI)
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface LLMFunctionResponse {
+  id?: string;
+  name: string;
+  response: Record<string, unknown>;
+}
+
+export interface LLMPart {
+  text?: string;
+  inlineData?: {
+    data: string; // base64 without the data: prefix
+    mimeType: string;
+  };
+  functionCall?: LLMFunctionCall; // Only in model turns
+  functionResponse?: LLMFunctionResponse; // Only in user turns, answering a functionCall
+}
+
+export interface LLMToolDeclaration {
+  name: string;
+  description: string;
+  parameters: LLMSchema;
+}
+
+export interface LLMContent {
+  role: 'user' | 'model';
+  parts: LLMPart[];
+}
+
+export interface LLMGenerationConfig {
+  temperature: number;
+  topP: number;
+  topK?: number;
+  maxOutputTokens: number;
+}
+
+// JSON schema subset understood by all providers (OpenAPI types, as used by Gemini)
+export interface LLMSchema {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  description?: string;
+  properties?: Record<string, LLMSchema>;
+  required?: string[];
+  items?: LLMSchema;
+  enum?: string[];
+}
+
+export interface LLMRequest {
+  model: string;
+  systemInstruction: string;
+  contents: LLMContent[]; // Whole conversation; the last entry is the new user turn
+  generationConfig: LLMGenerationConfig;
+  responseSchema?: LLMSchema; // When set the provider must answer with JSON matching it
+  tools?: LLMToolDeclaration[]; // Functions the model may call instead of answering
+  role?: UserRole | 'General AI'; // Hint for providers that tailor output per role (mock)
+  signal?: AbortSignal;
+}
+
+// Why the model stopped, normalised across providers
+export type LLMFinishReason = 'stop' | 'max_tokens' | 'safety' | 'recitation' | 'tool_calls' | 'other';
+
+export interface LLMSafetyRating {
+  category: string; // Provider category id, e.g. HARM_CATEGORY_DANGEROUS_CONTENT
+  probability: string; // NEGLIGIBLE | LOW | MEDIUM | HIGH
+  blocked?: boolean;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMResponseMetadata {
+  finishReason?: LLMFinishReason;
+  safetyRatings?: LLMSafetyRating[];
+  usage?: LLMUsage;
+}
+
+export interface LLMResponse extends LLMResponseMetadata {
+  text: string;
+  functionCalls?: LLMFunctionCall[]; // Set when the model wants tools run before it answers
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  generate(request: LLMRequest): Promise<LLMResponse>;
+  // onChunk receives each new piece of text as it arrives
+  stream(request: LLMRequest, onChunk: (delta: string) => void): Promise<LLMResponse>;
+  countTokens(request: LLMRequest): Promise<number>;
+  attachFile(file: FileUpload): Promise<LLMPart>;
+}
+
+export interface LLMProviderConfig {
+  provider: LLMProviderName;
+  model: string;
+  apiKey?: string; // Provider key, or the proxy's access key
+  baseUrl?: string; // OpenAI-compatible endpoint (e.g. http://localhost:11434/v1) or proxy server URL
+}
+
+// Prompt template registry
+export interface PromptTemplateVersion {
+  version: number;
+  body: string;
+  createdAt: Date;
+  author: string;
+  note?: string;
+}
+
+export interface PromptTemplate {
+  id: string; // e.g. 'guest/operations' or 'fragment/branding'
+  name: string;
+  description: string;
+  kind: 'persona' | 'fragment';
+  versions: PromptTemplateVersion[]; // Oldest first; the last entry is live
+}
+
+export interface PromptTemplateRef {
+  id: string;
+  version: number;
+  fragments?: Record<string, number>; // Fragment id -> version inlined at render time
+}
+
+export interface PromptVariables {
+  userName: string;
+  plantProfile: string;
+  units: string;
+  language: string;
+}
+
+// Local response cache
+export interface ResponseCacheEntry {
+  key: string;
+  content: string;
+  structured?: StructuredAnswer;
+  toolCalls?: ToolCallRecord[];
+  promptTemplate?: PromptTemplateRef;
+  citations?: Citation[];
+  createdAt: number; // Epoch ms
+  lastAccessed: number; // Epoch ms, drives LRU eviction
+  size: number; // Approximate bytes
+}
+
+// Document knowledge base
+export interface KnowledgeDocument {
+  id: string;
+  userId: string;
+  name: string;
+  type: string;
+  size: number;
+  contentHash: string; // SHA-256 of the file, so re-uploads are recognised
+  pageCount: number;
+  chunkCount: number;
+  roles: (UserRole | 'General AI')[]; // Roles whose questions may use it; empty means all
+  embeddingModel?: string; // Set when chunks carry vectors from this model
+  addedAt: Date;
+}
+
+export interface KnowledgeChunk {
+  id: string;
+  documentId: string;
+  userId: string;
+  page: number; // 1-based
+  text: string;
+  embedding?: number[];
+}
+
+// A chunk picked for a question, with its score from the retriever
+export interface RetrievedPassage {
+  chunk: KnowledgeChunk;
+  document: KnowledgeDocument;
+  score: number;
+}
+
+export interface Citation {
+  number: number; // The [n] marker used in the answer
+  documentId: string;
+  documentName: string;
+  page: number;
+  chunkId: string;
+  snippet: string;
+}
+
+// Turns text into vectors for semantic retrieval. Implementations are
+// swappable; without one the knowledge base falls back to BM25.
+export interface EmbeddingProvider {
+  readonly model: string;
+  // Some models embed questions and passages differently
+  embed(texts: string[], purpose: 'document' | 'query', signal?: AbortSignal): Promise<number[][]>;
+}
+
+// Usage quotas
+export type UsageMetric = 'messages' | 'files' | 'tokens';
+
+export type UsageCounts = Record<UsageMetric, number>;
+
+export interface RateLimits {
+  maxConcurrent: number; // Model requests in flight at once
+  requestsPerMinute: number;
+}
+
+// Kinds of file that can be attached to a message
+export type AttachmentKind = 'image' | 'pdf' | 'spreadsheet' | 'word' | 'text' | 'email' | 'cad';
+
+export interface UploadLimits {
+  maxBytes: Record<AttachmentKind, number>; // Per file; 0 means the kind is not allowed
+  maxFilesPerMessage: number;
+}
+
+export interface UsageStatus {
+  tier: MembershipTier;
+  used: UsageCounts; // Today so far
+  limits: UsageCounts; // Daily allowance; 0 means the tier has no access
+  exceeded: UsageMetric[]; // Allowances used up for today
+  resetsAt: Date; // Next local midnight
+}
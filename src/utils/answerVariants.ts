@@ -0,0 +1,59 @@
+import type { AnswerFields, AnswerVariant, Message, PanelExpertAnswer, UserRole } from '../types';
+
+// Options for generating another variant of an answer
+export interface RegenerateOptions {
+  role?: UserRole | 'General AI'; // Defaults to the chat's current role
+  temperature?: number; // Overrides the resolved temperature (still capped by tier)
+}
+
+const ANSWER_FIELDS: (keyof AnswerFields)[] = [
+  'content', 'timestamp', 'structured', 'toolCalls', 'promptTemplate', 'cachedAt',
+  'generationSettings', 'responseMeta', 'resumeFrom', 'citations', 'panel', 'followUps', 'stopped'
+];
+
+const pickAnswer = (source: AnswerFields): AnswerFields =>
+  Object.fromEntries(ANSWER_FIELDS.map(field => [field, source[field]])) as AnswerFields;
+
+// The message's variants, seeding the list with its current answer
+export const getVariants = (message: Message): AnswerVariant[] =>
+  message.variants?.length ? message.variants : [{ id: `${message.id}_v0`, ...pickAnswer(message) }];
+
+export const getActiveVariantIndex = (message: Message): number =>
+  Math.min(message.activeVariant ?? 0, getVariants(message).length - 1);
+
+// Make variant `index` the message's answer. The top-level fields always
+// hold the active variant, so history, context and rendering need no changes.
+export const selectVariant = (message: Message, index: number): Message => {
+  const variants = getVariants(message);
+  return { ...message, ...pickAnswer(variants[index]), variants, activeVariant: index };
+};
+
+// Copy the top-level answer back into the active variant after an update
+export const syncActiveVariant = (message: Message): Message => {
+  if (!message.variants?.length) return message;
+  const index = getActiveVariantIndex(message);
+  const variants = message.variants.map((variant, i) => (i === index ? { ...variant, ...pickAnswer(message) } : variant));
+  return { ...message, variants };
+};
+
+// Add an empty variant and make it active, ready to stream into
+export const startVariant = (message: Message, role?: UserRole | 'General AI'): Message => {
+  const variants = getVariants(message);
+  const variant: AnswerVariant = { id: `${message.id}_v${Date.now()}`, role, content: '', timestamp: new Date() };
+  return { ...selectVariant({ ...message, variants: [...variants, variant] }, variants.length), isStreaming: true };
+};
+
+// Remove the active variant (one that produced nothing) and show `fallback`
+// instead, by default the variant before it
+export const dropActiveVariant = (message: Message, fallback?: number): Message => {
+  const variants = getVariants(message);
+  const index = getActiveVariantIndex(message);
+  const remaining = variants.filter((_, i) => i !== index);
+  if (remaining.length === 0) return message;
+  const next = Math.min(fallback ?? index - 1, remaining.length - 1);
+  return { ...selectVariant({ ...message, variants: remaining }, Math.max(0, next)), isStreaming: false };
+};
+
+// Whether an answer has any text yet, counting each expert of a panel
+export const hasAnswerText = (answer: { content: string; panel?: PanelExpertAnswer[] }): boolean =>
+  !!answer.content.trim() || !!answer.panel?.some(expert => expert.content.trim());
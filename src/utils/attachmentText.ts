@@ -0,0 +1,98 @@
+import type { AttachmentKind, FileUpload } from '../types';
+import { fileToBytes } from './documentText';
+import { attachmentKind } from './fileValidation';
+import { decodeText, tidyText } from './extractors/textDecoding';
+import { extractDocxText } from './extractors/docx';
+import { extractEmailText } from './extractors/email';
+import { extractDxfText } from './extractors/dxf';
+
+export interface ExtractedAttachment {
+  text: string; // What the model is sent, before clipping
+  summary: string; // A few words on the content, e.g. "12 paragraphs, 2 tables"
+}
+
+export class AttachmentTextError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AttachmentTextError';
+  }
+}
+
+// Attachments whose text is extracted here and sent in place of the file
+type TextAttachmentKind = Extract<AttachmentKind, 'word' | 'text' | 'email' | 'cad'>;
+
+// Extracted text sent per file (~15k tokens, as for whole PDFs); longer text
+// keeps its start and end, where logs have their newest entries
+export const MAX_ATTACHMENT_CHARS = 60_000;
+// Extracted files kept for the preview and for later turns
+const CACHE_SIZE = 5;
+
+const KIND_NAMES: Record<TextAttachmentKind, string> = {
+  word: 'Word document',
+  text: 'text file',
+  email: 'email',
+  cad: 'DXF drawing'
+};
+
+export const isTextAttachment = (file: Pick<FileUpload, 'name' | 'type'>): boolean => {
+  const kind = attachmentKind(file);
+  return kind !== null && kind in KIND_NAMES;
+};
+
+const extractPlainText = async (bytes: Uint8Array): Promise<ExtractedAttachment> => {
+  const text = tidyText(decodeText(bytes));
+  const lines = text ? text.split('\n').length : 0;
+  return { text, summary: `${lines} line${lines === 1 ? '' : 's'}` };
+};
+
+const EXTRACTORS: Record<TextAttachmentKind, (bytes: Uint8Array) => Promise<ExtractedAttachment>> = {
+  word: extractDocxText,
+  text: extractPlainText,
+  email: extractEmailText,
+  cad: extractDxfText
+};
+
+const cache = new Map<string, Promise<ExtractedAttachment>>();
+
+// Text of a Word, text, email or DXF attachment, cached by file id
+export const extractAttachmentText = (file: FileUpload): Promise<ExtractedAttachment> => {
+  const cached = cache.get(file.id);
+  if (cached) return cached;
+
+  const kind = attachmentKind(file) as TextAttachmentKind;
+  const extracted = (async () => {
+    if (!(kind in EXTRACTORS)) throw new AttachmentTextError(`${file.name}: text cannot be extracted from this file type.`);
+    try {
+      return await EXTRACTORS[kind](fileToBytes(file));
+    } catch (error) {
+      throw new AttachmentTextError(
+        `${file.name}: could not read the ${KIND_NAMES[kind]} (${error instanceof Error ? error.message : 'unknown error'}).`
+      );
+    }
+  })().catch(error => {
+    cache.delete(file.id);
+    throw error;
+  });
+  cache.set(file.id, extracted);
+  if (cache.size > CACHE_SIZE) {
+    cache.delete(cache.keys().next().value as string);
+  }
+  return extracted;
+};
+
+// Text cut down to MAX_ATTACHMENT_CHARS, keeping whole lines from the start
+// and the end. omittedLines is 0 when it fit.
+export const clipAttachmentText = (text: string): { text: string; omittedLines: number } => {
+  if (text.length <= MAX_ATTACHMENT_CHARS) return { text, omittedLines: 0 };
+
+  const half = MAX_ATTACHMENT_CHARS / 2;
+  const headEnd = text.lastIndexOf('\n', half);
+  const tailStart = text.indexOf('\n', text.length - half);
+  const head = text.slice(0, headEnd > 0 ? headEnd : half);
+  const tail = text.slice(tailStart > 0 ? tailStart + 1 : text.length - half);
+  const omittedLines = text.slice(head.length, text.length - tail.length).split('\n').length - 1 || 1;
+  return { text: `${head}\n[... ${omittedLines} lines omitted ...]\n${tail}`, omittedLines };
+};
+
+export const textAttachmentKindName = (file: Pick<FileUpload, 'name' | 'type'>): string =>
+  KIND_NAMES[attachmentKind(file) as TextAttachmentKind] ?? 'file';
@@ -0,0 +1,91 @@
+import type { ChatHistory, LLMRequest, LLMSchema, MembershipTier, Message } from '../types';
+import { ModelSettingsService } from '../services/modelSettingsService';
+import { EmptyResponseError } from './llm/errors';
+import { requestJson } from './llm/jsonRequest';
+import { CHAT_SUMMARY_INSTRUCTION, buildChatSummaryPrompt } from './llm/prompts';
+import { tokenize } from './knowledge/bm25';
+
+export interface ChatSummary {
+  title: string;
+  summary: string;
+}
+
+const CHAT_SUMMARY_SCHEMA: LLMSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', description: 'Specific title of at most 6 words' },
+    summary: { type: 'string', description: '2-3 sentences on what was asked and recommended' }
+  },
+  required: ['title', 'summary']
+};
+
+const MAX_TITLE_LENGTH = 60;
+// Most recent messages sent to the summarizer
+const MAX_MESSAGES = 12;
+const MAX_OUTPUT_TOKENS = 300;
+// A summary is only refreshed after this many new exchanges...
+const DRIFT_MIN_NEW_EXCHANGES = 2;
+// ...and only when fewer than this share of the new questions' terms
+// appear in the current title and summary
+const DRIFT_MAX_OVERLAP = 0.25;
+
+// Question/answer pairs that produced an answer
+export const countExchanges = (messages: Message[]): number =>
+  messages.filter(m => m.role === 'assistant' && m.content.trim()).length;
+
+// Summarize after the first exchange, then again once the conversation has
+// moved on to something the title and summary no longer cover
+export const needsSummary = (history: ChatHistory, messages: Message[]): boolean => {
+  const exchanges = countExchanges(messages);
+  if (exchanges === 0) return false;
+  if (!history.summary) return true;
+
+  const covered = history.summarizedExchanges ?? 0;
+  if (exchanges - covered < DRIFT_MIN_NEW_EXCHANGES) return false;
+
+  const newQuestions = messages.filter(m => m.role === 'user').slice(covered);
+  const terms = tokenize(newQuestions.map(m => m.content).join(' '));
+  if (terms.length === 0) return false;
+  const known = new Set(tokenize(`${history.title} ${history.summary}`));
+  return terms.filter(term => known.has(term)).length / terms.length < DRIFT_MAX_OVERLAP;
+};
+
+const parseChatSummary = (parsed: unknown): ChatSummary => {
+  const { title, summary } = (parsed ?? {}) as Partial<Record<keyof ChatSummary, unknown>>;
+  if (typeof title !== 'string' || typeof summary !== 'string' || !title.trim() || !summary.trim()) {
+    throw new EmptyResponseError('The model did not return a chat title and summary.');
+  }
+  const cleanTitle = title.trim().replace(/^["']|["'.]$/g, '');
+  return {
+    title: cleanTitle.length > MAX_TITLE_LENGTH ? `${cleanTitle.slice(0, MAX_TITLE_LENGTH - 3)}...` : cleanTitle,
+    summary: summary.trim()
+  };
+};
+
+// Ask the model for a title and summary of the conversation
+export const generateChatSummary = async (
+  messages: Message[],
+  tier: MembershipTier,
+  usageKey: string,
+  signal?: AbortSignal
+): Promise<ChatSummary> => {
+  const settings = ModelSettingsService.resolve('General AI', tier);
+  const request: LLMRequest = {
+    model: settings.model,
+    systemInstruction: CHAT_SUMMARY_INSTRUCTION,
+    contents: [{
+      role: 'user',
+      parts: [{ text: buildChatSummaryPrompt(messages.slice(-MAX_MESSAGES).map(m => ({ role: m.role, content: m.content }))) }]
+    }],
+    generationConfig: {
+      temperature: 0.2,
+      topP: settings.topP,
+      topK: settings.topK,
+      maxOutputTokens: MAX_OUTPUT_TOKENS
+    },
+    responseSchema: CHAT_SUMMARY_SCHEMA,
+    signal
+  };
+
+  return parseChatSummary(await requestJson(request, tier, usageKey));
+};
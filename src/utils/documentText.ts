@@ -0,0 +1,112 @@
+import type { FileUpload } from '../types';
+import { fileToBase64 } from './llm/fileData';
+
+export interface DocumentPage {
+  page: number; // 1-based
+  text: string;
+}
+
+export class DocumentTextError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DocumentTextError';
+  }
+}
+
+const TEXT_TYPES = ['text/plain', 'text/csv', 'text/markdown'];
+const TEXT_EXTENSIONS = /\.(txt|csv|md)$/i;
+
+// File types whose text can be extracted locally
+export const canExtractText = (file: Pick<FileUpload, 'name' | 'type'>): boolean =>
+  file.type === 'application/pdf' || TEXT_TYPES.includes(file.type) || TEXT_EXTENSIONS.test(file.name);
+
+// Raw bytes of an uploaded file (uploads are usually data URLs). Buffers are
+// copied because pdf.js transfers, and so empties, the one it is given.
+export const fileToBytes = (file: FileUpload): Uint8Array => {
+  if (typeof file.content !== 'string') return new Uint8Array(file.content.slice(0));
+  const binary = atob(fileToBase64(file));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+// pdf.js is large, so it is only loaded the first time a PDF is read
+const loadPdfJs = async () => {
+  const [pdfjs, worker] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url')
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+  return pdfjs;
+};
+
+const extractPdfPages = async (bytes: Uint8Array): Promise<DocumentPage[]> => {
+  const pdfjs = await loadPdfJs();
+  const pdf = await pdfjs.getDocument({ data: bytes }).promise;
+  try {
+    const pages: DocumentPage[] = [];
+    for (let number = 1; number <= pdf.numPages; number++) {
+      const page = await pdf.getPage(number);
+      const content = await page.getTextContent();
+      // Text items carry their own end-of-line flag; keep lines so
+      // chunking can break on them
+      const text = content.items
+        .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+        .join('')
+        .replace(/[ \t]+/g, ' ')
+        .trim();
+      pages.push({ page: number, text });
+    }
+    return pages;
+  } finally {
+    void pdf.destroy();
+  }
+};
+
+// Render pages to JPEG data URLs `width` pixels wide, one at a time, handing
+// each to onPage as soon as it is ready. Used for page thumbnails and to send
+// scanned pages (no text layer) as images.
+export const renderPdfPages = async (
+  file: FileUpload,
+  pages: number[],
+  width: number,
+  onPage: (page: number, dataUrl: string) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  const pdfjs = await loadPdfJs();
+  const pdf = await pdfjs.getDocument({ data: fileToBytes(file) }).promise;
+  try {
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d');
+    if (!context) throw new DocumentTextError('Canvas rendering is not available in this browser.');
+
+    for (const number of pages) {
+      if (signal?.aborted) return;
+      const page = await pdf.getPage(number);
+      const viewport = page.getViewport({ scale: width / page.getViewport({ scale: 1 }).width });
+      canvas.width = Math.round(viewport.width);
+      canvas.height = Math.round(viewport.height);
+      await page.render({ canvasContext: context, viewport }).promise;
+      onPage(number, canvas.toDataURL('image/jpeg', 0.75));
+      page.cleanup();
+    }
+  } finally {
+    void pdf.destroy();
+  }
+};
+
+// Plain text of each page. Text files count as a single page; scanned PDFs
+// without a text layer come back with empty pages.
+export const extractDocumentPages = async (file: FileUpload): Promise<DocumentPage[]> => {
+  if (!canExtractText(file)) {
+    throw new DocumentTextError(`${file.name}: only PDF and text files can be added to the knowledge base.`);
+  }
+
+  const bytes = fileToBytes(file);
+  if (file.type === 'application/pdf') {
+    try {
+      return await extractPdfPages(bytes);
+    } catch (error) {
+      throw new DocumentTextError(`${file.name}: could not read the PDF (${error instanceof Error ? error.message : 'unknown error'}).`);
+    }
+  }
+  return [{ page: 1, text: new TextDecoder().decode(bytes).trim() }];
+};
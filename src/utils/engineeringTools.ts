@@ -0,0 +1,316 @@
+import type { LLMFunctionCall, LLMToolDeclaration, ToolCallRecord } from '../types';
+
+const G = 9.80665; // m/s²
+
+// Standard IEC motor ratings in kW, used to pick the next size up
+const IEC_MOTOR_RATINGS_KW = [
+  0.37, 0.55, 0.75, 1.1, 1.5, 2.2, 3, 4, 5.5, 7.5, 11, 15, 18.5, 22, 30, 37, 45, 55, 75, 90,
+  110, 132, 160, 200, 250, 315, 355, 400, 450, 500, 560, 630, 710, 800, 900, 1000
+];
+
+class ToolInputError extends Error {}
+
+const round = (value: number, digits = 3) => Number(value.toPrecision(digits + 2));
+
+const num = (args: Record<string, unknown>, key: string, fallback?: number): number => {
+  const raw = args[key] ?? fallback;
+  const value = typeof raw === 'string' ? Number(raw) : raw;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new ToolInputError(`"${key}" must be a number`);
+  }
+  return value;
+};
+
+const positive = (args: Record<string, unknown>, key: string, fallback?: number): number => {
+  const value = num(args, key, fallback);
+  if (value <= 0) throw new ToolInputError(`"${key}" must be greater than zero`);
+  return value;
+};
+
+const fraction = (args: Record<string, unknown>, key: string, fallback: number): number => {
+  const value = positive(args, key, fallback);
+  // Accept percentages as well as fractions
+  const result = value > 1 ? value / 100 : value;
+  if (result > 1) throw new ToolInputError(`"${key}" must be between 0 and 1 (or 0-100 %)`);
+  return result;
+};
+
+type ToolResult = Record<string, number | string>;
+
+interface EngineeringTool {
+  label: string;
+  declaration: LLMToolDeclaration;
+  run: (args: Record<string, unknown>) => ToolResult;
+}
+
+const hydraulicPower: EngineeringTool = {
+  label: 'Pump hydraulic power & motor sizing',
+  declaration: {
+    name: 'hydraulic_power',
+    description: 'Pump hydraulic power, shaft power, motor input power and recommended IEC motor rating from flow and total head.',
+    parameters: {
+      type: 'object',
+      properties: {
+        flow_m3h: { type: 'number', description: 'Volumetric flow rate in m³/h' },
+        head_m: { type: 'number', description: 'Total dynamic head in metres' },
+        density_kgm3: { type: 'number', description: 'Fluid density in kg/m³ (default 1000)' },
+        pump_efficiency: { type: 'number', description: 'Pump efficiency as a fraction (default 0.75)' },
+        motor_efficiency: { type: 'number', description: 'Motor efficiency as a fraction (default 0.95)' },
+        service_factor: { type: 'number', description: 'Motor sizing margin over shaft power (default 1.15)' }
+      },
+      required: ['flow_m3h', 'head_m']
+    }
+  },
+  run: (args) => {
+    const flow = positive(args, 'flow_m3h');
+    const head = positive(args, 'head_m');
+    const density = positive(args, 'density_kgm3', 1000);
+    const pumpEff = fraction(args, 'pump_efficiency', 0.75);
+    const motorEff = fraction(args, 'motor_efficiency', 0.95);
+    const serviceFactor = positive(args, 'service_factor', 1.15);
+
+    const hydraulicKw = (density * G * (flow / 3600) * head) / 1000;
+    const shaftKw = hydraulicKw / pumpEff;
+    const requiredKw = shaftKw * serviceFactor;
+    const motorKw = IEC_MOTOR_RATINGS_KW.find(r => r >= requiredKw);
+
+    return {
+      hydraulic_power_kw: round(hydraulicKw),
+      shaft_power_kw: round(shaftKw),
+      motor_input_power_kw: round(shaftKw / motorEff),
+      required_motor_rating_kw: round(requiredKw),
+      recommended_iec_motor_kw: motorKw ?? 'above 1000 kW, size individually'
+    };
+  }
+};
+
+const fanLaws: EngineeringTool = {
+  label: 'Fan / pump affinity laws',
+  declaration: {
+    name: 'fan_laws',
+    description: 'Affinity (fan) laws: new flow, pressure and power after a speed and/or impeller diameter change.',
+    parameters: {
+      type: 'object',
+      properties: {
+        speed1_rpm: { type: 'number', description: 'Current speed in rpm' },
+        speed2_rpm: { type: 'number', description: 'New speed in rpm' },
+        flow1: { type: 'number', description: 'Current flow (any unit; result uses the same unit)' },
+        pressure1: { type: 'number', description: 'Current pressure or head (any unit)' },
+        power1_kw: { type: 'number', description: 'Current absorbed power in kW' },
+        diameter_ratio: { type: 'number', description: 'New / current impeller diameter (default 1)' }
+      },
+      required: ['speed1_rpm', 'speed2_rpm']
+    }
+  },
+  run: (args) => {
+    const n = positive(args, 'speed2_rpm') / positive(args, 'speed1_rpm');
+    const d = positive(args, 'diameter_ratio', 1);
+    const result: ToolResult = {
+      speed_ratio: round(n),
+      flow_ratio: round(n * d ** 3),
+      pressure_ratio: round(n ** 2 * d ** 2),
+      power_ratio: round(n ** 3 * d ** 5)
+    };
+    if (args.flow1 !== undefined) result.flow2 = round(num(args, 'flow1') * n * d ** 3);
+    if (args.pressure1 !== undefined) result.pressure2 = round(num(args, 'pressure1') * n ** 2 * d ** 2);
+    if (args.power1_kw !== undefined) result.power2_kw = round(num(args, 'power1_kw') * n ** 3 * d ** 5);
+    return result;
+  }
+};
+
+const heatExchangerLmtd: EngineeringTool = {
+  label: 'Heat exchanger LMTD',
+  declaration: {
+    name: 'heat_exchanger_lmtd',
+    description: 'Log mean temperature difference of a heat exchanger; optionally heat duty from the hot side and the required area from U.',
+    parameters: {
+      type: 'object',
+      properties: {
+        hot_in_c: { type: 'number', description: 'Hot fluid inlet temperature in °C' },
+        hot_out_c: { type: 'number', description: 'Hot fluid outlet temperature in °C' },
+        cold_in_c: { type: 'number', description: 'Cold fluid inlet temperature in °C' },
+        cold_out_c: { type: 'number', description: 'Cold fluid outlet temperature in °C' },
+        arrangement: { type: 'string', enum: ['counter', 'parallel'], description: 'Flow arrangement (default counter)' },
+        hot_mass_flow_kgs: { type: 'number', description: 'Hot fluid mass flow in kg/s, to compute duty' },
+        hot_cp_kjkgk: { type: 'number', description: 'Hot fluid specific heat in kJ/kg·K (default 4.18)' },
+        duty_kw: { type: 'number', description: 'Heat duty in kW, if known' },
+        u_w_m2k: { type: 'number', description: 'Overall heat transfer coefficient in W/m²·K, to compute area' }
+      },
+      required: ['hot_in_c', 'hot_out_c', 'cold_in_c', 'cold_out_c']
+    }
+  },
+  run: (args) => {
+    const hotIn = num(args, 'hot_in_c');
+    const hotOut = num(args, 'hot_out_c');
+    const coldIn = num(args, 'cold_in_c');
+    const coldOut = num(args, 'cold_out_c');
+    const parallel = args.arrangement === 'parallel';
+    // Otherwise the duty (and the area from it) would come out negative
+    if (hotOut >= hotIn) {
+      throw new ToolInputError('hot_out_c must be below hot_in_c: the hot fluid gives up heat');
+    }
+    if (coldOut <= coldIn) {
+      throw new ToolInputError('cold_out_c must be above cold_in_c: the cold fluid takes up heat');
+    }
+
+    const dt1 = parallel ? hotIn - coldIn : hotIn - coldOut;
+    const dt2 = parallel ? hotOut - coldOut : hotOut - coldIn;
+    if (dt1 <= 0 || dt2 <= 0) {
+      throw new ToolInputError('Temperature cross: the hot side must stay above the cold side at both ends');
+    }
+    const lmtd = Math.abs(dt1 - dt2) < 1e-9 ? dt1 : (dt1 - dt2) / Math.log(dt1 / dt2);
+    const result: ToolResult = { delta_t1_k: round(dt1), delta_t2_k: round(dt2), lmtd_k: round(lmtd) };
+
+    let duty = args.duty_kw !== undefined ? positive(args, 'duty_kw') : undefined;
+    if (duty === undefined && args.hot_mass_flow_kgs !== undefined) {
+      duty = positive(args, 'hot_mass_flow_kgs') * positive(args, 'hot_cp_kjkgk', 4.18) * (hotIn - hotOut);
+    }
+    if (duty !== undefined) {
+      result.duty_kw = round(duty);
+      if (args.u_w_m2k !== undefined) {
+        result.required_area_m2 = round((duty * 1000) / (positive(args, 'u_w_m2k') * lmtd));
+      }
+    }
+    return result;
+  }
+};
+
+const beltConveyorCapacity: EngineeringTool = {
+  label: 'Belt conveyor capacity',
+  declaration: {
+    name: 'belt_conveyor_capacity',
+    description: 'Volumetric and mass capacity of a three-roll troughed belt conveyor (ISO 5048 cross-section method).',
+    parameters: {
+      type: 'object',
+      properties: {
+        belt_width_mm: { type: 'number', description: 'Belt width in mm' },
+        belt_speed_ms: { type: 'number', description: 'Belt speed in m/s' },
+        bulk_density_tm3: { type: 'number', description: 'Material bulk density in t/m³' },
+        troughing_angle_deg: { type: 'number', description: 'Idler troughing angle in degrees (default 35)' },
+        surcharge_angle_deg: { type: 'number', description: 'Material surcharge angle in degrees (default 20)' },
+        inclination_deg: { type: 'number', description: 'Conveyor inclination in degrees (default 0)' }
+      },
+      required: ['belt_width_mm', 'belt_speed_ms', 'bulk_density_tm3']
+    }
+  },
+  run: (args) => {
+    const width = positive(args, 'belt_width_mm') / 1000;
+    const speed = positive(args, 'belt_speed_ms');
+    const density = positive(args, 'bulk_density_tm3');
+    const rad = (deg: number) => (deg * Math.PI) / 180;
+    const trough = rad(num(args, 'troughing_angle_deg', 35));
+    const surcharge = rad(positive(args, 'surcharge_angle_deg', 20));
+    const incline = rad(num(args, 'inclination_deg', 0));
+    if (Math.abs(incline) >= surcharge) {
+      throw new ToolInputError('Inclination must be smaller than the surcharge angle or material will slide back');
+    }
+
+    const b = width <= 2 ? 0.9 * width - 0.05 : width - 0.25; // usable width
+    const l3 = 0.38 * width; // centre roll length, typical for 3-roll sets
+    const side = (b - l3) / 2;
+    const areaSurcharge = ((l3 + 2 * side * Math.cos(trough)) ** 2 * Math.tan(surcharge)) / 6;
+    const areaTrough = (l3 + side * Math.cos(trough)) * side * Math.sin(trough);
+    const area = areaSurcharge + areaTrough;
+
+    const k1 = Math.sqrt((Math.cos(incline) ** 2 - Math.cos(surcharge) ** 2) / (1 - Math.cos(surcharge) ** 2));
+    const k = 1 - (areaSurcharge / area) * (1 - k1);
+
+    const volume = 3600 * area * speed * k;
+    return {
+      cross_section_area_m2: round(area),
+      inclination_factor: round(k),
+      volumetric_capacity_m3h: round(volume),
+      mass_capacity_tph: round(volume * density)
+    };
+  }
+};
+
+// Factors to the SI base unit of each quantity
+const UNIT_FACTORS: Record<string, Record<string, number>> = {
+  length: { m: 1, mm: 0.001, cm: 0.01, km: 1000, in: 0.0254, ft: 0.3048, yd: 0.9144 },
+  mass: { kg: 1, g: 0.001, t: 1000, lb: 0.45359237, short_ton: 907.18474 },
+  pressure: { pa: 1, kpa: 1000, mpa: 1e6, bar: 1e5, mbar: 100, psi: 6894.757, atm: 101325, mmhg: 133.322, mmwc: 9.80665 },
+  power: { w: 1, kw: 1000, mw: 1e6, hp: 745.6999, ps: 735.49875, btu_h: 0.29307107, kcal_h: 1.163 },
+  energy: { j: 1, kj: 1000, mj: 1e6, kwh: 3.6e6, kcal: 4186.8, btu: 1055.056 },
+  flow: { m3_s: 1, m3_h: 1 / 3600, l_s: 0.001, l_min: 1 / 60000, gpm: 6.30902e-5, cfm: 4.71947e-4 }
+};
+
+const TEMPERATURE_TO_K: Record<string, (v: number) => number> = {
+  c: v => v + 273.15,
+  k: v => v,
+  f: v => (v - 32) * (5 / 9) + 273.15
+};
+const TEMPERATURE_FROM_K: Record<string, (v: number) => number> = {
+  c: v => v - 273.15,
+  k: v => v,
+  f: v => (v - 273.15) * (9 / 5) + 32
+};
+
+const unitKey = (unit: unknown) => String(unit ?? '').trim().toLowerCase().replace(/[³/\s]/g, m => (m === '³' ? '3' : m === '/' ? '_' : ''));
+
+const convertUnits: EngineeringTool = {
+  label: 'Unit conversion',
+  declaration: {
+    name: 'convert_units',
+    description: `Convert a value between engineering units. Supported: ${Object.entries(UNIT_FACTORS)
+      .map(([quantity, units]) => `${quantity} (${Object.keys(units).join(', ')})`)
+      .join('; ')}; temperature (c, f, k).`,
+    parameters: {
+      type: 'object',
+      properties: {
+        value: { type: 'number', description: 'Value to convert' },
+        from_unit: { type: 'string', description: 'Unit of the value, e.g. bar, m3_h, kw' },
+        to_unit: { type: 'string', description: 'Target unit, e.g. psi, gpm, hp' }
+      },
+      required: ['value', 'from_unit', 'to_unit']
+    }
+  },
+  run: (args) => {
+    const value = num(args, 'value');
+    const from = unitKey(args.from_unit);
+    const to = unitKey(args.to_unit);
+
+    if (from in TEMPERATURE_TO_K && to in TEMPERATURE_FROM_K) {
+      return { result: round(TEMPERATURE_FROM_K[to](TEMPERATURE_TO_K[from](value)), 5), unit: to, quantity: 'temperature' };
+    }
+    for (const [quantity, units] of Object.entries(UNIT_FACTORS)) {
+      if (from in units && to in units) {
+        return { result: round((value * units[from]) / units[to], 5), unit: to, quantity };
+      }
+    }
+    throw new ToolInputError(`Cannot convert from "${args.from_unit}" to "${args.to_unit}"`);
+  }
+};
+
+const TOOLS: EngineeringTool[] = [hydraulicPower, fanLaws, heatExchangerLmtd, beltConveyorCapacity, convertUnits];
+
+export const ENGINEERING_TOOL_DECLARATIONS: LLMToolDeclaration[] = TOOLS.map(t => t.declaration);
+
+// Run a function call from the model against the local calculators.
+// Bad input is reported back to the model instead of thrown.
+export const runEngineeringTool = (call: LLMFunctionCall): ToolCallRecord => {
+  const tool = TOOLS.find(t => t.declaration.name === call.name);
+  const record: ToolCallRecord = {
+    id: call.id ?? `tool_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    name: call.name,
+    label: tool?.label ?? call.name,
+    args: call.args
+  };
+
+  if (!tool) {
+    return { ...record, error: `Unknown tool "${call.name}"` };
+  }
+  try {
+    return { ...record, result: tool.run(call.args) };
+  } catch (error) {
+    if (error instanceof ToolInputError) {
+      return { ...record, error: error.message };
+    }
+    throw error;
+  }
+};
+
+// Questions with numbers and engineering units are worth a tool-calling round
+export const mightNeedCalculation = (prompt: string): boolean =>
+  /\d/.test(prompt) &&
+  /\b(kw|hp|m3|m³|bar|psi|rpm|tph|t\/h|°c|deg|head|flow|pump|fan|motor|conveyor|belt|lmtd|exchanger|convert|power)\b/i.test(prompt);
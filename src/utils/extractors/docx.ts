@@ -0,0 +1,107 @@
+import type { ExtractedAttachment } from '../attachmentText';
+import { readZipEntry } from '../zip';
+import { decodeEntities, decodeText, tidyText } from './textDecoding';
+
+// Tags of the document body that matter for its text. Deleted tracked
+// changes (w:delText) and field codes (w:instrText) are left out on purpose.
+const BODY_TAGS = /<(\/?)(w:p|w:t|w:tab|w:br|w:cr|w:tbl|w:tr|w:tc|w:pStyle|w:numPr)\b([^>]*?)(\/?)>|([^<]+)/g;
+
+interface Cell {
+  text: string[];
+}
+
+// Word paragraphs as lines: headings as Markdown headings, list items as
+// bullets and table rows as "| a | b |"
+const documentToText = (xml: string) => {
+  const lines: string[] = [];
+  const tables: { row: string[]; cell: Cell | null }[] = [];
+  let paragraph = '';
+  let prefix = '';
+  let inText = false;
+  let paragraphs = 0;
+  let tableCount = 0;
+
+  for (const [, closing, tag, attributes, selfClosing, text] of xml.matchAll(BODY_TAGS)) {
+    if (text !== undefined) {
+      if (inText) paragraph += decodeEntities(text);
+      continue;
+    }
+    const table = tables[tables.length - 1];
+    switch (tag) {
+      case 'w:t':
+        inText = !closing && !selfClosing;
+        break;
+      case 'w:tab':
+        paragraph += '\t';
+        break;
+      case 'w:br':
+      case 'w:cr':
+        paragraph += '\n';
+        break;
+      case 'w:pStyle': {
+        const style = attributes.match(/w:val="([^"]*)"/)?.[1] ?? '';
+        const level = style.match(/^heading\s?(\d)$/i)?.[1];
+        if (level) prefix = `${'#'.repeat(Math.min(6, Number(level)))} `;
+        else if (/^title$/i.test(style)) prefix = '# ';
+        break;
+      }
+      case 'w:numPr':
+        if (!prefix) prefix = '- ';
+        break;
+      case 'w:p':
+        if (!closing) {
+          paragraph = '';
+          prefix = '';
+          break;
+        }
+        if (table?.cell) {
+          if (paragraph.trim()) table.cell.text.push(paragraph.trim());
+        } else if (paragraph.trim()) {
+          lines.push(prefix + paragraph.trim());
+          paragraphs++;
+        } else {
+          lines.push('');
+        }
+        paragraph = '';
+        break;
+      case 'w:tbl':
+        if (!closing) {
+          tables.push({ row: [], cell: null });
+          tableCount++;
+          lines.push('');
+        } else {
+          tables.pop();
+          lines.push('');
+        }
+        break;
+      case 'w:tr':
+        if (!table) break;
+        if (!closing) table.row = [];
+        else lines.push(`| ${table.row.join(' | ')} |`);
+        break;
+      case 'w:tc':
+        if (!table) break;
+        if (!closing) {
+          table.cell = { text: [] };
+        } else if (table.cell) {
+          // Pipes inside a cell would read as column breaks
+          table.row.push(table.cell.text.join(' ').replace(/\|/g, '/'));
+          table.cell = null;
+        }
+        break;
+    }
+  }
+  return { text: tidyText(lines.join('\n')), paragraphs, tables: tableCount };
+};
+
+// Text of a .docx file: the main document with its headings, lists and tables
+export const extractDocxText = async (bytes: Uint8Array): Promise<ExtractedAttachment> => {
+  const documentXml = await readZipEntry(bytes, 'word/document.xml');
+  if (!documentXml) throw new Error('no document body found (is it a Word .docx file?)');
+
+  const { text, paragraphs, tables } = documentToText(decodeText(documentXml, 'utf-8'));
+  return {
+    text,
+    summary: `${paragraphs} paragraph${paragraphs === 1 ? '' : 's'}${tables > 0 ? `, ${tables} table${tables === 1 ? '' : 's'}` : ''}`
+  };
+};
@@ -0,0 +1,231 @@
+import type { ExtractedAttachment } from '../attachmentText';
+import { decodeText } from './textDecoding';
+
+// Listed one per line up to these counts; the rest are only counted
+const MAX_LISTED_DIMENSIONS = 200;
+const MAX_LISTED_TEXTS = 150;
+const MAX_LISTED_LAYERS = 200;
+const MAX_LISTED_BLOCKS = 100;
+
+// $INSUNITS values
+const UNITS: Record<number, string> = {
+  1: 'in',
+  2: 'ft',
+  4: 'mm',
+  5: 'cm',
+  6: 'm'
+};
+
+const DIMENSION_TYPES = ['linear', 'aligned', 'angular', 'diameter', 'radius', 'angular', 'ordinate'];
+
+// One object in a DXF section: a "0" group and the groups up to the next one
+interface DxfObject {
+  type: string;
+  groups: [number, string][];
+}
+
+interface Layer {
+  name: string;
+  off: boolean;
+  frozen: boolean;
+  entities: number;
+}
+
+const value = (object: DxfObject, code: number): string | undefined => object.groups.find(([c]) => c === code)?.[1];
+
+const numberValue = (object: DxfObject, code: number): number | undefined => {
+  const raw = value(object, code);
+  return raw === undefined || raw.trim() === '' ? undefined : Number(raw);
+};
+
+const formatNumber = (n: number): string => String(Number(n.toFixed(3)));
+
+// Objects of each section, by section name
+const readSections = (text: string): Map<string, DxfObject[]> => {
+  const lines = text.split(/\r?\n/);
+  const sections = new Map<string, DxfObject[]>();
+  let current: DxfObject[] | null = null;
+  let object: DxfObject | null = null;
+
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    const code = Number(lines[i].trim());
+    const groupValue = lines[i + 1].trim();
+    if (Number.isNaN(code)) throw new Error(`unexpected content on line ${i + 1}`);
+
+    if (code === 0) {
+      if (groupValue === 'EOF') break;
+      if (groupValue === 'SECTION') {
+        // The section name follows as a "2" group
+        const name = lines[i + 3]?.trim() ?? '';
+        current = [];
+        sections.set(name, current);
+        object = null;
+        i += 2;
+        continue;
+      }
+      if (groupValue === 'ENDSEC') {
+        current = null;
+        object = null;
+        continue;
+      }
+      object = { type: groupValue, groups: [] };
+      current?.push(object);
+    } else {
+      // Header variables come before any "0" group
+      if (!object && current) {
+        object = { type: '', groups: [] };
+        current.push(object);
+      }
+      object?.groups.push([code, groupValue]);
+    }
+  }
+  return sections;
+};
+
+// $ACADVER and $INSUNITS from the header, whose variables are "9" groups
+const readHeader = (objects: DxfObject[] = []) => {
+  const groups = objects.flatMap(object => object.groups);
+  const variable = (name: string) => {
+    const index = groups.findIndex(([code, v]) => code === 9 && v === name);
+    return index < 0 ? undefined : groups[index + 1]?.[1];
+  };
+  return { version: variable('$ACADVER'), units: UNITS[Number(variable('$INSUNITS'))] };
+};
+
+// MTEXT formatting codes (\P paragraph, \f font, {...} groups) as plain text
+const plainText = (text: string): string =>
+  text
+    .replace(/\\P/g, ' / ')
+    .replace(/\\[ACFHQTWfp][^;\\]*;/g, '')
+    .replace(/\\[LlOoKk]/g, '')
+    .replace(/\\S([^^/#;]*)[/^#]([^;]*);/g, '$1/$2')
+    .replace(/[{}]/g, '')
+    .replace(/%%[cC]/g, 'Ø')
+    .replace(/%%[dD]/g, '°')
+    .replace(/%%[pP]/g, '±')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Full text of a TEXT, MTEXT or ATTRIB entity; long MTEXT is split over "3" groups
+const entityText = (entity: DxfObject): string =>
+  plainText([
+    ...entity.groups.filter(([code]) => code === 3).map(([, v]) => v),
+    value(entity, 1) ?? ''
+  ].join(''));
+
+const describeDimension = (entity: DxfObject, units?: string): string => {
+  const type = DIMENSION_TYPES[(numberValue(entity, 70) ?? 0) & 7] ?? 'linear';
+  const isAngle = type === 'angular';
+  const raw = numberValue(entity, 42);
+  // Angular measurements are stored in radians
+  const measured = raw === undefined ? undefined : isAngle ? `${formatNumber((raw * 180) / Math.PI)}°` : formatNumber(raw);
+  const override = value(entity, 1);
+  const shown = override && override !== '<>' ? plainText(override.replace('<>', measured ?? '')) : undefined;
+  const unit = !isAngle && units && measured ? ` ${units}` : '';
+
+  return [
+    `${type}${measured ? ` ${measured}${unit}` : ''}`,
+    ...(shown ? [`shown as "${shown}"`] : []),
+    `on layer ${value(entity, 8) ?? '0'}`
+  ].join(', ');
+};
+
+const listed = (lines: string[], max: number): string[] =>
+  lines.length > max ? [...lines.slice(0, max), `- ... and ${lines.length - max} more`] : lines;
+
+// Layers, blocks, dimensions and text of an ASCII .dxf drawing. Geometry is
+// only counted: the model cannot do much with thousands of coordinates.
+export const extractDxfText = async (bytes: Uint8Array): Promise<ExtractedAttachment> => {
+  if (new TextDecoder().decode(bytes.subarray(0, 18)) === 'AutoCAD Binary DXF') {
+    throw new Error('binary DXF files are not supported; save the drawing as ASCII DXF');
+  }
+  const sections = readSections(decodeText(bytes));
+  const entities = sections.get('ENTITIES');
+  if (!entities) throw new Error('the drawing has no ENTITIES section');
+
+  const header = readHeader(sections.get('HEADER'));
+
+  const layers = new Map<string, Layer>();
+  for (const entry of sections.get('TABLES') ?? []) {
+    if (entry.type !== 'LAYER') continue;
+    const name = value(entry, 2) ?? '';
+    layers.set(name, {
+      name,
+      off: (numberValue(entry, 62) ?? 0) < 0,
+      frozen: ((numberValue(entry, 70) ?? 0) & 1) === 1,
+      entities: 0
+    });
+  }
+
+  // Named blocks and how much they hold; "*" blocks are AutoCAD's own
+  // (model space, dimension graphics)
+  const blocks = new Map<string, { entities: number; inserts: number }>();
+  let block: { entities: number; inserts: number } | null = null;
+  for (const object of sections.get('BLOCKS') ?? []) {
+    if (object.type === 'BLOCK') {
+      const name = value(object, 2) ?? '';
+      block = name.startsWith('*') ? null : { entities: 0, inserts: 0 };
+      if (block) blocks.set(name, block);
+    } else if (object.type === 'ENDBLK') {
+      block = null;
+    } else if (block) {
+      block.entities++;
+    }
+  }
+
+  const counts = new Map<string, number>();
+  const dimensions: string[] = [];
+  const texts: string[] = [];
+  for (const entity of entities) {
+    counts.set(entity.type, (counts.get(entity.type) ?? 0) + 1);
+    const layerName = value(entity, 8) ?? '0';
+    const layer = layers.get(layerName) ?? { name: layerName, off: false, frozen: false, entities: 0 };
+    layer.entities++;
+    layers.set(layerName, layer);
+
+    switch (entity.type) {
+      case 'DIMENSION':
+        dimensions.push(`- ${describeDimension(entity, header.units)}`);
+        break;
+      case 'INSERT': {
+        const name = value(entity, 2) ?? '';
+        const inserted = blocks.get(name);
+        if (inserted) inserted.inserts++;
+        break;
+      }
+      case 'TEXT':
+      case 'MTEXT':
+      case 'ATTRIB': {
+        const text = entityText(entity);
+        if (text) texts.push(`- "${text}"${entity.type === 'ATTRIB' ? ` (attribute ${value(entity, 2) ?? ''})` : ''} on layer ${layerName}`);
+        break;
+      }
+    }
+  }
+
+  const layerLines = [...layers.values()].map(layer => {
+    const state = [layer.off && 'off', layer.frozen && 'frozen'].filter(Boolean).join(', ');
+    return `- ${layer.name}: ${layer.entities} entit${layer.entities === 1 ? 'y' : 'ies'}${state ? ` (${state})` : ''}`;
+  });
+  const blockLines = [...blocks.entries()].map(([name, b]) =>
+    `- ${name}: ${b.entities} entit${b.entities === 1 ? 'y' : 'ies'}, inserted ${b.inserts} time${b.inserts === 1 ? '' : 's'}`
+  );
+  const countLine = [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([type, count]) => `${count} ${type}`)
+    .join(', ');
+
+  const text = [
+    `DXF drawing${header.version ? ` (format ${header.version})` : ''}, units: ${header.units ?? 'not set'}`,
+    `Entities (${entities.length}): ${countLine || 'none'}`,
+    [`Layers (${layers.size}):`, ...listed(layerLines, MAX_LISTED_LAYERS)].join('\n'),
+    ...(blocks.size > 0 ? [[`Blocks (${blocks.size}):`, ...listed(blockLines, MAX_LISTED_BLOCKS)].join('\n')] : []),
+    ...(dimensions.length > 0 ? [[`Dimensions (${dimensions.length}):`, ...listed(dimensions, MAX_LISTED_DIMENSIONS)].join('\n')] : []),
+    ...(texts.length > 0 ? [[`Text (${texts.length}):`, ...listed(texts, MAX_LISTED_TEXTS)].join('\n')] : [])
+  ].join('\n\n');
+
+  return {
+    text,
+    summary: `${layers.size} layer${layers.size === 1 ? '' : 's'}, ${blocks.size} block${blocks.size === 1 ? '' : 's'}, ${dimensions.length} dimension${dimensions.length === 1 ? '' : 's'}`
+  };
+};
@@ -0,0 +1,188 @@
+import type { ExtractedAttachment } from '../attachmentText';
+import { binaryToBytes, bytesToBinary, decodeEntities, decodeText, tidyText } from './textDecoding';
+
+// Headers worth passing on, in the order they are shown
+const SHOWN_HEADERS = ['from', 'to', 'cc', 'date', 'subject'];
+// Forwarded messages nested deeper than this are only listed
+const MAX_DEPTH = 3;
+
+interface MimePart {
+  headers: Map<string, string>;
+  body: string; // One character per byte, transfer encoding not yet undone
+}
+
+interface HeaderValue {
+  value: string;
+  params: Record<string, string>;
+}
+
+interface EmailContent {
+  headers: Map<string, string>;
+  bodies: string[];
+  attachments: string[];
+}
+
+// Split raw message text into unfolded headers and body
+const parsePart = (raw: string): MimePart => {
+  const split = raw.search(/\r?\n\r?\n/);
+  const head = split < 0 ? raw : raw.slice(0, split);
+  const body = split < 0 ? '' : raw.slice(split).replace(/^\r?\n\r?\n/, '');
+  const headers = new Map<string, string>();
+  for (const line of head.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    // The first occurrence wins, as mail clients show it
+    if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim());
+  }
+  return { headers, body };
+};
+
+// "text/plain; charset=utf-8" as its value and parameters. RFC 2231
+// (name*=utf-8''...) parameters are decoded too.
+const parseHeaderValue = (header = ''): HeaderValue => {
+  const [value, ...rest] = header.split(';');
+  const params: Record<string, string> = {};
+  for (const param of rest) {
+    const match = param.match(/^\s*([\w-]+)(\*)?\s*=\s*"?([^"]*)"?\s*$/);
+    if (!match) continue;
+    const [, name, extended, raw] = match;
+    if (extended) {
+      const encoded = raw.replace(/^[\w-]*'[\w-]*'/, '');
+      try {
+        params[name.toLowerCase()] = decodeURIComponent(encoded);
+      } catch {
+        params[name.toLowerCase()] = encoded;
+      }
+    } else {
+      params[name.toLowerCase()] = raw;
+    }
+  }
+  return { value: value.trim().toLowerCase(), params };
+};
+
+const decodeQuotedPrintable = (text: string): string =>
+  text.replace(/=\r?\n/g, '').replace(/=([0-9a-f]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+
+// =?utf-8?B?...?= and =?iso-8859-1?Q?...?= words in headers
+const decodeHeader = (header: string): string =>
+  header
+    .replace(/(=\?[^?]+\?[bq]\?[^?]*\?=)\s+(?==\?)/gi, '$1')
+    .replace(/=\?([^?]+)\?([bq])\?([^?]*)\?=/gi, (word, charset: string, encoding: string, text: string) => {
+      try {
+        const binary = encoding.toLowerCase() === 'b'
+          ? atob(text)
+          : decodeQuotedPrintable(text.replace(/_/g, ' '));
+        return decodeText(binaryToBytes(binary), charset);
+      } catch {
+        return word;
+      }
+    });
+
+const decodeBody = (part: MimePart): string => {
+  const encoding = (part.headers.get('content-transfer-encoding') ?? '').toLowerCase();
+  if (encoding === 'base64') {
+    try {
+      return atob(part.body.replace(/\s+/g, ''));
+    } catch {
+      return '';
+    }
+  }
+  return encoding === 'quoted-printable' ? decodeQuotedPrintable(part.body) : part.body;
+};
+
+const htmlToText = (html: string): string =>
+  decodeEntities(
+    html
+      .replace(/<(style|script|head)\b[\s\S]*?<\/\1>/gi, '')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|tr|li|h[1-6]|table)>/gi, '\n')
+      .replace(/<li\b[^>]*>/gi, '- ')
+      .replace(/<\/t[dh]>/gi, '\t')
+      .replace(/<[^>]+>/g, '')
+  );
+
+const describeAttachment = (part: MimePart, contentType: HeaderValue): string => {
+  const disposition = parseHeaderValue(part.headers.get('content-disposition'));
+  const name = decodeHeader(disposition.params.filename ?? contentType.params.name ?? 'unnamed');
+  const encoded = part.body.replace(/\s+/g, '').length;
+  const bytes = (part.headers.get('content-transfer-encoding') ?? '').toLowerCase() === 'base64' ? encoded * 0.75 : encoded;
+  return `${name} (${contentType.value || 'unknown type'}, ${Math.max(1, Math.round(bytes / 1024))} KB)`;
+};
+
+// Walk the MIME tree, collecting readable bodies and listing attachments.
+// Of alternative versions, the plain text one is used.
+const collect = (part: MimePart, content: EmailContent, depth: number): void => {
+  const contentType = parseHeaderValue(part.headers.get('content-type') ?? 'text/plain');
+  const disposition = parseHeaderValue(part.headers.get('content-disposition')).value;
+
+  if (contentType.value.startsWith('multipart/') && contentType.params.boundary) {
+    const delimiter = `--${contentType.params.boundary}`;
+    const children = part.body
+      .split(delimiter)
+      .slice(1)
+      .filter(section => !section.startsWith('--'))
+      .map(section => parsePart(section.replace(/^[ \t]*\r?\n/, '')));
+    if (contentType.value === 'multipart/alternative') {
+      const preferred = children.find(child => parseHeaderValue(child.headers.get('content-type') ?? 'text/plain').value === 'text/plain')
+        ?? children[children.length - 1];
+      if (preferred) collect(preferred, content, depth);
+    } else {
+      children.forEach(child => collect(child, content, depth));
+    }
+    return;
+  }
+
+  if (contentType.value === 'message/rfc822' && depth < MAX_DEPTH) {
+    const nested = parseEmail(decodeBody(part), depth + 1);
+    content.bodies.push(`--- Attached message ---\n${nested.text}`);
+    content.attachments.push(...nested.attachments);
+    return;
+  }
+
+  const isText = contentType.value === 'text/plain' || contentType.value === 'text/html';
+  if (!isText || disposition === 'attachment') {
+    content.attachments.push(describeAttachment(part, contentType));
+    return;
+  }
+
+  const text = decodeText(binaryToBytes(decodeBody(part)), contentType.params.charset);
+  content.bodies.push(contentType.value === 'text/html' ? htmlToText(text) : text);
+};
+
+const parseEmail = (raw: string, depth: number) => {
+  const root = parsePart(raw);
+  const content: EmailContent = { headers: root.headers, bodies: [], attachments: [] };
+  collect(root, content, depth);
+
+  const headerLines = SHOWN_HEADERS.flatMap(name => {
+    const value = content.headers.get(name);
+    return value ? [`${name[0].toUpperCase()}${name.slice(1)}: ${decodeHeader(value)}`] : [];
+  });
+  return {
+    text: tidyText([headerLines.join('\n'), ...content.bodies].join('\n\n')),
+    attachments: content.attachments,
+    from: decodeHeader(content.headers.get('from') ?? '')
+  };
+};
+
+// Headers and readable body of an .eml message. Attachments are listed by
+// name but not read.
+export const extractEmailText = async (bytes: Uint8Array): Promise<ExtractedAttachment> => {
+  // Kept one character per byte until each part's charset is known
+  const email = parseEmail(bytesToBinary(bytes), 0);
+  if (!email.text) throw new Error('the message has no readable content');
+
+  const { attachments } = email;
+  const listing = attachments.length > 0
+    ? `\n\nAttachments (not included):\n${attachments.map(name => `- ${name}`).join('\n')}`
+    : '';
+  const sender = email.from.replace(/\s*<[^>]*>/, '').replace(/"/g, '').trim();
+  return {
+    text: email.text + listing,
+    summary: [
+      sender ? `from ${sender}` : 'email',
+      ...(attachments.length > 0 ? [`${attachments.length} attachment${attachments.length === 1 ? '' : 's'} not read`] : [])
+    ].join(', ')
+  };
+};
@@ -0,0 +1,247 @@
+import type { AttachmentKind, FileUpload, MembershipTier } from '../types';
+import { QuotaService } from '../services/quotaService';
+import { formatMegabytes } from '../services/fileLibraryService';
+import { fileToBytes } from './documentText';
+import { sha256Hex } from './hash';
+
+export type FileValidationStatus = 'accepted' | 'wrong-type' | 'too-large' | 'over-quota' | 'duplicate' | 'corrupt';
+
+export interface FileValidationResult {
+  name: string;
+  status: FileValidationStatus;
+  message?: string; // Why the file was not attached
+  upload?: FileUpload; // Accepted files, read and ready to attach
+}
+
+export interface FileValidationContext {
+  tier: MembershipTier;
+  remainingUploads: number; // Left in today's allowance
+  attached: FileUpload[]; // Already on the message being written
+}
+
+interface AttachmentType {
+  kind: AttachmentKind;
+  label: string;
+  formats: Record<string, string>; // Extension to MIME type
+}
+
+// Everything a message can carry. Photos are limited to the formats both
+// browsers (for markup) and the model can read.
+export const ATTACHMENT_TYPES: AttachmentType[] = [
+  {
+    kind: 'image',
+    label: 'photos (JPEG, PNG, WebP)',
+    formats: { '.jpg': 'image/jpeg', '.jpeg': 'image/jpeg', '.png': 'image/png', '.webp': 'image/webp' }
+  },
+  {
+    kind: 'pdf',
+    label: 'PDFs',
+    formats: { '.pdf': 'application/pdf' }
+  },
+  {
+    kind: 'spreadsheet',
+    label: 'Excel or CSV files',
+    formats: {
+      '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      '.xls': 'application/vnd.ms-excel',
+      '.csv': 'text/csv'
+    }
+  },
+  // The types below are converted to text before they are sent
+  {
+    kind: 'word',
+    label: 'Word documents (DOCX)',
+    formats: { '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' }
+  },
+  {
+    kind: 'text',
+    label: 'text and log files',
+    formats: { '.txt': 'text/plain', '.log': 'text/plain' }
+  },
+  {
+    kind: 'email',
+    label: 'emails (EML)',
+    formats: { '.eml': 'message/rfc822' }
+  },
+  {
+    kind: 'cad',
+    label: 'DXF drawings',
+    formats: { '.dxf': 'application/dxf' }
+  }
+];
+
+// Value for <input type="file" accept>
+export const FILE_INPUT_ACCEPT = [
+  ...new Set(ATTACHMENT_TYPES.flatMap(type => [...Object.keys(type.formats), ...Object.values(type.formats)]))
+].join(',');
+
+const KIND_LABELS: Record<AttachmentKind, string> = {
+  image: 'Photos',
+  pdf: 'PDFs',
+  spreadsheet: 'Spreadsheets',
+  word: 'Word documents',
+  text: 'Text files',
+  email: 'Emails',
+  cad: 'DXF drawings'
+};
+const KIND_NOUNS: Record<AttachmentKind, string> = {
+  image: 'an image',
+  pdf: 'a PDF',
+  spreadsheet: 'a spreadsheet',
+  word: 'a Word document',
+  text: 'a text file',
+  email: 'an email',
+  cad: 'a DXF drawing'
+};
+
+// ".pdf" for "Report.PDF"; '' for names without one, including dotfiles
+// such as ".env"
+const extensionOf = (name: string): string => {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot).toLowerCase() : '';
+};
+
+// What kind of attachment a file is, by extension or, for names without a
+// known one, by MIME type. Browsers leave some types empty or generic
+// (text/plain for CSV files), so the extension is the better guide.
+export const attachmentKind = (file: Pick<FileUpload, 'name' | 'type'>): AttachmentKind | null => {
+  const type = ATTACHMENT_TYPES.find(t => extensionOf(file.name) in t.formats)
+    ?? ATTACHMENT_TYPES.find(t => Object.values(t.formats).includes(file.type));
+  return type?.kind ?? null;
+};
+
+// MIME type to store an accepted file under; the extension wins, since
+// Windows reports CSV files as Excel
+const attachmentType = (file: File, kind: AttachmentKind): string => {
+  const { formats } = ATTACHMENT_TYPES.find(t => t.kind === kind)!;
+  return formats[extensionOf(file.name)] ?? (Object.values(formats).includes(file.type) ? file.type : Object.values(formats)[0]);
+};
+
+const startsWith = (bytes: Uint8Array, signature: number[]): boolean =>
+  signature.every((byte, i) => bytes[i] === byte);
+
+const EMAIL_HEADER = /^(from|to|subject|date|received|message-id|return-path|mime-version):/im;
+
+// Why the content is not the kind of file its name and type claim, or null
+// when it looks right
+const contentProblem = async (kind: AttachmentKind, name: string, bytes: Uint8Array, type: string): Promise<string | null> => {
+  const notReally = `The file is damaged or is not really ${KIND_NOUNS[kind]}.`;
+  const start = new TextDecoder('latin1').decode(bytes.subarray(0, 4096));
+  switch (kind) {
+    case 'pdf':
+      // "%PDF-" may follow a little leading junk
+      return start.slice(0, 1024).includes('%PDF-') ? null : notReally;
+    case 'spreadsheet':
+      if (extensionOf(name) === '.csv' || type === 'text/csv') return null;
+      // XLSX is a zip archive; XLS an OLE compound document
+      return startsWith(bytes, [0x50, 0x4b, 0x03, 0x04]) || startsWith(bytes, [0xd0, 0xcf, 0x11, 0xe0]) ? null : notReally;
+    case 'word':
+      if (startsWith(bytes, [0xd0, 0xcf, 0x11, 0xe0])) return 'Old Word (.doc) files cannot be read. Save it as .docx.';
+      return startsWith(bytes, [0x50, 0x4b, 0x03, 0x04]) ? null : notReally;
+    case 'text':
+      // UTF-16 text has zero bytes throughout; anything else with them is binary
+      if (startsWith(bytes, [0xff, 0xfe]) || startsWith(bytes, [0xfe, 0xff])) return null;
+      return start.includes('\0') ? notReally : null;
+    case 'email':
+      return EMAIL_HEADER.test(start) ? null : notReally;
+    case 'cad':
+      if (start.startsWith('AutoCAD Binary DXF')) return 'Binary DXF files cannot be read. Save the drawing as ASCII DXF.';
+      return /^\s*0\s*\r?\n\s*SECTION\b/.test(start) || /^\s*999\s*\r?\n/.test(start) ? null : notReally;
+    case 'image':
+      try {
+        const bitmap = await createImageBitmap(new Blob([bytes], { type }));
+        bitmap.close();
+        return null;
+      } catch {
+        return notReally;
+      }
+  }
+};
+
+const readAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+// Check dropped or picked files against the plan's limits and read the ones
+// that pass. Every file gets a result, in the order given.
+export const validateFiles = async (files: File[], context: FileValidationContext): Promise<FileValidationResult[]> => {
+  const limits = QuotaService.getUploadLimits(context.tier);
+  const seen = new Set(await Promise.all(
+    context.attached.filter(file => file.content).map(file => sha256Hex(fileToBytes(file).buffer as ArrayBuffer))
+  ));
+  const results: FileValidationResult[] = [];
+  let accepted = 0;
+
+  for (const file of files) {
+    const reject = (status: FileValidationStatus, message: string) => results.push({ name: file.name, status, message });
+    const kind = attachmentKind(file);
+    if (!kind) {
+      reject('wrong-type', `Not a supported file type. Attach ${ATTACHMENT_TYPES.map(t => t.label).join(', ')}.`);
+      continue;
+    }
+
+    const maxBytes = limits.maxBytes[kind];
+    if (maxBytes === 0) {
+      reject('over-quota', `The ${context.tier} plan does not include file uploads.`);
+      continue;
+    }
+    if (file.size > maxBytes) {
+      reject('too-large', `${formatMegabytes(file.size)}; ${KIND_LABELS[kind]} can be up to ${formatMegabytes(maxBytes)} on the ${context.tier} plan.`);
+      continue;
+    }
+    if (context.attached.length + accepted >= limits.maxFilesPerMessage) {
+      reject('over-quota', `A message can carry up to ${limits.maxFilesPerMessage} files.`);
+      continue;
+    }
+    if (accepted >= context.remainingUploads) {
+      reject('over-quota', 'No file uploads left for today.');
+      continue;
+    }
+    if (file.size === 0) {
+      reject('corrupt', 'The file is empty.');
+      continue;
+    }
+
+    let content: string;
+    let bytes: Uint8Array;
+    try {
+      content = await readAsDataUrl(file);
+      bytes = new Uint8Array(await file.arrayBuffer());
+    } catch {
+      reject('corrupt', 'The file could not be read.');
+      continue;
+    }
+    const type = attachmentType(file, kind);
+    const problem = await contentProblem(kind, file.name, bytes, type);
+    if (problem) {
+      reject('corrupt', problem);
+      continue;
+    }
+
+    const hash = await sha256Hex(bytes.buffer as ArrayBuffer);
+    if (seen.has(hash)) {
+      reject('duplicate', 'The same file is already attached.');
+      continue;
+    }
+    seen.add(hash);
+
+    accepted++;
+    results.push({
+      name: file.name,
+      status: 'accepted',
+      upload: {
+        id: `file_${Date.now()}_${Math.random()}`,
+        name: file.name,
+        type,
+        size: file.size,
+        content: type === file.type ? content : content.replace(/^data:[^;,]*/, `data:${type}`),
+        uploadDate: new Date()
+      }
+    });
+  }
+  return results;
+};
@@ -0,0 +1,50 @@
+import type { LLMRequest, LLMSchema, MembershipTier, UserRole } from '../types';
+import { ModelSettingsService } from '../services/modelSettingsService';
+import { requestJson } from './llm/jsonRequest';
+import { FOLLOW_UP_INSTRUCTION, buildFollowUpPrompt } from './llm/prompts';
+
+const FOLLOW_UP_SCHEMA: LLMSchema = {
+  type: 'object',
+  properties: {
+    questions: { type: 'array', items: { type: 'string' }, description: '3-4 follow-up questions' }
+  },
+  required: ['questions']
+};
+
+const MAX_FOLLOW_UPS = 4;
+const MAX_QUESTION_LENGTH = 160;
+const MAX_OUTPUT_TOKENS = 256;
+
+// Suggest what to ask next about an answer, from the role's point of view.
+// A separate small request made once the answer is complete.
+export const generateFollowUps = async (
+  question: string,
+  answer: string,
+  role: UserRole | 'General AI',
+  tier: MembershipTier,
+  usageKey: string,
+  signal?: AbortSignal
+): Promise<string[]> => {
+  const settings = ModelSettingsService.resolve(role, tier);
+  const request: LLMRequest = {
+    model: settings.model,
+    systemInstruction: FOLLOW_UP_INSTRUCTION,
+    contents: [{ role: 'user', parts: [{ text: buildFollowUpPrompt(role, question, answer) }] }],
+    generationConfig: {
+      temperature: 0.5,
+      topP: settings.topP,
+      topK: settings.topK,
+      maxOutputTokens: MAX_OUTPUT_TOKENS
+    },
+    responseSchema: FOLLOW_UP_SCHEMA,
+    role,
+    signal
+  };
+
+  const { questions } = (await requestJson(request, tier, usageKey) ?? {}) as { questions?: unknown };
+  if (!Array.isArray(questions)) return [];
+  const cleaned = questions
+    .filter((q): q is string => typeof q === 'string' && q.trim().length > 0 && q.trim().length <= MAX_QUESTION_LENGTH)
+    .map(q => q.trim());
+  return [...new Set(cleaned)].slice(0, MAX_FOLLOW_UPS);
+};
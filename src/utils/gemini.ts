@@ -1,212 +1,564 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import type { UserRole, FileUpload } from '../types';
+import type {
+  UserRole,
+  Citation,
+  FileUpload,
+  Message,
+  LLMContent,
+  LLMPart,
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  LLMResponseMetadata,
+  LLMUsage,
+  AppliedGenerationSettings,
+  PanelExpertAnswer,
+  GenerationSettings,
+  PromptTemplateRef,
+  PromptVariables,
+  RetrievedPassage,
+  StructuredAnswer,
+  ToolCallRecord
+} from '../types';
+import { PromptTemplateService } from '../services/promptTemplateService';
+import { ResponseCacheService } from '../services/responseCacheService';
+import { ModelSettingsService } from '../services/modelSettingsService';
+import { KnowledgeBaseService } from '../services/knowledgeBaseService';
+import { QuotaService } from '../services/quotaService';
+import { getLLMProvider } from './llm';
+import { EmptyResponseError, LLMError, TimeoutError, toLLMError } from './llm/errors';
+import { withRetry } from './llm/retry';
+import { estimateTokens } from './llm/fileData';
+import { requestQueue } from './llm/requestQueue';
+import type { QueueWaitInfo } from './llm/requestQueue';
+import { CONTINUE_PROMPT, buildAttachmentTextContext, buildImageMarkupContext, buildKnowledgeContext, buildPanelSynthesisPrompt } from './llm/prompts';
+import { ENGINEERING_TOOL_DECLARATIONS, mightNeedCalculation, runEngineeringTool } from './engineeringTools';
+import { PANEL_SYNTHESIS_TEMPLATE_ID, personaTemplateId } from './promptTemplates';
+import { buildPdfParts } from './pdfPages';
+import { describeAnnotations } from './imageMarkup';
+import { defaultSpreadsheetOptions, parseSpreadsheet, spreadsheetToText } from './spreadsheet';
+import { attachmentKind } from './fileValidation';
+import { clipAttachmentText, extractAttachmentText, textAttachmentKindName } from './attachmentText';
+import {
+  STRUCTURED_ANSWER_SCHEMA,
+  parsePartialStructuredAnswer,
+  parseStructuredAnswer,
+  structuredAnswerToText
+} from './structuredAnswer';
 
-const API_KEY = import.meta.env.VITE_GEMINI_API_KEY;
+// Fill in defaults for any prompt variables the caller doesn't know
+const resolvePromptVariables = (variables: Partial<PromptVariables> = {}): PromptVariables => ({
+  userName: variables.userName ?? '',
+  plantProfile: variables.plantProfile ?? '',
+  units: variables.units || 'metric',
+  language: variables.language || 'English'
+});
 
-if (!API_KEY) {
-  throw new Error('GEMINI_API_KEY is not configured. Please set VITE_GEMINI_API_KEY in your environment variables.');
-}
+// Selected sheets as tables and column statistics
+const spreadsheetPart = async (file: FileUpload): Promise<LLMPart> => {
+  const sheets = await parseSpreadsheet(file);
+  return { text: spreadsheetToText(file, sheets, file.spreadsheet ?? defaultSpreadsheetOptions(sheets)) };
+};
 
-const genAI = new GoogleGenerativeAI(API_KEY);
+// Text extracted from a Word, text, email or DXF file
+const attachmentTextPart = async (file: FileUpload): Promise<LLMPart> => {
+  const { text, summary } = await extractAttachmentText(file);
+  const clipped = clipAttachmentText(text);
+  return { text: buildAttachmentTextContext(file.name, textAttachmentKindName(file), summary, clipped.text, clipped.omittedLines) };
+};
 
-// System instruction for authenticated users (natural conversational AI)
-const getAuthenticatedSystemInstruction = (role: UserRole | 'General AI'): string => {
-  if (role === 'General AI') {
-    return `You are a helpful AI assistant with advanced capabilities. Provide natural, conversational responses to any questions across all topics and domains. You can analyze uploaded files (PDFs, images, Excel sheets) and provide detailed insights. Be informative, clear, and engaging. Respond naturally like ChatGPT but maintain professionalism. When analyzing files, provide comprehensive analysis and actionable recommendations.`;
-  }
+// Build the parts for a single user turn (text plus any supported attachments)
+const buildUserParts = async (
+  provider: LLMProvider,
+  text: string,
+  files: FileUpload[] = [],
+  includeFiles: boolean
+): Promise<LLMPart[]> => {
+  const parts: LLMPart[] = [{ text }];
 
-  const roleSpecificInstructions = {
-    'Operations': `You are an expert Operations & Maintenance consultant for industrial plants with advanced analytical capabilities. Respond naturally and conversationally, drawing from deep expertise in machinery troubleshooting, process optimization, preventive maintenance, energy efficiency, and operational safety. You can analyze uploaded technical documents, maintenance reports, and operational data to provide comprehensive insights. Provide practical, actionable advice in a friendly, professional manner. Act like a seasoned plant operations manager sharing insights.`,
-    
-    'Project Management': `You are an expert Project Management consultant for industrial plants with advanced analytical capabilities. Respond naturally and conversationally, sharing insights on project scheduling, resource planning, risk management, installation coordination, and progress monitoring. You can analyze project documents, schedules, budgets, and reports to provide detailed project insights. Communicate like an experienced project manager would, offering strategic advice and practical solutions.`,
-    
-    'Sales & Marketing': `You are an expert Sales & Marketing consultant for industrial plants and equipment with advanced analytical capabilities. Respond naturally and conversationally, providing insights on market analysis, customer strategies, pricing optimization, distribution channels, and brand development. You can analyze market data, sales reports, and customer information to provide strategic recommendations. Share knowledge like a seasoned sales professional with deep market understanding.`,
-    
-    'Procurement': `You are an expert Procurement & Supply Chain consultant for industrial plants with advanced analytical capabilities. Respond naturally and conversationally, offering guidance on vendor management, strategic sourcing, inventory optimization, compliance, and cost-saving strategies. You can analyze procurement data, vendor reports, and supply chain documents to provide strategic insights. Communicate like an experienced procurement professional with strong negotiation skills and supplier relationships.`,
-    
-    'Erection & Commissioning': `You are an expert Erection & Commissioning consultant for industrial plants with advanced analytical capabilities. Respond naturally and conversationally, providing expertise on installation sequencing, contractor management, safety protocols, pre-commissioning checks, and performance validation. You can analyze technical drawings, commissioning reports, and installation documents to provide detailed guidance. Share knowledge like a field expert with hands-on experience.`,
-    
-    'Engineering & Design': `You are an expert Engineering & Design consultant for industrial plants with advanced analytical capabilities. Respond naturally and conversationally, offering insights on process flow design, plant layout, equipment selection, sustainability integration, and engineering best practices. You can analyze technical drawings, design documents, and engineering data to provide comprehensive design recommendations. Communicate like a senior design engineer with innovative solutions and technical depth.`
-  };
+  if (includeFiles) {
+    // Only photos are forwarded as they are; everything else is converted
+    // to text first. Unknown types are not sent.
+    for (const file of files) {
+      switch (attachmentKind(file)) {
+        case 'spreadsheet':
+          parts.push(await spreadsheetPart(file));
+          break;
+        case 'pdf':
+          parts.push(...await buildPdfParts(file, text));
+          break;
+        case 'word':
+        case 'text':
+        case 'email':
+        case 'cad':
+          parts.push(await attachmentTextPart(file));
+          break;
+        case 'image':
+          if (file.markup?.annotations.length) {
+            parts.push({ text: buildImageMarkupContext(file.name, describeAnnotations(file.markup)) });
+          }
+          parts.push(await provider.attachFile(file));
+          break;
+      }
+    }
+  }
 
-  return roleSpecificInstructions[role];
+  return parts;
 };
 
-// System instruction for guest users (structured format)
-const getGuestSystemInstruction = (role: UserRole | 'General AI'): string => {
-  if (role === 'General AI') {
-    return `You are a helpful AI assistant. Provide accurate, helpful responses to any questions across all topics and domains. Be informative, clear, and engaging in your responses.`;
+// Convert earlier chat messages into provider chat history.
+// Chat APIs expect the history to start with a user turn and to alternate
+// between user and model, so leading assistant messages are dropped and
+// consecutive turns from the same side are merged.
+const buildChatHistory = async (
+  provider: LLMProvider,
+  messages: Message[],
+  includeFiles: boolean
+): Promise<LLMContent[]> => {
+  const history: LLMContent[] = [];
+
+  for (const message of messages) {
+    const role: LLMContent['role'] = message.role === 'user' ? 'user' : 'model';
+    if (history.length === 0 && role !== 'user') continue;
+    if (!message.content.trim() && !message.files?.length) continue;
+
+    const parts = role === 'user'
+      ? await buildUserParts(provider, message.content, message.files, includeFiles)
+      : [{ text: message.content }];
+
+    const previous = history[history.length - 1];
+    if (previous && previous.role === role) {
+      previous.parts.push(...parts);
+    } else {
+      history.push({ role, parts });
+    }
   }
 
-  const baseInstruction = `
-You are FortAS AI AI by Vipul Sharma, AI-Driven Engineering for Industrial Plant Excellence.
-
-CRITICAL INSTRUCTION:
-- Do NOT include section headers (UI will render them).
-- Only provide the content for each section.
-- Avoid Markdown bold (**text**) or formatting, return clean plain text or bullet points.
-- Always follow this structure:
-
-Section 1 Content: Problem Understanding  
-Section 2 Content: Analysis / Best Practices  
-Section 3 Content: Actionable Recommendations  
-Section 4 Content: Compliance Notes (if relevant)  
-Section 5 Content: Cost & Efficiency Implications  
-
-Your expertise covers industrial plant operations with authoritative but approachable tone.
-Use bullet points, numbered steps, or structured lists where helpful.
-Include specific technical parameters, temperatures, pressures, or measurements when relevant.
-`;
-
-  const roleSpecificInstructions = {
-    'Operations': `
-Focus on:
-- Machinery troubleshooting and diagnostics
-- Process optimization and efficiency improvements
-- Preventive and predictive maintenance strategies
-- Energy efficiency and sustainability measures
-- Operational safety and compliance protocols
-`,
-    'Project Management': `
-Focus on:
-- EPC project scheduling and milestone tracking
-- Resource planning and cost control strategies
-- Risk management and mitigation plans
-- Erection and commissioning coordination
-- Progress monitoring and reporting systems
-`,
-    'Sales & Marketing': `
-Focus on:
-- Industrial market analysis and industry trends
-- Customer acquisition and retention strategies
-- Pricing optimization and competitive positioning
-- Distribution channel management
-- Brand development and market penetration
-`,
-    'Procurement': `
-Focus on:
-- Vendor identification and evaluation criteria
-- Strategic sourcing and negotiation tactics
-- Inventory optimization and supply chain efficiency
-- Import/export compliance and documentation
-- Cost-saving procurement strategies and vendor management
-`,
-    'Erection & Commissioning': `
-Focus on:
-- Installation sequencing and critical path planning
-- Manpower coordination and contractor management
-- Safety protocols and compliance during erection
-- Pre-commissioning checks and system testing
-- Commissioning procedures and performance validation
-`,
-    'Engineering & Design': `
-Focus on:
-- Process flow design and optimization
-- Plant layout and equipment arrangement
-- Equipment selection and technical specifications
-- Sustainability and green technology integration
-- Design standards and engineering best practices
-`
-  };
+  // The next turn is sent by the user, so the history has to end on a model turn
+  if (history.length > 0 && history[history.length - 1].role === 'user') {
+    history.pop();
+  }
 
-  return baseInstruction + roleSpecificInstructions[role];
+  return history;
 };
 
-// Convert file to base64 for Gemini API
-const fileToGenerativePart = async (file: FileUpload) => {
-  if (typeof file.content === 'string') {
-    return {
-      inlineData: {
-        data: file.content.split(',')[1], // Remove data:mime;base64, prefix
-        mimeType: file.type
-      }
-    };
-  }
-  
-  // Convert ArrayBuffer to base64
-  const bytes = new Uint8Array(file.content as ArrayBuffer);
-  const binary = bytes.reduce((acc, byte) => acc + String.fromCharCode(byte), '');
-  const base64 = btoa(binary);
-  
-  return {
-    inlineData: {
-      data: base64,
-      mimeType: file.type
-    }
+// Give up on a stream when no new text has arrived for this long
+const IDLE_TIMEOUT_MS = 45000;
+
+// Stream one attempt, aborting it if the provider goes quiet. The caller's
+// signal still cancels the attempt immediately.
+const streamWithIdleTimeout = async (
+  provider: LLMProvider,
+  request: LLMRequest,
+  onDelta: (delta: string) => void,
+  signal?: AbortSignal
+): Promise<LLMResponse> => {
+  const attempt = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const armTimer = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      attempt.abort();
+    }, IDLE_TIMEOUT_MS);
   };
+  const forwardAbort = () => attempt.abort();
+
+  signal?.addEventListener('abort', forwardAbort, { once: true });
+  armTimer();
+  try {
+    return await provider.stream({ ...request, signal: attempt.signal }, (delta) => {
+      armTimer();
+      onDelta(delta);
+    });
+  } catch (error) {
+    if (timedOut) {
+      throw new TimeoutError(`No response from the model for ${IDLE_TIMEOUT_MS / 1000} seconds.`, { cause: error });
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', forwardAbort);
+  }
 };
 
-// Utility function to clean markdown (remove **bold** etc.)
-function cleanMarkdown(text: string): string {
-  return text.replace(/\*\*(.*?)\*\*/g, '$1').trim();
+export interface GenerateOptions {
+  // Earlier messages of the conversation, oldest first, excluding the new prompt
+  history?: Message[];
+  // Called with the answer received so far each time a new chunk streams in
+  onChunk?: (partial: GenerateResult) => void;
+  // Aborting stops the stream; the text received so far is returned as the answer
+  signal?: AbortSignal;
+  // Called before each automatic retry of a transient failure
+  onRetry?: (error: LLMError, attempt: number, delayMs: number) => void;
+  // Values interpolated into the prompt template (user name, plant profile, ...)
+  promptVariables?: Partial<PromptVariables>;
+  // The user's own model setting overrides (clamped to their tier's caps)
+  generationSettings?: Partial<GenerationSettings>;
+  // Skip the cache lookup and always ask the model (the fresh answer is still cached)
+  bypassCache?: boolean;
+  // Raw output of an answer that hit the token limit; the model continues it
+  // and the result covers the whole answer
+  continueFrom?: string;
+  // Retrieve passages from this user's knowledge base into the prompt
+  knowledgeBase?: { userId: string };
+  // Whose daily allowance the request counts against (QuotaService.getUsageKey)
+  usageKey?: string;
+  // Called while the request waits for its turn in the rate-limited queue
+  onQueued?: (info: QueueWaitInfo) => void;
+  // Render this prompt template instead of the role's persona
+  templateId?: string;
 }
 
+export interface GenerateResult {
+  content: string;
+  structured?: StructuredAnswer;
+  toolCalls?: ToolCallRecord[];
+  promptTemplate?: PromptTemplateRef;
+  cachedAt?: Date; // Set when the answer came from the response cache
+  generationSettings?: AppliedGenerationSettings;
+  responseMeta?: LLMResponseMetadata;
+  resumeFrom?: string; // Raw output to pass back as continueFrom when the answer was cut off
+  citations?: Citation[];
+  panel?: PanelExpertAnswer[]; // Set by generatePanelResponse
+}
+
+// How many knowledge base passages go into each question
+const KNOWLEDGE_PASSAGES = 4;
+const CITATION_SNIPPET_LENGTH = 240;
+
+// Passages for the question; the knowledge base is an extra, so a failed
+// lookup just means answering without it
+const retrievePassages = async (
+  userId: string,
+  role: UserRole | 'General AI',
+  prompt: string,
+  signal?: AbortSignal
+): Promise<RetrievedPassage[]> => {
+  try {
+    return await KnowledgeBaseService.search(userId, role, prompt, KNOWLEDGE_PASSAGES, signal);
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.warn('Knowledge base lookup failed:', error);
+    return [];
+  }
+};
+
+// Citations for the [n] markers (including [1, 3]) that appear in the answer
+const findCitations = (content: string, passages: RetrievedPassage[]): Citation[] => {
+  const cited = new Set<number>();
+  for (const match of content.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+    match[1].split(',').forEach(n => cited.add(Number(n)));
+  }
+  return passages.flatMap((passage, i) => cited.has(i + 1) ? [{
+    number: i + 1,
+    documentId: passage.document.id,
+    documentName: passage.document.name,
+    page: passage.chunk.page,
+    chunkId: passage.chunk.id,
+    snippet: passage.chunk.text.length > CITATION_SNIPPET_LENGTH
+      ? `${passage.chunk.text.slice(0, CITATION_SNIPPET_LENGTH)}...`
+      : passage.chunk.text
+  }] : []);
+};
+
+// Upper bound on model -> calculator -> model round trips per answer
+const MAX_TOOL_ROUNDS = 4;
+
+// Turn raw model output into message content. Structured answers are
+// validated against the schema; if they don't validate, whatever can be
+// salvaged is returned as plain text for the fallback renderer.
+const toResult = (raw: string, isStructured: boolean, isFinal: boolean): GenerateResult => {
+  if (!isStructured) {
+    return { content: raw.trim() };
+  }
+
+  const structured = isFinal ? parseStructuredAnswer(raw) : parsePartialStructuredAnswer(raw);
+  if (structured) {
+    return { content: structuredAnswerToText(structured), structured };
+  }
+
+  const salvaged = parsePartialStructuredAnswer(raw);
+  return { content: salvaged ? structuredAnswerToText(salvaged) : raw.trim() };
+};
+
 export const generateResponse = async (
   prompt: string, 
   role: UserRole | 'General AI', 
   isAuthenticated: boolean = false,
   files: FileUpload[] = [],
-  isPremium: boolean = false
-): Promise<string> => {
+  isPremium: boolean = false,
+  options: GenerateOptions = {}
+): Promise<GenerateResult> => {
   try {
-    const systemInstruction = (isAuthenticated && isPremium)
-      ? getAuthenticatedSystemInstruction(role)
-      : getGuestSystemInstruction(role);
+    const { text: systemInstruction, ref: promptTemplate } = PromptTemplateService.render(
+      options.templateId ?? personaTemplateId(isAuthenticated && isPremium ? 'authenticated' : 'guest', role),
+      resolvePromptVariables(options.promptVariables)
+    );
+
+    const provider = getLLMProvider();
+    const tier = ModelSettingsService.getTier(isAuthenticated, isPremium);
+    const generationSettings = ModelSettingsService.resolve(role, tier, options.generationSettings);
+
+    const passages = options.knowledgeBase
+      ? await retrievePassages(options.knowledgeBase.userId, role, prompt, options.signal)
+      : [];
+    const knowledgeContext = passages.length > 0
+      ? buildKnowledgeContext(passages.map(p => ({ documentName: p.document.name, page: p.chunk.page, text: p.chunk.text })))
+      : '';
+
+    const cacheKey = await ResponseCacheService.buildKey({
+      settings: generationSettings,
+      systemInstruction,
+      // Retrieved passages change the answer, so they are part of the key
+      prompt: knowledgeContext ? `${prompt}\n\n${knowledgeContext}` : prompt,
+      role,
+      tier,
+      files,
+      history: (options.history ?? []).map(m => ({ role: m.role, content: m.content }))
+    });
+    if (!options.bypassCache && !options.continueFrom) {
+      const cached = await ResponseCacheService.get(cacheKey);
+      if (cached) {
+        return {
+          content: cached.content,
+          structured: cached.structured,
+          toolCalls: cached.toolCalls,
+          promptTemplate: cached.promptTemplate,
+          citations: cached.citations,
+          cachedAt: new Date(cached.createdAt),
+          generationSettings
+        };
+      }
+    }
+
+    // Cache hits are free; anything that goes to the model needs allowance left
+    const usageKey = options.usageKey ?? QuotaService.getUsageKey();
+    QuotaService.check(usageKey, tier, { messages: 1, tokens: 1 });
 
-    const model = genAI.getGenerativeModel({
-      model: 'gemini-1.5-flash',
+    const includeFiles = isPremium;
+    // Guest-format answers come back as typed JSON sections
+    const isStructured = !(isAuthenticated && isPremium) && role !== 'General AI';
+    const contents: LLMContent[] = [
+      ...await buildChatHistory(provider, options.history ?? [], includeFiles),
+      {
+        role: 'user',
+        parts: [
+          ...await buildUserParts(provider, prompt, files, includeFiles),
+          ...(knowledgeContext ? [{ text: knowledgeContext }] : [])
+        ]
+      }
+    ];
+
+    const baseRequest: LLMRequest = {
+      model: generationSettings.model,
       systemInstruction,
+      contents,
       generationConfig: {
-        temperature: 0.7,
-        topP: 0.8,
-        topK: 40,
-        maxOutputTokens: 2048,
+        temperature: generationSettings.temperature,
+        topP: generationSettings.topP,
+        topK: generationSettings.topK,
+        maxOutputTokens: generationSettings.maxOutputTokens
       },
-    });
+      role
+    };
+
+    const toolCalls: ToolCallRecord[] = [];
+    const prefix = options.continueFrom ?? '';
+    let text = '';
+    let structuredRound = false;
+    let lastResponse: LLMResponse | undefined;
+    let usage: LLMUsage | undefined;
+
+    const withMetadata = (result: GenerateResult): GenerateResult => {
+      const truncated = lastResponse?.finishReason === 'max_tokens';
+      const citations = findCitations(result.content, passages);
+      return {
+        ...result,
+        ...(citations.length > 0 ? { citations } : {}),
+        promptTemplate,
+        generationSettings,
+        ...(toolCalls.length > 0 ? { toolCalls: [...toolCalls] } : {}),
+        ...(lastResponse ? {
+          responseMeta: {
+            finishReason: lastResponse.finishReason,
+            safetyRatings: lastResponse.safetyRatings,
+            usage
+          }
+        } : {}),
+        ...(truncated ? { resumeFrom: prefix + text } : {})
+      };
+    };
+
+    // Stream one model round; transient failures restart it from scratch.
+    // Planning rounds (showText false) only surface their tool calls.
+    const runRound = (request: LLMRequest, showText: boolean) => withRetry(async () => {
+      text = '';
+      const response = await streamWithIdleTimeout(provider, request, (delta) => {
+        text += delta;
+        if (showText) options.onChunk?.(withMetadata(toResult(prefix + text, structuredRound, false)));
+      }, options.signal);
+
+      if (!text.trim() && !response.functionCalls?.length) {
+        throw new EmptyResponseError('The model returned an empty response.');
+      }
+
+      lastResponse = response;
+      QuotaService.record(usageKey, {
+        tokens: response.usage?.totalTokens ?? estimateTokens(request) + Math.ceil(text.length / 4)
+      });
+      if (response.usage) {
+        usage = {
+          promptTokens: (usage?.promptTokens ?? 0) + response.usage.promptTokens,
+          outputTokens: (usage?.outputTokens ?? 0) + response.usage.outputTokens,
+          totalTokens: (usage?.totalTokens ?? 0) + response.usage.totalTokens
+        };
+      }
+      return response;
+    }, { signal: options.signal, onRetry: options.onRetry });
+
+    // Run the requested calculators locally and hand the results back
+    const runTools = (response: LLMResponse) => {
+      const calls = response.functionCalls ?? [];
+      const records = calls.map(runEngineeringTool);
+      toolCalls.push(...records);
+      contents.push(
+        { role: 'model', parts: [...(response.text ? [{ text: response.text }] : []), ...calls.map(functionCall => ({ functionCall }))] },
+        { role: 'user', parts: records.map(r => ({ functionResponse: { id: r.id, name: r.name, response: r.result ?? { error: r.error } } })) }
+      );
+      options.onChunk?.(withMetadata({ content: '' }));
+    };
 
-    let result;
-    
-    if (files.length > 0 && isPremium) {
-      // Handle files with prompt
-      const parts = [prompt];
-      
-      for (const file of files) {
-        if (file.type.startsWith('image/') || 
-            file.type === 'application/pdf' ||
-            file.type.includes('spreadsheet') ||
-            file.type.includes('excel')) {
-          const filePart = await fileToGenerativePart(file);
-          parts.push(filePart);
+    // Build the final result. Only complete answers are cached, and
+    // structured ones must have validated; a cut-off structured answer keeps
+    // its partially parsed sections so it can be continued.
+    const finish = (): GenerateResult => {
+      const finishReason = lastResponse?.finishReason;
+      const complete = !finishReason || finishReason === 'stop';
+      const result = withMetadata(toResult(prefix + text, structuredRound, finishReason !== 'max_tokens'));
+      if (complete && !prefix && (!structuredRound || result.structured)) {
+        void ResponseCacheService.set(cacheKey, result);
+      }
+      return result;
+    };
+
+    let release: (() => void) | undefined;
+    try {
+      release = await requestQueue.acquire(QuotaService.getRateLimits(tier), {
+        signal: options.signal,
+        onWait: options.onQueued
+      });
+      QuotaService.record(usageKey, { messages: 1 });
+
+      if (prefix) {
+        // Resume a cut-off answer: replay it as the model's turn and ask for
+        // the rest as plain text (JSON mode would start a new object)
+        contents.push(
+          { role: 'model', parts: [{ text: prefix }] },
+          { role: 'user', parts: [{ text: CONTINUE_PROMPT }] }
+        );
+        structuredRound = isStructured;
+        await runRound(baseRequest, true);
+        return finish();
+      }
+
+      // JSON-mode answers can't declare tools, so structured answers only get
+      // a separate calculation round when the question looks numeric
+      if (!isStructured || mightNeedCalculation(prompt)) {
+        for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+          const response = await runRound({ ...baseRequest, tools: ENGINEERING_TOOL_DECLARATIONS }, !isStructured);
+          if (!response.functionCalls?.length) {
+            if (!isStructured) return finish();
+            break;
+          }
+          runTools(response);
         }
       }
-      
-      result = await model.generateContent(parts);
-    } else {
-      result = await model.generateContent(prompt);
-    }
-    
-    const response = await result.response;
-    let text = response.text();
 
-    if (!text || text.trim() === '') {
-      throw new Error('Empty response from API');
+      // Final answer: the structured schema, or free text once the tool budget is spent
+      structuredRound = isStructured;
+      await runRound({ ...baseRequest, responseSchema: isStructured ? STRUCTURED_ANSWER_SCHEMA : undefined }, true);
+    } catch (streamError) {
+      // A user-initiated stop keeps whatever was received before it
+      if (options.signal?.aborted) {
+        return withMetadata(toResult(prefix + text, structuredRound, false));
+      }
+      throw streamError;
+    } finally {
+      release?.();
     }
 
-    // Clean markdown before returning
-    return cleanMarkdown(text);
+    return finish();
   } catch (error) {
     console.error('Error generating response:', error);
-    if (error instanceof Error) {
-      if (error.message.includes('API_KEY')) {
-        throw new Error('Invalid API key. Please check your Gemini API key configuration.');
-      }
-      if (error.message.includes('quota')) {
-        throw new Error('API quota exceeded. Please try again later or check your billing settings.');
+    throw toLLMError(error);
+  }
+};
+
+// Most roles an expert panel consults at once; each one is a separate request
+export const MAX_PANEL_ROLES = 4;
+
+// Ask several role experts the same question in parallel, then have the
+// panel moderator consolidate their answers and point out where they
+// disagree. content is the consolidated recommendation and panel holds each
+// expert's answer. An expert that fails is kept with its error; the
+// consultation only fails when no expert answered at all.
+export const generatePanelResponse = async (
+  prompt: string,
+  roles: UserRole[],
+  isAuthenticated: boolean = false,
+  files: FileUpload[] = [],
+  isPremium: boolean = false,
+  options: GenerateOptions = {}
+): Promise<GenerateResult> => {
+  const panel: PanelExpertAnswer[] = roles.map(role => ({ role, content: '', isStreaming: true }));
+  let synthesis: GenerateResult = { content: '' };
+  const emit = () => options.onChunk?.({ ...synthesis, panel: [...panel] });
+
+  const settled = await Promise.allSettled(roles.map((role, i) =>
+    generateResponse(prompt, role, isAuthenticated, files, isPremium, {
+      ...options,
+      continueFrom: undefined,
+      onChunk: (partial) => {
+        panel[i] = { role, content: partial.content, structured: partial.structured, citations: partial.citations, isStreaming: true };
+        emit();
       }
-      if (error.message.includes('blocked')) {
-        throw new Error('Content was blocked by safety filters. Please rephrase your question.');
+    })
+  ));
+  settled.forEach((outcome, i) => {
+    panel[i] = outcome.status === 'fulfilled'
+      ? { role: roles[i], content: outcome.value.content, structured: outcome.value.structured, citations: outcome.value.citations }
+      : { role: roles[i], content: panel[i].content, error: toLLMError(outcome.reason).message };
+  });
+  emit();
+
+  const answered = panel.filter(answer => !answer.error && answer.content.trim());
+  if (answered.length === 0) {
+    const failure = settled.find((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+    throw failure ? toLLMError(failure.reason) : new EmptyResponseError('No expert on the panel returned an answer.');
+  }
+  // Nothing to consolidate after a stop or when only one expert answered
+  if (options.signal?.aborted) return { content: '', panel };
+  if (answered.length === 1) return { content: answered[0].content, panel };
+
+  synthesis = await generateResponse(
+    buildPanelSynthesisPrompt(prompt, answered.map(answer => ({ role: answer.role, content: answer.content }))),
+    'General AI',
+    isAuthenticated,
+    [],
+    isPremium,
+    {
+      ...options,
+      templateId: PANEL_SYNTHESIS_TEMPLATE_ID,
+      knowledgeBase: undefined,
+      continueFrom: undefined,
+      onChunk: (partial) => {
+        synthesis = partial;
+        emit();
       }
     }
-    throw new Error('Technical system error occurred. Please try again or contact support.');
-  }
-};
\ No newline at end of file
+  );
+  // Continuing would re-run the whole panel, so a cut-off synthesis stays as it is
+  return { ...synthesis, resumeFrom: undefined, panel };
+};
@@ -0,0 +1,6 @@
+// Hex-encoded SHA-256 of a string or binary buffer
+export const sha256Hex = async (data: string | ArrayBuffer): Promise<string> => {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,242 @@
+import type { FileUpload, ImageAnnotation, ImageMarkup, MarkupPoint } from '../types';
+import { fileToBase64 } from './llm/fileData';
+
+export const MARKUP_COLORS: { value: string; name: string }[] = [
+  { value: '#ef4444', name: 'red' },
+  { value: '#facc15', name: 'yellow' },
+  { value: '#22c55e', name: 'green' },
+  { value: '#3b82f6', name: 'blue' },
+  { value: '#ffffff', name: 'white' }
+];
+
+// Longest side of the image that is sent; phone photos are far larger than
+// the model needs
+const MAX_OUTPUT_SIDE = 2048;
+const JPEG_QUALITY = 0.9;
+
+export const EMPTY_MARKUP: ImageMarkup = { rotation: 0, annotations: [] };
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not read the image.'));
+    image.src = src;
+  });
+
+// Data URL of an attachment, whichever form its content is in
+export const fileToDataUrl = (file: FileUpload): string =>
+  typeof file.content === 'string' ? file.content : `data:${file.type};base64,${fileToBase64(file)}`;
+
+// Original-photo point as seen after rotating clockwise
+export const rotatePoint = ({ x, y }: MarkupPoint, rotation: ImageMarkup['rotation']): MarkupPoint => {
+  switch (rotation) {
+    case 90: return { x: 1 - y, y: x };
+    case 180: return { x: 1 - x, y: 1 - y };
+    case 270: return { x: y, y: 1 - x };
+    default: return { x, y };
+  }
+};
+
+// Inverse of rotatePoint, for turning a click on the rotated view back into
+// original-photo coordinates
+export const unrotatePoint = ({ x, y }: MarkupPoint, rotation: ImageMarkup['rotation']): MarkupPoint => {
+  switch (rotation) {
+    case 90: return { x: y, y: 1 - x };
+    case 180: return { x: 1 - x, y: 1 - y };
+    case 270: return { x: 1 - y, y: x };
+    default: return { x, y };
+  }
+};
+
+// Axis-aligned box spanned by two original-photo corners, in rotated fractions
+export const rotatedBox = (from: MarkupPoint, to: MarkupPoint, rotation: ImageMarkup['rotation']): Rect => {
+  const a = rotatePoint(from, rotation);
+  const b = rotatePoint(to, rotation);
+  return {
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(a.x - b.x),
+    height: Math.abs(a.y - b.y)
+  };
+};
+
+// Crop in rotated fractions; the whole image when there is none
+export const cropBox = (markup: ImageMarkup): Rect =>
+  markup.crop ? rotatedBox(markup.crop.from, markup.crop.to, markup.rotation) : { x: 0, y: 0, width: 1, height: 1 };
+
+const isQuarterTurn = (rotation: ImageMarkup['rotation']) => rotation === 90 || rotation === 270;
+
+// Size of the rotated photo
+export const rotatedSize = (image: HTMLImageElement, rotation: ImageMarkup['rotation']) =>
+  isQuarterTurn(rotation)
+    ? { width: image.naturalHeight, height: image.naturalWidth }
+    : { width: image.naturalWidth, height: image.naturalHeight };
+
+const drawArrowHead = (ctx: CanvasRenderingContext2D, from: MarkupPoint, to: MarkupPoint, size: number) => {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  ctx.beginPath();
+  ctx.moveTo(to.x, to.y);
+  ctx.lineTo(to.x - size * Math.cos(angle - Math.PI / 7), to.y - size * Math.sin(angle - Math.PI / 7));
+  ctx.lineTo(to.x - size * Math.cos(angle + Math.PI / 7), to.y - size * Math.sin(angle + Math.PI / 7));
+  ctx.closePath();
+  ctx.fill();
+};
+
+// Draw one annotation on a canvas showing the rotated photo at width x height.
+// Stroke and text sizes follow the image size, so the preview and the sent
+// image look the same.
+export const drawAnnotation = (
+  ctx: CanvasRenderingContext2D,
+  annotation: ImageAnnotation,
+  rotation: ImageMarkup['rotation'],
+  width: number,
+  height: number
+): void => {
+  const unit = Math.min(width, height) / 100;
+  const toCanvas = (point: MarkupPoint) => {
+    const rotated = rotatePoint(point, rotation);
+    return { x: rotated.x * width, y: rotated.y * height };
+  };
+
+  ctx.save();
+  ctx.strokeStyle = annotation.color;
+  ctx.fillStyle = annotation.color;
+  ctx.lineWidth = Math.max(2, unit * 0.7);
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  switch (annotation.kind) {
+    case 'arrow': {
+      const from = toCanvas(annotation.from);
+      const to = toCanvas(annotation.to);
+      ctx.beginPath();
+      ctx.moveTo(from.x, from.y);
+      ctx.lineTo(to.x, to.y);
+      ctx.stroke();
+      drawArrowHead(ctx, from, to, Math.max(10, unit * 4));
+      break;
+    }
+    case 'circle': {
+      const box = rotatedBox(annotation.from, annotation.to, rotation);
+      ctx.beginPath();
+      ctx.ellipse(
+        (box.x + box.width / 2) * width,
+        (box.y + box.height / 2) * height,
+        Math.max(1, (box.width / 2) * width),
+        Math.max(1, (box.height / 2) * height),
+        0,
+        0,
+        Math.PI * 2
+      );
+      ctx.stroke();
+      break;
+    }
+    case 'freehand': {
+      const [first, ...rest] = annotation.points.map(toCanvas);
+      if (!first) break;
+      ctx.beginPath();
+      ctx.moveTo(first.x, first.y);
+      rest.forEach(point => ctx.lineTo(point.x, point.y));
+      ctx.stroke();
+      break;
+    }
+    case 'text': {
+      const at = toCanvas(annotation.at);
+      ctx.font = `bold ${Math.max(14, unit * 4.5)}px sans-serif`;
+      ctx.textBaseline = 'middle';
+      // Dark outline keeps labels readable on any background
+      ctx.lineWidth = Math.max(3, unit);
+      ctx.strokeStyle = annotation.color === '#ffffff' || annotation.color === '#facc15' ? '#000000' : '#ffffff';
+      ctx.strokeText(annotation.text, at.x, at.y);
+      ctx.fillText(annotation.text, at.x, at.y);
+      break;
+    }
+  }
+  ctx.restore();
+};
+
+// Draw the rotated photo and its annotations filling a width x height canvas
+export const drawMarkup = (
+  ctx: CanvasRenderingContext2D,
+  image: HTMLImageElement,
+  markup: ImageMarkup,
+  width: number,
+  height: number
+): void => {
+  ctx.save();
+  ctx.translate(width / 2, height / 2);
+  ctx.rotate((markup.rotation * Math.PI) / 180);
+  const [drawWidth, drawHeight] = isQuarterTurn(markup.rotation) ? [height, width] : [width, height];
+  ctx.drawImage(image, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight);
+  ctx.restore();
+  markup.annotations.forEach(annotation => drawAnnotation(ctx, annotation, markup.rotation, width, height));
+};
+
+// The edited photo as a data URL: rotated, annotated, cropped and scaled
+// down to MAX_OUTPUT_SIDE. PNGs stay PNG; everything else becomes JPEG.
+export const renderMarkup = (image: HTMLImageElement, markup: ImageMarkup, type: string): string => {
+  const full = rotatedSize(image, markup.rotation);
+  const crop = cropBox(markup);
+  const cropWidth = Math.max(1, crop.width * full.width);
+  const cropHeight = Math.max(1, crop.height * full.height);
+  const scale = Math.min(1, MAX_OUTPUT_SIDE / Math.max(cropWidth, cropHeight));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(cropWidth * scale);
+  canvas.height = Math.round(cropHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available in this browser.');
+
+  // Draw the whole rotated photo shifted so the crop lands on the canvas
+  ctx.translate(-crop.x * full.width * scale, -crop.y * full.height * scale);
+  drawMarkup(ctx, image, markup, full.width * scale, full.height * scale);
+  return type === 'image/png' ? canvas.toDataURL('image/png') : canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+};
+
+const colorName = (color: string): string => MARKUP_COLORS.find(c => c.value === color)?.name ?? color;
+
+// Where each annotation sits in the image that is sent, as percentages from
+// its top-left corner, for the text sent alongside it
+export const describeAnnotations = (markup: ImageMarkup): string[] => {
+  const crop = cropBox(markup);
+  const percent = (value: number) => Math.round(Math.min(1, Math.max(0, value)) * 100);
+  const toSent = (point: MarkupPoint) => {
+    const rotated = rotatePoint(point, markup.rotation);
+    return {
+      x: percent((rotated.x - crop.x) / crop.width),
+      y: percent((rotated.y - crop.y) / crop.height)
+    };
+  };
+  const span = (points: MarkupPoint[]) => {
+    const sent = points.map(toSent);
+    const xs = sent.map(p => p.x);
+    const ys = sent.map(p => p.y);
+    return `x ${Math.min(...xs)}-${Math.max(...xs)}%, y ${Math.min(...ys)}-${Math.max(...ys)}%`;
+  };
+
+  return markup.annotations.map(annotation => {
+    const color = colorName(annotation.color);
+    switch (annotation.kind) {
+      case 'arrow': {
+        const to = toSent(annotation.to);
+        return `${color} arrow pointing at (x ${to.x}%, y ${to.y}%)`;
+      }
+      case 'circle':
+        return `${color} circle around the area ${span([annotation.from, annotation.to])}`;
+      case 'freehand':
+        return `${color} freehand mark over ${span(annotation.points)}`;
+      case 'text': {
+        const at = toSent(annotation.at);
+        return `${color} label "${annotation.text}" at (x ${at.x}%, y ${at.y}%)`;
+      }
+    }
+  });
+};
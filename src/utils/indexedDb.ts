@@ -0,0 +1,105 @@
+// Shared IndexedDB database for data too large or too binary for localStorage
+const DB_NAME = 'fortas';
+const DB_VERSION = 3;
+
+export const STORES = {
+  responseCache: 'responseCache',
+  knowledgeDocuments: 'knowledgeDocuments',
+  knowledgeChunks: 'knowledgeChunks',
+  knowledgeFiles: 'knowledgeFiles',
+  libraryFiles: 'libraryFiles',
+  libraryContent: 'libraryContent'
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Open (and on first use, create or upgrade) the database. The connection is
+// shared; a failed open is not cached so the next call can try again.
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser.'));
+        return;
+      }
+
+      let settled = false;
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORES.responseCache)) {
+          const store = db.createObjectStore(STORES.responseCache, { keyPath: 'key' });
+          store.createIndex('lastAccessed', 'lastAccessed');
+        }
+        // Version 2: document knowledge base
+        if (!db.objectStoreNames.contains(STORES.knowledgeDocuments)) {
+          const store = db.createObjectStore(STORES.knowledgeDocuments, { keyPath: 'id' });
+          store.createIndex('userId', 'userId');
+        }
+        if (!db.objectStoreNames.contains(STORES.knowledgeChunks)) {
+          const store = db.createObjectStore(STORES.knowledgeChunks, { keyPath: 'id' });
+          store.createIndex('userId', 'userId');
+          store.createIndex('documentId', 'documentId');
+        }
+        // Original file bytes, kept apart so listing documents stays cheap
+        if (!db.objectStoreNames.contains(STORES.knowledgeFiles)) {
+          db.createObjectStore(STORES.knowledgeFiles, { keyPath: 'documentId' });
+        }
+        // Version 3: per-user file library, again with the bytes kept apart
+        if (!db.objectStoreNames.contains(STORES.libraryFiles)) {
+          const store = db.createObjectStore(STORES.libraryFiles, { keyPath: 'id' });
+          store.createIndex('userId', 'userId');
+        }
+        if (!db.objectStoreNames.contains(STORES.libraryContent)) {
+          db.createObjectStore(STORES.libraryContent, { keyPath: 'fileId' });
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Gave up while blocked; this connection is no longer wanted
+        if (settled) {
+          db.close();
+          return;
+        }
+        settled = true;
+        // Another tab is upgrading the schema: let it, and reopen on next use
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        // Closed by the browser, e.g. when storage is cleared
+        db.onclose = () => {
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        settled = true;
+        reject(request.error);
+      };
+      // An older version is still open in another tab. Fail now rather than
+      // wait for it, so callers carry on without their IndexedDB data.
+      request.onblocked = () => {
+        settled = true;
+        reject(new Error('The app database is in use by another tab running an older version. Close that tab and try again.'));
+      };
+    }).catch(error => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
@@ -0,0 +1,58 @@
+// Okapi BM25 ranking over the knowledge base chunks. Used on its own when no
+// embedding provider is available, and blended with vector scores otherwise.
+
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i', 'if',
+  'in', 'is', 'it', 'its', 'of', 'on', 'or', 'our', 'should', 'that', 'the', 'this', 'to', 'was', 'we',
+  'what', 'when', 'which', 'why', 'will', 'with', 'you', 'your'
+]);
+
+// Lowercased word and number tokens. Tag numbers such as P-101 or 3.5 are
+// kept whole because they are often the most specific part of a question.
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]+(?:[-./][\p{L}\p{N}]+)*/gu) ?? [])
+    .filter(token => !STOP_WORDS.has(token));
+
+export interface BM25Document {
+  id: string;
+  text: string;
+}
+
+// Score every document against the query; documents sharing no terms with
+// it are left out. Returns ids with scores, best first.
+export const bm25Search = (query: string, documents: BM25Document[], limit: number): { id: string; score: number }[] => {
+  const terms = [...new Set(tokenize(query))];
+  if (terms.length === 0 || documents.length === 0) return [];
+
+  const tokenized = documents.map(doc => tokenize(doc.text));
+  const averageLength = tokenized.reduce((total, tokens) => total + tokens.length, 0) / documents.length || 1;
+
+  const documentFrequency = new Map<string, number>();
+  for (const tokens of tokenized) {
+    for (const term of new Set(tokens)) {
+      if (terms.includes(term)) documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  const results: { id: string; score: number }[] = [];
+  tokenized.forEach((tokens, index) => {
+    const frequencies = new Map<string, number>();
+    for (const token of tokens) {
+      if (documentFrequency.has(token)) frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+    }
+    if (frequencies.size === 0) return;
+
+    let score = 0;
+    for (const [term, frequency] of frequencies) {
+      const df = documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+      score += idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * tokens.length / averageLength));
+    }
+    results.push({ id: documents[index].id, score });
+  });
+
+  return results.sort((a, b) => b.score - a.score).slice(0, limit);
+};
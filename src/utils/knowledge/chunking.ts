@@ -0,0 +1,48 @@
+import type { DocumentPage } from '../documentText';
+
+export interface TextChunk {
+  page: number;
+  text: string;
+}
+
+const CHUNK_SIZE = 900; // Characters, roughly 200 tokens
+const CHUNK_OVERLAP = 150;
+
+// Index of the best place to end a chunk at or before `limit`: a paragraph
+// break, then a line break, then a sentence end, then a space
+const findBreak = (text: string, start: number, limit: number): number => {
+  const window = text.slice(start, limit);
+  const minimum = Math.floor(window.length / 2);
+  for (const pattern of [/\n\s*\n/g, /\n/g, /[.!?;:]\s/g, /\s/g]) {
+    let best = -1;
+    for (const match of window.matchAll(pattern)) {
+      if (match.index >= minimum) best = match.index + match[0].length;
+    }
+    if (best !== -1) return start + best;
+  }
+  return limit;
+};
+
+// Split each page into overlapping chunks. Chunks never span pages, so
+// every passage can be cited with a single page number.
+export const chunkPages = (pages: DocumentPage[]): TextChunk[] => {
+  const chunks: TextChunk[] = [];
+
+  for (const { page, text } of pages) {
+    let start = 0;
+    while (start < text.length) {
+      const end = text.length - start <= CHUNK_SIZE ? text.length : findBreak(text, start, start + CHUNK_SIZE);
+      const chunk = text.slice(start, end).trim();
+      if (chunk) chunks.push({ page, text: chunk });
+      if (end >= text.length) break;
+
+      // Step back for the overlap, but always move forward and start on a word
+      let next = Math.max(end - CHUNK_OVERLAP, start + 1);
+      const space = text.indexOf(' ', next);
+      if (space !== -1 && space < end) next = space + 1;
+      start = next;
+    }
+  }
+
+  return chunks;
+};
@@ -0,0 +1,29 @@
+import { KnowledgeBaseService } from '../../services/knowledgeBaseService';
+import { fileToBytes } from '../documentText';
+import type { FileUpload } from '../../types';
+
+// Open a stored file in a new tab. Browser PDF viewers honour #page=N, so
+// citations land on the cited page. Returns false when the file is gone.
+export const openStoredFile = async (load: () => Promise<FileUpload | null>, page?: number): Promise<boolean> => {
+  // Open the tab synchronously so pop-up blockers treat it as user-initiated
+  const tab = window.open('', '_blank');
+  const file = await load();
+  if (!file) {
+    tab?.close();
+    return false;
+  }
+
+  const url = URL.createObjectURL(new Blob([fileToBytes(file)], { type: file.type || 'application/octet-stream' }));
+  const target = page && file.type === 'application/pdf' ? `${url}#page=${page}` : url;
+  if (tab) {
+    tab.location.href = target;
+  } else {
+    window.open(target, '_blank');
+  }
+  // The new tab has loaded the blob by then
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  return true;
+};
+
+export const openKnowledgeDocument = (userId: string, documentId: string, page?: number): Promise<boolean> =>
+  openStoredFile(() => KnowledgeBaseService.getFile(userId, documentId), page);
@@ -0,0 +1,66 @@
+import { GoogleGenerativeAI, TaskType } from '@google/generative-ai';
+import type { EmbeddingProvider } from '../../types';
+import { errorFromStatus, parseRetryAfter, toLLMError } from './errors';
+
+// Gemini accepts at most 100 texts per batch request
+const GEMINI_BATCH_SIZE = 100;
+
+export class GeminiEmbeddingProvider implements EmbeddingProvider {
+  private readonly client: GoogleGenerativeAI;
+
+  constructor(apiKey: string, readonly model = 'text-embedding-004') {
+    this.client = new GoogleGenerativeAI(apiKey);
+  }
+
+  async embed(texts: string[], purpose: 'document' | 'query', signal?: AbortSignal): Promise<number[][]> {
+    const model = this.client.getGenerativeModel({ model: this.model });
+    const vectors: number[][] = [];
+    try {
+      for (let i = 0; i < texts.length; i += GEMINI_BATCH_SIZE) {
+        const { embeddings } = await model.batchEmbedContents({
+          requests: texts.slice(i, i + GEMINI_BATCH_SIZE).map(text => ({
+            content: { role: 'user', parts: [{ text }] },
+            taskType: purpose === 'query' ? TaskType.RETRIEVAL_QUERY : TaskType.RETRIEVAL_DOCUMENT
+          }))
+        }, { signal });
+        vectors.push(...embeddings.map(embedding => embedding.values));
+      }
+    } catch (error) {
+      throw toLLMError(error);
+    }
+    return vectors;
+  }
+}
+
+// Any server implementing the OpenAI /embeddings endpoint
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  constructor(
+    private readonly baseUrl: string,
+    readonly model = 'text-embedding-3-small',
+    private readonly apiKey?: string
+  ) {}
+
+  async embed(texts: string[], _purpose: 'document' | 'query', signal?: AbortSignal): Promise<number[][]> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/embeddings`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+        },
+        body: JSON.stringify({ model: this.model, input: texts }),
+        signal
+      });
+    } catch (error) {
+      throw toLLMError(error);
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw errorFromStatus(response.status, `[${response.status} ${response.statusText}] ${detail}`, parseRetryAfter(response.headers.get('Retry-After')));
+    }
+    const data: { data: { index: number; embedding: number[] }[] } = await response.json();
+    return [...data.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+  }
+}
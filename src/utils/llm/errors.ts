@@ -0,0 +1,113 @@
+import type { UsageMetric } from '../../types';
+
+export type LLMErrorKind = 'auth' | 'quota' | 'limit' | 'safety' | 'network' | 'timeout' | 'empty' | 'config' | 'unknown';
+
+interface LLMErrorOptions {
+  status?: number; // HTTP status reported by the provider
+  retryAfterMs?: number; // Provider's hint for when to try again
+  cause?: unknown;
+}
+
+// Base class for every failure surfaced by the model layer
+export class LLMError extends Error {
+  readonly kind: LLMErrorKind = 'unknown';
+  readonly retryable: boolean = false;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+  readonly cause?: unknown;
+  attempts = 1; // Set by withRetry once automatic retries are exhausted
+
+  constructor(message: string, options: LLMErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.cause = options.cause;
+  }
+}
+
+export class AuthError extends LLMError {
+  readonly kind = 'auth';
+}
+
+export class QuotaError extends LLMError {
+  readonly kind = 'quota';
+  readonly retryable = true;
+}
+
+export class SafetyBlockedError extends LLMError {
+  readonly kind = 'safety';
+  readonly categories: string[];
+  readonly reason?: string; // Provider block or finish reason, e.g. SAFETY or RECITATION
+
+  constructor(message: string, categories: string[] = [], options: LLMErrorOptions & { reason?: string } = {}) {
+    super(message, options);
+    this.categories = categories;
+    this.reason = options.reason;
+  }
+}
+
+export class NetworkError extends LLMError {
+  readonly kind = 'network';
+  readonly retryable = true;
+}
+
+export class TimeoutError extends LLMError {
+  readonly kind = 'timeout';
+  readonly retryable = true;
+}
+
+export class EmptyResponseError extends LLMError {
+  readonly kind = 'empty';
+  readonly retryable = true;
+}
+
+// The user's own daily allowance (not the provider's) is used up; retrying
+// before it resets is pointless
+export class UsageLimitError extends LLMError {
+  readonly kind = 'limit';
+  readonly metric: UsageMetric;
+  readonly resetsAt: Date;
+
+  constructor(message: string, metric: UsageMetric, resetsAt: Date, options: LLMErrorOptions = {}) {
+    super(message, options);
+    this.metric = metric;
+    this.resetsAt = resetsAt;
+  }
+}
+
+// Missing key or endpoint; nothing to retry until the deployment is fixed
+export class ConfigurationError extends LLMError {
+  readonly kind = 'config';
+}
+
+// Parse a Retry-After header value (seconds or HTTP date)
+export const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Map an HTTP error status to the matching error class
+export const errorFromStatus = (status: number, message: string, retryAfterMs?: number): LLMError => {
+  const options = { status, retryAfterMs };
+  if (status === 401 || status === 403) return new AuthError(message, options);
+  if (status === 429) return new QuotaError(message, options);
+  if (status === 408 || status === 504) return new TimeoutError(message, options);
+  if (status >= 500) return new NetworkError(message, options);
+  return new LLMError(message, options);
+};
+
+// Normalize anything thrown by a provider into an LLMError
+export const toLLMError = (error: unknown): LLMError => {
+  if (error instanceof LLMError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  // fetch() rejects with a TypeError when the host can't be reached
+  if (error instanceof TypeError || /failed to fetch|network|ECONNREFUSED|ENOTFOUND/i.test(message)) {
+    return new NetworkError(message, { cause: error });
+  }
+  return new LLMError(message, { cause: error });
+};
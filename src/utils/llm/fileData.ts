@@ -0,0 +1,33 @@
+import type { FileUpload, LLMPart, LLMRequest } from '../../types';
+
+// Base64 payload of an uploaded file, without the data:mime;base64, prefix
+export const fileToBase64 = (file: FileUpload): string => {
+  if (typeof file.content === 'string') {
+    return file.content.split(',')[1] ?? '';
+  }
+
+  // Convert ArrayBuffer to base64
+  const bytes = new Uint8Array(file.content);
+  const binary = bytes.reduce((acc, byte) => acc + String.fromCharCode(byte), '');
+  return btoa(binary);
+};
+
+export const fileToInlinePart = (file: FileUpload): LLMPart => ({
+  inlineData: {
+    data: fileToBase64(file),
+    mimeType: file.type
+  }
+});
+
+// Rough token estimate (~4 characters per token) for providers without a
+// token counting endpoint. Inline files are counted by their decoded size.
+export const estimateTokens = (request: LLMRequest): number => {
+  let chars = request.systemInstruction.length;
+  for (const content of request.contents) {
+    for (const part of content.parts) {
+      chars += part.text?.length ?? 0;
+      chars += part.inlineData ? Math.floor(part.inlineData.data.length * 0.75) : 0;
+    }
+  }
+  return Math.ceil(chars / 4);
+};
@@ -0,0 +1,203 @@
+import {
+  GoogleGenerativeAI,
+  GoogleGenerativeAIFetchError,
+  GoogleGenerativeAIResponseError
+} from '@google/generative-ai';
+import type {
+  Content,
+  FunctionDeclaration,
+  GenerateContentResponse,
+  GenerativeModel,
+  ResponseSchema
+} from '@google/generative-ai';
+import type {
+  FileUpload,
+  LLMContent,
+  LLMFinishReason,
+  LLMPart,
+  LLMProvider,
+  LLMRequest,
+  LLMResponse
+} from '../../types';
+import { fileToInlinePart } from './fileData';
+import { AuthError, LLMError, QuotaError, SafetyBlockedError, errorFromStatus, toLLMError } from './errors';
+
+// google.rpc.RetryInfo carries the server's suggested wait, e.g. "27s"
+const getRetryDelay = (error: GoogleGenerativeAIFetchError): number | undefined => {
+  const info = error.errorDetails?.find(d => d['@type']?.endsWith('google.rpc.RetryInfo'));
+  const delay = typeof info?.retryDelay === 'string' ? parseFloat(info.retryDelay) : NaN;
+  return Number.isNaN(delay) ? undefined : delay * 1000;
+};
+
+// Harm categories rated as likely harmful in a blocked response
+const getBlockedCategories = (response?: GenerateContentResponse): string[] => {
+  const ratings = response?.candidates?.[0]?.safetyRatings ?? response?.promptFeedback?.safetyRatings ?? [];
+  return ratings
+    .filter(r => r.probability === 'HIGH' || r.probability === 'MEDIUM')
+    .map(r => r.category);
+};
+
+// Gemini expects function results in a separate 'function' turn and
+// pairs calls with responses by name, so call ids are dropped
+const toGeminiContent = (content: LLMContent): Content => ({
+  role: content.parts.some(p => p.functionResponse) ? 'function' : content.role,
+  parts: content.parts.map(({ functionCall, functionResponse, ...rest }) => ({
+    ...rest,
+    ...(functionCall && { functionCall: { name: functionCall.name, args: functionCall.args } }),
+    ...(functionResponse && { functionResponse: { name: functionResponse.name, response: functionResponse.response } })
+  })) as Content['parts']
+});
+
+const FINISH_REASONS: Record<string, LLMFinishReason> = {
+  STOP: 'stop',
+  MAX_TOKENS: 'max_tokens',
+  SAFETY: 'safety',
+  BLOCKLIST: 'safety',
+  PROHIBITED_CONTENT: 'safety',
+  SPII: 'safety',
+  RECITATION: 'recitation'
+};
+
+// Text of the first candidate. The SDK's text() throws once a candidate has
+// been stopped by a filter, which would lose whatever arrived before that.
+const candidateText = (response: GenerateContentResponse): string =>
+  response.candidates?.[0]?.content?.parts?.map(part => part.text ?? '').join('') ?? '';
+
+// Map a complete response, keeping finish reason, safety ratings and usage.
+// Fully blocked responses (nothing usable came back) become a SafetyBlockedError.
+const toResponse = (text: string, response: GenerateContentResponse): LLMResponse => {
+  const candidate = response.candidates?.[0];
+  const calls = candidate?.content?.parts?.flatMap(part => (part.functionCall ? [part.functionCall] : [])) ?? [];
+  const blockReason = response.promptFeedback?.blockReason ?? candidate?.finishReason;
+  const finishReason = candidate?.finishReason
+    ? FINISH_REASONS[candidate.finishReason] ?? 'other'
+    : response.promptFeedback?.blockReason ? 'safety' : undefined;
+
+  if (!text && calls.length === 0 && (finishReason === 'safety' || finishReason === 'recitation')) {
+    throw new SafetyBlockedError(
+      `Response was blocked due to ${blockReason}`,
+      getBlockedCategories(response),
+      { reason: blockReason }
+    );
+  }
+
+  const ratings = candidate?.safetyRatings ?? response.promptFeedback?.safetyRatings;
+  const usage = response.usageMetadata;
+  return {
+    text,
+    functionCalls: calls.length
+      ? calls.map(call => ({ name: call.name, args: call.args as Record<string, unknown> }))
+      : undefined,
+    finishReason: calls.length ? 'tool_calls' : finishReason,
+    safetyRatings: ratings?.map(r => ({ category: r.category, probability: r.probability })),
+    usage: usage && {
+      promptTokens: usage.promptTokenCount,
+      outputTokens: usage.candidatesTokenCount ?? 0,
+      totalTokens: usage.totalTokenCount
+    }
+  };
+};
+
+const toGeminiError = (error: unknown): LLMError => {
+  if (error instanceof GoogleGenerativeAIFetchError) {
+    const status = error.status ?? 0;
+    const retryAfterMs = getRetryDelay(error);
+    // An invalid key is reported as 400 INVALID_ARGUMENT
+    if (/API key not valid|API_KEY_INVALID/i.test(error.message)) {
+      return new AuthError(error.message, { status, cause: error });
+    }
+    if (status === 429 || /quota|RESOURCE_EXHAUSTED/i.test(error.message)) {
+      return new QuotaError(error.message, { status, retryAfterMs, cause: error });
+    }
+    return errorFromStatus(status, error.message, retryAfterMs);
+  }
+  if (error instanceof GoogleGenerativeAIResponseError && /blocked/i.test(error.message)) {
+    return new SafetyBlockedError(
+      error.message,
+      getBlockedCategories(error.response as GenerateContentResponse | undefined),
+      { cause: error }
+    );
+  }
+  return toLLMError(error);
+};
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini' as const;
+  private readonly client: GoogleGenerativeAI;
+
+  constructor(apiKey: string) {
+    this.client = new GoogleGenerativeAI(apiKey);
+  }
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    try {
+      const { chat, message } = this.startChat(request);
+      const result = await chat.sendMessage(message, { signal: request.signal });
+      return toResponse(candidateText(result.response), result.response);
+    } catch (error) {
+      throw toGeminiError(error);
+    }
+  }
+
+  async stream(request: LLMRequest, onChunk: (delta: string) => void): Promise<LLMResponse> {
+    try {
+      const { chat, message } = this.startChat(request);
+      const result = await chat.sendMessageStream(message, { signal: request.signal });
+
+      let text = '';
+      for await (const chunk of result.stream) {
+        const delta = candidateText(chunk);
+        text += delta;
+        onChunk(delta);
+      }
+      return toResponse(text, await result.response);
+    } catch (error) {
+      throw toGeminiError(error);
+    }
+  }
+
+  async countTokens(request: LLMRequest): Promise<number> {
+    try {
+      const { totalTokens } = await this.getModel(request).countTokens(
+        { contents: request.contents.map(toGeminiContent) },
+        { signal: request.signal }
+      );
+      return totalTokens;
+    } catch (error) {
+      throw toGeminiError(error);
+    }
+  }
+
+  async attachFile(file: FileUpload): Promise<LLMPart> {
+    return fileToInlinePart(file);
+  }
+
+  private getModel(request: LLMRequest): GenerativeModel {
+    return this.client.getGenerativeModel({
+      model: request.model,
+      systemInstruction: request.systemInstruction,
+      tools: request.tools?.length
+        ? [{ functionDeclarations: request.tools as unknown as FunctionDeclaration[] }]
+        : undefined,
+      generationConfig: {
+        ...request.generationConfig,
+        ...(request.responseSchema && {
+          responseMimeType: 'application/json',
+          // LLMSchema uses the same OpenAPI type names as Gemini's SchemaType
+          responseSchema: request.responseSchema as unknown as ResponseSchema
+        })
+      }
+    });
+  }
+
+  // Gemini chat sessions take the earlier turns as history and the new
+  // user turn as the message to send
+  private startChat(request: LLMRequest) {
+    const history = request.contents.slice(0, -1).map(toGeminiContent);
+    const last = request.contents[request.contents.length - 1];
+    return {
+      chat: this.getModel(request).startChat({ history }),
+      message: toGeminiContent(last).parts
+    };
+  }
+}
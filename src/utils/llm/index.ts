@@ -0,0 +1,58 @@
+import type { EmbeddingProvider, LLMProvider, LLMProviderConfig } from '../../types';
+import { LLMConfigService } from '../../services/llmConfigService';
+import { GeminiProvider } from './geminiProvider';
+import { OpenAICompatibleProvider } from './openAICompatibleProvider';
+import { ProxyEmbeddingProvider, ProxyProvider } from './proxyProvider';
+import { GeminiEmbeddingProvider, OpenAICompatibleEmbeddingProvider } from './embeddings';
+import { MockProvider } from './mockProvider';
+import { ConfigurationError } from './errors';
+
+let cached: { key: string; provider: LLMProvider } | null = null;
+
+const createProvider = (config: LLMProviderConfig): LLMProvider => {
+  switch (config.provider) {
+    case 'gemini':
+      if (!config.apiKey) {
+        throw new ConfigurationError('No Gemini API key configured. Please set VITE_LLM_PROXY_URL to use the proxy server.');
+      }
+      return new GeminiProvider(config.apiKey);
+    case 'openai-compatible':
+      if (!config.baseUrl) {
+        throw new ConfigurationError('No model endpoint configured. Please set VITE_LLM_BASE_URL for the OpenAI-compatible provider.');
+      }
+      return new OpenAICompatibleProvider(config.baseUrl, config.apiKey);
+    case 'proxy':
+      if (!config.baseUrl) {
+        throw new ConfigurationError('No proxy server configured. Please set VITE_LLM_PROXY_URL.');
+      }
+      return new ProxyProvider(config.baseUrl, config.apiKey);
+    case 'mock':
+      return new MockProvider();
+  }
+};
+
+// Provider for the current runtime configuration. Instances are reused
+// until the configuration changes.
+export const getLLMProvider = (config: LLMProviderConfig = LLMConfigService.getConfig()): LLMProvider => {
+  const key = JSON.stringify(config);
+  if (!cached || cached.key !== key) {
+    cached = { key, provider: createProvider(config) };
+  }
+  return cached.provider;
+};
+
+// Embedding provider matching the chat provider, or null when there is none
+// (offline mock mode); the knowledge base then ranks passages with BM25 alone
+export const getEmbeddingProvider = (config: LLMProviderConfig = LLMConfigService.getConfig()): EmbeddingProvider | null => {
+  const model = import.meta.env.VITE_EMBEDDING_MODEL || undefined;
+  switch (config.provider) {
+    case 'gemini':
+      return config.apiKey ? new GeminiEmbeddingProvider(config.apiKey, model) : null;
+    case 'openai-compatible':
+      return config.baseUrl ? new OpenAICompatibleEmbeddingProvider(config.baseUrl, model, config.apiKey) : null;
+    case 'proxy':
+      return config.baseUrl ? new ProxyEmbeddingProvider(config.baseUrl, config.apiKey, model) : null;
+    case 'mock':
+      return null;
+  }
+};
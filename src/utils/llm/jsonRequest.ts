@@ -0,0 +1,31 @@
+import type { LLMRequest, MembershipTier } from '../../types';
+import { QuotaService } from '../../services/quotaService';
+import { getLLMProvider } from './index';
+import { EmptyResponseError } from './errors';
+import { estimateTokens } from './fileData';
+import { requestQueue } from './requestQueue';
+import { withRetry } from './retry';
+
+// Run a small background request that answers with JSON (chat summaries,
+// follow-up suggestions) and return the parsed value. It waits in the same
+// queue as answers and counts towards the daily token allowance, but not the
+// message allowance.
+export const requestJson = async (request: LLMRequest, tier: MembershipTier, usageKey: string): Promise<unknown> => {
+  QuotaService.check(usageKey, tier, { tokens: 1 });
+
+  const provider = getLLMProvider();
+  const release = await requestQueue.acquire(QuotaService.getRateLimits(tier), { signal: request.signal });
+  try {
+    const response = await withRetry(() => provider.generate(request), { signal: request.signal });
+    QuotaService.record(usageKey, {
+      tokens: response.usage?.totalTokens ?? estimateTokens(request) + Math.ceil(response.text.length / 4)
+    });
+    try {
+      return JSON.parse(response.text);
+    } catch {
+      throw new EmptyResponseError('The model did not return valid JSON.');
+    }
+  } finally {
+    release();
+  }
+};
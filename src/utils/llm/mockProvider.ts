@@ -0,0 +1,201 @@
+import type { FileUpload, LLMPart, LLMProvider, LLMRequest, LLMResponse, StructuredAnswer, UserRole } from '../../types';
+import { estimateTokens } from './fileData';
+import {
+  ATTACHMENT_TEXT_HEADER,
+  CHAT_SUMMARY_HEADER,
+  CONTINUE_PROMPT,
+  FOLLOW_UP_HEADER,
+  IMAGE_MARKUP_HEADER,
+  KNOWLEDGE_CONTEXT_HEADER,
+  PANEL_QUESTION_HEADER,
+  PDF_CONTEXT_HEADER
+} from './prompts';
+import { structuredAnswerToText } from '../structuredAnswer';
+
+const STREAM_DELAY_MS = 15;
+// Output limit when a request does not set a usable maxOutputTokens
+const DEFAULT_MAX_OUTPUT_TOKENS = 2048;
+
+const ROLE_FOCUS: Record<UserRole, { areas: string[]; actions: string[]; compliance: string; cost: string }> = {
+  'Operations': {
+    areas: ['Machinery condition and vibration trends', 'Process stability and bottlenecks', 'Preventive maintenance coverage'],
+    actions: ['Review the last 30 days of downtime logs by equipment', 'Set vibration and temperature alarm limits on critical drives', 'Move high-failure items to a condition-based maintenance plan'],
+    compliance: 'Follow lockout/tagout procedures before any intervention on rotating equipment.',
+    cost: 'Reducing unplanned stops by even 2% usually outweighs the cost of additional monitoring.'
+  },
+  'Project Management': {
+    areas: ['Critical path and milestone slippage', 'Resource loading across contractors', 'Open risks and mitigation owners'],
+    actions: ['Re-baseline the schedule against actual progress', 'Hold a weekly look-ahead meeting with all contractors', 'Track the top ten risks with named owners and due dates'],
+    compliance: 'Keep permit-to-work and statutory inspection dates on the master schedule.',
+    cost: 'Every week of delay on the critical path carries overhead and financing cost.'
+  },
+  'Sales & Marketing': {
+    areas: ['Target segments and plant sizes', 'Competitive positioning and pricing', 'Channel and distributor coverage'],
+    actions: ['Segment accounts by capacity and replacement cycle', 'Benchmark pricing against the two closest competitors', 'Build reference case studies from recent installations'],
+    compliance: 'Check export control and local content requirements for each target market.',
+    cost: 'Focus effort on segments with the highest lifetime service revenue.'
+  },
+  'Procurement': {
+    areas: ['Vendor qualification and performance', 'Lead times for critical spares', 'Inventory levels versus consumption'],
+    actions: ['Score vendors on quality, delivery and after-sales support', 'Set reorder points for long-lead critical spares', 'Negotiate framework agreements for recurring items'],
+    compliance: 'Verify material certificates and import documentation before acceptance.',
+    cost: 'Consolidating vendors for recurring items typically yields 5-10% savings.'
+  },
+  'Erection & Commissioning': {
+    areas: ['Installation sequence and interfaces', 'Pre-commissioning check status', 'Site safety and manpower planning'],
+    actions: ['Freeze the erection sequence with the civil and mechanical teams', 'Complete loop checks and no-load trials before hot commissioning', 'Record punch list items with owners and closure dates'],
+    compliance: 'Ensure lifting plans, scaffolding inspections and permits are in place before each activity.',
+    cost: 'Thorough pre-commissioning shortens ramp-up and avoids costly rework.'
+  },
+  'Engineering & Design': {
+    areas: ['Process flow and mass balance', 'Equipment sizing margins', 'Layout, access and maintainability'],
+    actions: ['Validate the mass and heat balance against the design basis', 'Check equipment sizing against peak rather than average load', 'Review layout for maintenance access and future expansion'],
+    compliance: 'Apply the relevant design codes and document deviations formally.',
+    cost: 'Right-sizing equipment avoids both capital over-spend and energy losses from part-load operation.'
+  }
+};
+
+// Deterministic offline provider returning canned, role-aware answers.
+// Used for demos and air-gapped networks where no model endpoint is reachable.
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock' as const;
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    return this.respond(request);
+  }
+
+  async stream(request: LLMRequest, onChunk: (delta: string) => void): Promise<LLMResponse> {
+    const response = this.respond(request);
+    const { text } = response;
+    // JSON has few spaces, so stream it in fixed-size slices instead of words
+    const pieces = request.responseSchema
+      ? text.match(/[\s\S]{1,12}/g) ?? []
+      : text.match(/\S+\s*/g) ?? [];
+
+    for (const piece of pieces) {
+      await this.delay(STREAM_DELAY_MS, request.signal);
+      onChunk(piece);
+    }
+    return response;
+  }
+
+  async countTokens(request: LLMRequest): Promise<number> {
+    return estimateTokens(request);
+  }
+
+  // Files are not read offline; the answer only acknowledges them
+  async attachFile(file: FileUpload): Promise<LLMPart> {
+    return { text: `[Attached file: ${file.name}]` };
+  }
+
+  // Honour maxOutputTokens (at ~4 characters per token) so truncation and
+  // "continue" can be exercised offline
+  private respond(request: LLMRequest): LLMResponse {
+    const full = this.resolveAnswer(request);
+    const { maxOutputTokens } = request.generationConfig ?? {};
+    const tokens = Number.isFinite(maxOutputTokens) && maxOutputTokens > 0 ? maxOutputTokens : DEFAULT_MAX_OUTPUT_TOKENS;
+    const limit = tokens * 4;
+    const text = full.slice(0, limit);
+    const promptTokens = estimateTokens(request);
+    const outputTokens = Math.ceil(text.length / 4);
+
+    return {
+      text,
+      finishReason: text.length < full.length ? 'max_tokens' : 'stop',
+      safetyRatings: [],
+      usage: { promptTokens, outputTokens, totalTokens: promptTokens + outputTokens }
+    };
+  }
+
+  // A continuation request ends with [question, partial answer, "continue"];
+  // the answer is deterministic, so return the part that is still missing
+  private resolveAnswer(request: LLMRequest): string {
+    const [partial, last] = request.contents.slice(-2);
+    if (partial?.role === 'model' && last?.parts[0]?.text === CONTINUE_PROMPT) {
+      const partialText = partial.parts.map(p => p.text ?? '').join('');
+      const full = this.buildAnswer({ ...request, contents: request.contents.slice(0, -2) });
+      if (partialText && full.startsWith(partialText)) {
+        return full.slice(partialText.length);
+      }
+    }
+    return this.buildAnswer(request);
+  }
+
+  private buildAnswer(request: LLMRequest): string {
+    const lastTurn = request.contents[request.contents.length - 1];
+    const texts = lastTurn?.parts.map(p => p.text ?? '') ?? [];
+    const context = [KNOWLEDGE_CONTEXT_HEADER, PDF_CONTEXT_HEADER, IMAGE_MARKUP_HEADER, ATTACHMENT_TEXT_HEADER];
+    const question = texts
+      .filter(t => !t.startsWith('[Attached file:') && !context.some(header => t.startsWith(header)))
+      .join(' ')
+      .trim();
+    const attachments = texts.filter(t => t.startsWith('[Attached file:') || t.startsWith(ATTACHMENT_TEXT_HEADER)).length;
+    const topic = question.length > 80 ? `${question.slice(0, 80)}...` : question;
+    const note = attachments > 0 ? ` (${attachments} attached file${attachments > 1 ? 's' : ''} noted; file contents are not read in offline mode)` : '';
+    // Cite the top knowledge base excerpt so citations can be tried offline
+    const excerpt = texts.find(t => t.startsWith(KNOWLEDGE_CONTEXT_HEADER))?.match(/^\[1\] (.+), page (\d+):$/m);
+    const source = excerpt ? `Your document ${excerpt[1]} (page ${excerpt[2]}) looks relevant here [1].` : '';
+
+    // Chat history title and summary, taken from the first question
+    if (question.startsWith(CHAT_SUMMARY_HEADER)) {
+      const firstQuestion = question.match(/^User: (.+)$/m)?.[1].trim() ?? 'Plant question';
+      return JSON.stringify({
+        title: firstQuestion.split(/\s+/).slice(0, 6).join(' '),
+        summary: `Offline demo summary. The conversation started with: "${firstQuestion.slice(0, 120)}".`
+      });
+    }
+
+    // Follow-up suggestions drawn from the role's focus areas
+    if (question.startsWith(FOLLOW_UP_HEADER)) {
+      const role = question.match(/^Expertise: (.+)$/m)?.[1] as UserRole | undefined;
+      const areas = (role && ROLE_FOCUS[role]?.areas) ?? ['Safety checks', 'Costs involved', 'Next steps'];
+      return JSON.stringify({ questions: areas.map(area => `How should I approach ${area.charAt(0).toLowerCase()}${area.slice(1)}?`) });
+    }
+
+    // Expert panel synthesis: name the experts and where they would differ
+    if (question.startsWith(PANEL_QUESTION_HEADER)) {
+      const experts = [...question.matchAll(/^\[(.+) expert\]$/gm)].map(match => match[1]);
+      return [
+        '## Consolidated recommendation',
+        experts.map(expert => `- **${expert}**: ${ROLE_FOCUS[expert as UserRole]?.actions[0] ?? 'Follow the recommendations above.'}`).join('\n'),
+        '## Where the experts disagree',
+        'This is an offline demo synthesis, so the answers are not compared. Connect a live model provider to see real disagreements.'
+      ].join('\n\n');
+    }
+
+    if (!request.role || request.role === 'General AI') {
+      return `This is an offline demo answer. You asked: "${topic}"${note}.\n\n${source ? `${source}\n\n` : ''}Connect a live model provider to get a full answer to this question.`;
+    }
+
+    const focus = ROLE_FOCUS[request.role];
+    const answer: StructuredAnswer = {
+      problem: `You asked about "${topic}"${note}. From a ${request.role} perspective this is an offline demo answer generated without a live model.`,
+      analysis: source ? [source, ...focus.areas] : focus.areas,
+      recommendations: focus.actions.map((action, i) => `Step ${i + 1}: ${action}`),
+      compliance: [focus.compliance],
+      cost: [focus.cost]
+    };
+
+    return request.responseSchema
+      ? JSON.stringify(answer, null, 2)
+      : structuredAnswerToText(answer);
+  }
+
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new DOMException('Aborted', 'AbortError'));
+        return;
+      }
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new DOMException('Aborted', 'AbortError'));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
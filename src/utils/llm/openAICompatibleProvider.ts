@@ -0,0 +1,261 @@
+import type {
+  FileUpload,
+  LLMFinishReason,
+  LLMFunctionCall,
+  LLMPart,
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  LLMUsage
+} from '../../types';
+import { estimateTokens, fileToInlinePart } from './fileData';
+import { SafetyBlockedError, errorFromStatus, parseRetryAfter, toLLMError } from './errors';
+
+type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+type OpenAIMessage =
+  | { role: 'system' | 'user'; content: string | OpenAIContentPart[] }
+  | { role: 'assistant'; content: string | null; tool_calls?: OpenAIToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+const parseToolCalls = (calls: OpenAIToolCall[] | undefined): LLMFunctionCall[] | undefined => {
+  if (!calls?.length) return undefined;
+  return calls.map(call => {
+    let args: Record<string, unknown> = {};
+    try {
+      args = JSON.parse(call.function.arguments || '{}');
+    } catch {
+      // Leave args empty; the tool will report the missing inputs back to the model
+    }
+    return { id: call.id, name: call.function.name, args };
+  });
+};
+
+const FINISH_REASONS: Record<string, LLMFinishReason> = {
+  stop: 'stop',
+  length: 'max_tokens',
+  content_filter: 'safety',
+  tool_calls: 'tool_calls',
+  function_call: 'tool_calls'
+};
+
+interface OpenAIUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+const toUsage = (usage?: OpenAIUsage): LLMUsage | undefined => usage && {
+  promptTokens: usage.prompt_tokens,
+  outputTokens: usage.completion_tokens,
+  totalTokens: usage.total_tokens
+};
+
+// Complete the response; a content_filter stop with nothing to show is a block
+const finishResponse = (response: LLMResponse): LLMResponse => {
+  if (response.finishReason === 'safety' && !response.text && !response.functionCalls) {
+    throw new SafetyBlockedError('Response was withheld by the content filter', ['CONTENT_FILTER'], { reason: 'SAFETY' });
+  }
+  return response;
+};
+
+// Talks to any server implementing the OpenAI chat completions API
+// (vLLM, Ollama, LM Studio, llama.cpp server, ...) for self-hosted models
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai-compatible' as const;
+
+  constructor(private readonly baseUrl: string, private readonly apiKey?: string) {}
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.post(request, false);
+    const data = await response.json();
+    const choice = data.choices?.[0];
+    return finishResponse({
+      text: choice?.message?.content ?? '',
+      functionCalls: parseToolCalls(choice?.message?.tool_calls),
+      finishReason: choice?.finish_reason ? FINISH_REASONS[choice.finish_reason] ?? 'other' : undefined,
+      usage: toUsage(data.usage)
+    });
+  }
+
+  async stream(request: LLMRequest, onChunk: (delta: string) => void): Promise<LLMResponse> {
+    const response = await this.post(request, true);
+    if (!response.body) {
+      throw new Error('Streaming is not supported by this endpoint');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+    // Tool calls stream in as fragments keyed by index
+    const toolCalls: OpenAIToolCall[] = [];
+    let finishReason: LLMFinishReason | undefined;
+    let usage: LLMUsage | undefined;
+    const result = (): LLMResponse => finishResponse({
+      text,
+      functionCalls: parseToolCalls(toolCalls.filter(Boolean)),
+      finishReason,
+      usage
+    });
+
+    // Server-sent events: one "data: {json}" line per chunk, ending with "data: [DONE]"
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const payload = line.trim();
+        if (!payload.startsWith('data:')) continue;
+        const data = payload.slice(5).trim();
+        if (data === '[DONE]') return result();
+
+        const event = JSON.parse(data);
+        // Usage arrives in a final chunk with no choices when include_usage is set
+        usage = toUsage(event.usage) ?? usage;
+        const reason: string | undefined = event.choices?.[0]?.finish_reason;
+        if (reason) finishReason = FINISH_REASONS[reason] ?? 'other';
+
+        const choice = event.choices?.[0]?.delta ?? {};
+        const delta: string = choice.content ?? '';
+        if (delta) {
+          text += delta;
+          onChunk(delta);
+        }
+        for (const fragment of choice.tool_calls ?? []) {
+          const call = toolCalls[fragment.index] ??= {
+            id: fragment.id ?? `call_${fragment.index}`,
+            type: 'function',
+            function: { name: '', arguments: '' }
+          };
+          call.function.name += fragment.function?.name ?? '';
+          call.function.arguments += fragment.function?.arguments ?? '';
+        }
+      }
+    }
+    return result();
+  }
+
+  // The chat completions API has no token counting endpoint
+  async countTokens(request: LLMRequest): Promise<number> {
+    return estimateTokens(request);
+  }
+
+  async attachFile(file: FileUpload): Promise<LLMPart> {
+    return fileToInlinePart(file);
+  }
+
+  private async post(request: LLMRequest, stream: boolean): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model: request.model,
+          messages: this.toMessages(request),
+          temperature: request.generationConfig.temperature,
+          top_p: request.generationConfig.topP,
+          max_tokens: request.generationConfig.maxOutputTokens,
+          ...(request.tools?.length && {
+            tools: request.tools.map(tool => ({ type: 'function', function: tool }))
+          }),
+          ...(request.responseSchema && {
+            response_format: {
+              type: 'json_schema',
+              json_schema: { name: 'response', schema: request.responseSchema }
+            }
+          }),
+          stream,
+          ...(stream && { stream_options: { include_usage: true } })
+        }),
+        signal: request.signal
+      });
+    } catch (error) {
+      throw toLLMError(error);
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      const message = `[${response.status} ${response.statusText}] ${detail}`;
+      // OpenAI-style servers report moderation refusals as content_filter errors
+      if (/content_filter|content policy/i.test(detail)) {
+        throw new SafetyBlockedError(message, ['CONTENT_FILTER'], { status: response.status, reason: 'SAFETY' });
+      }
+      throw errorFromStatus(response.status, message, parseRetryAfter(response.headers.get('Retry-After')));
+    }
+    return response;
+  }
+
+  private toMessages(request: LLMRequest): OpenAIMessage[] {
+    const messages: OpenAIMessage[] = [{ role: 'system', content: request.systemInstruction }];
+
+    for (const content of request.contents) {
+      // Function results become one tool message per call
+      const responses = content.parts.filter(p => p.functionResponse);
+      if (responses.length > 0) {
+        responses.forEach(({ functionResponse }, i) => messages.push({
+          role: 'tool',
+          tool_call_id: functionResponse!.id ?? `call_${i}`,
+          content: JSON.stringify(functionResponse!.response)
+        }));
+        continue;
+      }
+
+      const calls = content.parts.filter(p => p.functionCall);
+      if (content.role === 'model') {
+        const text = content.parts.map(p => p.text ?? '').join('');
+        messages.push({
+          role: 'assistant',
+          content: text || null,
+          ...(calls.length > 0 && {
+            tool_calls: calls.map(({ functionCall }, i) => ({
+              id: functionCall!.id ?? `call_${i}`,
+              type: 'function' as const,
+              function: { name: functionCall!.name, arguments: JSON.stringify(functionCall!.args) }
+            }))
+          })
+        });
+        continue;
+      }
+
+      const parts: OpenAIContentPart[] = content.parts.map(part => {
+        if (part.inlineData?.mimeType.startsWith('image/')) {
+          return {
+            type: 'image_url',
+            image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` }
+          };
+        }
+        if (part.inlineData) {
+          // Chat completions only take text and images inline
+          return { type: 'text', text: `[Attached ${part.inlineData.mimeType} file omitted: not supported by this model endpoint]` };
+        }
+        return { type: 'text', text: part.text ?? '' };
+      });
+
+      messages.push({
+        role: 'user',
+        // Plain strings are the most widely supported form for text-only turns
+        content: parts.every(p => p.type === 'text')
+          ? parts.map(p => (p as { text: string }).text).join('\n')
+          : parts
+      });
+    }
+    return messages;
+  }
+}
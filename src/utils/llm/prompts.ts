@@ -0,0 +1,95 @@
+// Sent after an answer that hit the token limit, to have the model pick up
+// exactly where it stopped
+export const CONTINUE_PROMPT =
+  'Your previous reply was cut off. Continue it exactly from where it stopped. Output only the remaining text, without repeating anything or adding commentary.';
+
+// Opens the block of retrieved knowledge base passages added to a question
+export const KNOWLEDGE_CONTEXT_HEADER = '[Knowledge base excerpts]';
+
+// Numbered excerpts from the user's own documents, with instructions to cite
+// them by number so the answer can link back to the source page
+export const buildKnowledgeContext = (passages: { documentName: string; page: number; text: string }[]): string => [
+  KNOWLEDGE_CONTEXT_HEADER,
+  ...passages.map((passage, i) => `[${i + 1}] ${passage.documentName}, page ${passage.page}:\n${passage.text}`),
+  'These excerpts come from the user\'s own documents (SOPs, manuals, drawings). Use them where they are relevant and cite each one you rely on inline as [1], [2], etc. Ignore excerpts that do not apply, and do not cite numbers that are not listed.'
+].join('\n\n');
+
+// Opens the question handed to the panel moderator
+export const PANEL_QUESTION_HEADER = 'Question put to the panel:';
+
+// The question and every expert's answer, handed to the panel moderator
+export const buildPanelSynthesisPrompt = (question: string, answers: { role: string; content: string }[]): string => [
+  `${PANEL_QUESTION_HEADER}\n${question}`,
+  ...answers.map(answer => `[${answer.role} expert]\n${answer.content}`),
+  'Consolidate these answers into one recommendation and point out where the experts disagree.'
+].join('\n\n');
+
+// Opens the transcript handed to the chat summarizer
+export const CHAT_SUMMARY_HEADER = '[Conversation to summarize]';
+
+export const CHAT_SUMMARY_INSTRUCTION =
+  'You title and summarize conversations between an industrial plant engineer and an AI assistant for a chat history list. The title is at most 6 words, specific to the equipment or problem discussed, without quotes or a trailing period. The summary is 2-3 sentences covering what was asked and what was recommended, written in the language of the conversation.';
+
+// Transcript of the conversation, each message clipped so long answers
+// don't crowd out the rest
+export const buildChatSummaryPrompt = (messages: { role: 'user' | 'assistant'; content: string }[], maxChars = 600): string => [
+  CHAT_SUMMARY_HEADER,
+  ...messages.map(message => {
+    const text = message.content.length > maxChars ? `${message.content.slice(0, maxChars)}...` : message.content;
+    return `${message.role === 'user' ? 'User' : 'Assistant'}: ${text}`;
+  })
+].join('\n\n');
+
+// Opens the exchange handed to the follow-up question generator
+export const FOLLOW_UP_HEADER = '[Suggest follow-up questions]';
+
+export const FOLLOW_UP_INSTRUCTION =
+  'You suggest what a less experienced plant engineer could usefully ask next. Given one question and its answer, write 3-4 follow-up questions from the point of view of the stated expertise. Each question is under 15 words, specific to the equipment, numbers and situation discussed, and not already answered. Write them in the language of the conversation, in the first person, as the engineer would ask them.';
+
+export const buildFollowUpPrompt = (role: string, question: string, answer: string, maxChars = 2000): string => [
+  FOLLOW_UP_HEADER,
+  `Expertise: ${role}`,
+  `Question:\n${question}`,
+  `Answer:\n${answer.length > maxChars ? `${answer.slice(0, maxChars)}...` : answer}`
+].join('\n\n');
+
+// Opens the text taken from an attached PDF
+export const PDF_CONTEXT_HEADER = '[Attached PDF]';
+
+// Text of an attached PDF, each excerpt labelled with its page (and section
+// where one was found) so the answer can point back to it
+export const buildPdfContext = (
+  fileName: string,
+  pageCount: number,
+  scope: string,
+  excerpts: { page: number; section?: string; text: string }[]
+): string => [
+  `${PDF_CONTEXT_HEADER} ${fileName} (${pageCount} pages; ${scope})`,
+  ...excerpts.map(excerpt => `--- Page ${excerpt.page}${excerpt.section ? `, section ${excerpt.section}` : ''} ---\n${excerpt.text}`),
+  'When you use this document, say which page (and section, if given) each point comes from, e.g. "page 112, section 4.3".'
+].join('\n\n');
+
+// Opens the text taken from an attached Word, text, email or DXF file
+export const ATTACHMENT_TEXT_HEADER = '[Attached file text]';
+
+// Text extracted from an attachment, noting when the middle was left out
+export const buildAttachmentTextContext = (
+  fileName: string,
+  kindName: string,
+  summary: string,
+  text: string,
+  omittedLines: number
+): string => [
+  `${ATTACHMENT_TEXT_HEADER} ${fileName} (${kindName}; ${summary}${omittedLines > 0 ? `; ${omittedLines} lines in the middle left out` : ''})`,
+  text || '(no text found)'
+].join('\n\n');
+
+// Opens the description of the markup on an attached photo
+export const IMAGE_MARKUP_HEADER = '[Image markup]';
+
+// Sent just before an annotated photo so the model knows where to look
+export const buildImageMarkupContext = (fileName: string, annotations: string[]): string => [
+  `${IMAGE_MARKUP_HEADER} The user marked up ${fileName} to point out the problem area. Positions are percentages of the image width (x) and height (y) from the top-left corner:`,
+  annotations.map((annotation, i) => `${i + 1}. ${annotation}`).join('\n'),
+  'Focus on the marked areas and refer to the marks when describing what you see.'
+].join('\n\n');
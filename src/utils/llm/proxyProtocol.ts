@@ -0,0 +1,82 @@
+import type { LLMRequest, LLMResponse, UsageMetric } from '../../types';
+import {
+  AuthError,
+  ConfigurationError,
+  EmptyResponseError,
+  LLMError,
+  NetworkError,
+  QuotaError,
+  SafetyBlockedError,
+  TimeoutError,
+  UsageLimitError
+} from './errors';
+import type { LLMErrorKind } from './errors';
+
+// Wire format shared by the proxy server (server/) and ProxyProvider
+
+// Body of /api/chat and /api/chat/stream: the request without its abort signal
+export type ProxyChatRequest = Omit<LLMRequest, 'signal'>;
+
+export interface ProxyError {
+  kind: LLMErrorKind;
+  message: string;
+  retryAfterMs?: number;
+  categories?: string[]; // Safety blocks only
+  reason?: string;
+  metric?: UsageMetric; // Daily allowance errors only; retryAfterMs says when it resets
+}
+
+// /api/chat/stream answers with one JSON event per line: text deltas, then
+// either the complete response or an error
+export type ProxyStreamEvent =
+  | { delta: string }
+  | { response: LLMResponse }
+  | { error: ProxyError };
+
+// Body of /api/embeddings. model must be the server's embedding model, so
+// vectors stored with a document are only compared with vectors of the same
+// model.
+export interface ProxyEmbeddingRequest {
+  model: string;
+  texts: string[];
+  purpose: 'document' | 'query';
+}
+
+export interface ProxyEmbeddingResponse {
+  embeddings: number[][]; // One vector per text, in order
+}
+
+// Most texts and characters per text in one /api/embeddings request
+export const MAX_EMBEDDING_TEXTS = 100;
+export const MAX_EMBEDDING_TEXT_CHARS = 4000;
+
+// Answer of /api/session
+export interface ProxySession {
+  token: string;
+  expiresAt: number; // Epoch milliseconds
+  userId: string; // Id the server gave this client
+}
+
+export const toProxyError = (error: LLMError): ProxyError => ({
+  kind: error.kind,
+  message: error.message,
+  retryAfterMs: error.retryAfterMs,
+  ...(error instanceof SafetyBlockedError && { categories: error.categories, reason: error.reason }),
+  ...(error instanceof UsageLimitError && { metric: error.metric })
+});
+
+// Rebuild the error class the server reported
+export const fromProxyError = (error: ProxyError, status?: number): LLMError => {
+  const options = { status, retryAfterMs: error.retryAfterMs };
+  switch (error.kind) {
+    case 'auth': return new AuthError(error.message, options);
+    case 'quota': return new QuotaError(error.message, options);
+    case 'limit': return new UsageLimitError(error.message, error.metric ?? 'tokens', new Date(Date.now() + (error.retryAfterMs ?? 0)), options);
+    case 'safety': return new SafetyBlockedError(error.message, error.categories, { ...options, reason: error.reason });
+    case 'network': return new NetworkError(error.message, options);
+    case 'timeout': return new TimeoutError(error.message, options);
+    case 'empty': return new EmptyResponseError(error.message, options);
+    case 'config': return new ConfigurationError(error.message, options);
+    default: return new LLMError(error.message, options);
+  }
+};
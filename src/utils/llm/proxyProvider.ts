@@ -0,0 +1,141 @@
+import type { EmbeddingProvider, FileUpload, LLMPart, LLMProvider, LLMRequest, LLMResponse } from '../../types';
+import { ProxySessionService } from '../../services/proxySessionService';
+import { estimateTokens, fileToInlinePart } from './fileData';
+import { NetworkError, errorFromStatus, parseRetryAfter, toLLMError } from './errors';
+import type { LLMError } from './errors';
+import { MAX_EMBEDDING_TEXTS, MAX_EMBEDDING_TEXT_CHARS, fromProxyError } from './proxyProtocol';
+import type { ProxyChatRequest, ProxyEmbeddingRequest, ProxyEmbeddingResponse, ProxyError, ProxyStreamEvent } from './proxyProtocol';
+
+const toProxyFailure = async (response: Response): Promise<LLMError> => {
+  const detail = await response.text().catch(() => '');
+  const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+  let error: ProxyError | undefined;
+  try {
+    error = (JSON.parse(detail) as { error?: ProxyError }).error;
+  } catch {
+    // Not from the proxy itself (e.g. a gateway in front of it)
+  }
+  return error?.kind
+    ? fromProxyError({ ...error, retryAfterMs: error.retryAfterMs ?? retryAfterMs }, response.status)
+    : errorFromStatus(response.status, `[${response.status} ${response.statusText}] ${detail}`, retryAfterMs);
+};
+
+// POST a JSON body to the proxy with a session token, starting a new session
+// once if the server rejects the saved one
+const postToProxy = async (
+  baseUrl: string,
+  accessKey: string | undefined,
+  path: string,
+  body: unknown,
+  signal?: AbortSignal,
+  isRetry = false
+): Promise<Response> => {
+  const token = await ProxySessionService.getToken(baseUrl, accessKey, signal);
+
+  let response: Response;
+  try {
+    response = await fetch(`${baseUrl.replace(/\/$/, '')}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`
+      },
+      body: JSON.stringify(body),
+      signal
+    });
+  } catch (error) {
+    throw toLLMError(error);
+  }
+
+  // The token expired or the server's signing secret changed; start over once
+  if (response.status === 401 && !isRetry) {
+    ProxySessionService.clear();
+    return postToProxy(baseUrl, accessKey, path, body, signal, true);
+  }
+  if (!response.ok) {
+    throw await toProxyFailure(response);
+  }
+  return response;
+};
+
+// Sends requests to our own proxy server (server/), which holds the provider
+// API key and applies rate limits and a daily allowance before forwarding them
+export class ProxyProvider implements LLMProvider {
+  readonly name = 'proxy' as const;
+
+  constructor(private readonly baseUrl: string, private readonly accessKey?: string) {}
+
+  async generate(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.post('/api/chat', request);
+    return response.json();
+  }
+
+  async stream(request: LLMRequest, onChunk: (delta: string) => void): Promise<LLMResponse> {
+    const response = await this.post('/api/chat/stream', request);
+    if (!response.body) {
+      throw new Error('Streaming is not supported by this endpoint');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    // Newline-delimited JSON: deltas, then the complete response or an error
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const event: ProxyStreamEvent = JSON.parse(line);
+        if ('delta' in event) onChunk(event.delta);
+        if ('error' in event) throw fromProxyError(event.error);
+        if ('response' in event) return event.response;
+      }
+    }
+    throw new NetworkError('The proxy closed the connection before the answer was complete.');
+  }
+
+  // The proxy has no token counting endpoint
+  async countTokens(request: LLMRequest): Promise<number> {
+    return estimateTokens(request);
+  }
+
+  async attachFile(file: FileUpload): Promise<LLMPart> {
+    return fileToInlinePart(file);
+  }
+
+  private post(path: string, request: LLMRequest): Promise<Response> {
+    const { signal, ...body } = request;
+    return postToProxy(this.baseUrl, this.accessKey, path, body satisfies ProxyChatRequest, signal);
+  }
+}
+
+// Our proxy server (server/), embedding with the provider key it holds. The
+// model has to match the server's EMBEDDING_MODEL.
+export class ProxyEmbeddingProvider implements EmbeddingProvider {
+  constructor(
+    private readonly baseUrl: string,
+    private readonly accessKey?: string,
+    readonly model = 'text-embedding-004'
+  ) {}
+
+  async embed(texts: string[], purpose: 'document' | 'query', signal?: AbortSignal): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += MAX_EMBEDDING_TEXTS) {
+      const request: ProxyEmbeddingRequest = {
+        model: this.model,
+        texts: texts.slice(i, i + MAX_EMBEDDING_TEXTS).map(text => text.slice(0, MAX_EMBEDDING_TEXT_CHARS)),
+        purpose
+      };
+      const response = await postToProxy(this.baseUrl, this.accessKey, '/api/embeddings', request, signal);
+      const { embeddings }: ProxyEmbeddingResponse = await response.json();
+      vectors.push(...embeddings);
+    }
+    return vectors;
+  }
+}
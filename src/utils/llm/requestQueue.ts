@@ -0,0 +1,96 @@
+import type { RateLimits } from '../../types';
+
+const WINDOW_MS = 60_000;
+
+export interface QueueWaitInfo {
+  position: number; // 1 = next to start
+  waitMs?: number; // Set when the head of the queue is held back by the rate limit
+}
+
+interface Waiter {
+  limits: RateLimits;
+  start: () => void;
+  onWait?: (info: QueueWaitInfo) => void;
+}
+
+// FIFO gate in front of the model provider. Requests start in order, with at
+// most maxConcurrent in flight and requestsPerMinute started in any rolling
+// minute; the rest wait their turn instead of failing.
+export class RequestQueue {
+  private active = 0;
+  private started: number[] = []; // Start times within the last minute
+  private waiting: Waiter[] = [];
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  // Resolve with a release function once the request may start. Aborting
+  // the signal while queued rejects with an AbortError.
+  acquire(
+    limits: RateLimits,
+    options: { signal?: AbortSignal; onWait?: (info: QueueWaitInfo) => void } = {}
+  ): Promise<() => void> {
+    const { signal, onWait } = options;
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new DOMException('Aborted', 'AbortError'));
+        return;
+      }
+
+      let released = false;
+      const release = () => {
+        if (released) return;
+        released = true;
+        this.active--;
+        this.pump();
+      };
+      const onAbort = () => {
+        this.waiting = this.waiting.filter(w => w !== waiter);
+        reject(new DOMException('Aborted', 'AbortError'));
+        this.pump();
+      };
+      const waiter: Waiter = {
+        limits,
+        onWait,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(release);
+        }
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.waiting.push(waiter);
+      this.pump();
+    });
+  }
+
+  // Start as many waiting requests as the limits allow, then tell the rest
+  // where they stand
+  private pump(): void {
+    clearTimeout(this.timer);
+    const now = Date.now();
+    this.started = this.started.filter(time => now - time < WINDOW_MS);
+
+    let rateWaitMs: number | undefined;
+    while (this.waiting.length > 0) {
+      const { limits } = this.waiting[0];
+      if (this.active >= limits.maxConcurrent) break;
+      if (this.started.length >= limits.requestsPerMinute) {
+        rateWaitMs = this.started[0] + WINDOW_MS - now;
+        this.timer = setTimeout(() => this.pump(), rateWaitMs);
+        break;
+      }
+
+      const next = this.waiting.shift()!;
+      this.active++;
+      this.started.push(now);
+      next.start();
+    }
+
+    this.waiting.forEach((waiter, index) => waiter.onWait?.({
+      position: index + 1,
+      waitMs: index === 0 ? rateWaitMs : undefined
+    }));
+  }
+}
+
+// Shared by every model request in this tab
+export const requestQueue = new RequestQueue();
@@ -0,0 +1,55 @@
+import { LLMError, toLLMError } from './errors';
+
+export interface RetryOptions {
+  retries?: number; // Extra attempts after the first one
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  onRetry?: (error: LLMError, attempt: number, delayMs: number) => void;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Exponential backoff with full jitter, never sooner than the provider's retry hint
+export const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number, retryAfterMs?: number): number => {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  const jittered = Math.random() * ceiling;
+  return Math.max(jittered, retryAfterMs ?? 0);
+};
+
+// Run fn, retrying transient (retryable) failures. The final error carries
+// the number of attempts made.
+export const withRetry = async <T>(fn: (attempt: number) => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { retries = 3, baseDelayMs = 1000, maxDelayMs = 15000, signal, onRetry } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (err) {
+      const error = toLLMError(err);
+      error.attempts = attempt + 1;
+      if (signal?.aborted || !error.retryable || attempt >= retries) {
+        throw error;
+      }
+
+      const delay = backoffDelay(attempt, baseDelayMs, maxDelayMs, error.retryAfterMs);
+      // Waiting longer than the cap (e.g. a daily quota reset) isn't worth blocking the UI for
+      if (delay > maxDelayMs) {
+        throw error;
+      }
+      onRetry?.(error, attempt + 1, delay);
+      await sleep(delay, signal);
+    }
+  }
+};
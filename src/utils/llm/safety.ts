@@ -0,0 +1,54 @@
+import type { LLMSafetyRating } from '../../types';
+
+interface SafetyCategoryInfo {
+  label: string;
+  explanation: string;
+}
+
+// Plain-language explanations for the categories providers flag
+const SAFETY_CATEGORIES: Record<string, SafetyCategoryInfo> = {
+  HARM_CATEGORY_DANGEROUS_CONTENT: {
+    label: 'Dangerous content',
+    explanation: 'Looked like instructions that could cause serious harm, such as bypassing interlocks or handling explosives. Framing the question around safe operation, standards and controls usually helps.'
+  },
+  HARM_CATEGORY_HARASSMENT: {
+    label: 'Harassment',
+    explanation: 'Contained language that reads as targeting or demeaning a person or group.'
+  },
+  HARM_CATEGORY_HATE_SPEECH: {
+    label: 'Hate speech',
+    explanation: 'Contained language that reads as attacking people based on a protected attribute.'
+  },
+  HARM_CATEGORY_SEXUALLY_EXPLICIT: {
+    label: 'Sexually explicit',
+    explanation: 'Contained sexually explicit content.'
+  },
+  HARM_CATEGORY_CIVIC_INTEGRITY: {
+    label: 'Civic integrity',
+    explanation: 'Touched on elections or civic processes, which the provider restricts.'
+  },
+  CONTENT_FILTER: {
+    label: 'Content filter',
+    explanation: 'The provider\'s content filter withheld the answer without naming a category.'
+  }
+};
+
+// Why a response was cut short, for finish/block reasons other than a harm category
+export const BLOCK_REASON_EXPLANATIONS: Record<string, string> = {
+  SAFETY: 'The provider\'s safety filters stopped the answer.',
+  RECITATION: 'The answer closely matched published material, so the provider withheld it. Ask for a summary or an explanation in your own context instead of verbatim text.',
+  BLOCKLIST: 'The question contained terms on the provider\'s blocklist.',
+  PROHIBITED_CONTENT: 'The provider considers this content prohibited.',
+  SPII: 'The answer would have contained sensitive personal information.',
+  OTHER: 'The provider blocked the request without giving a reason.'
+};
+
+export const describeSafetyCategory = (category: string): SafetyCategoryInfo =>
+  SAFETY_CATEGORIES[category] ?? {
+    label: category.replace(/^HARM_CATEGORY_/, '').replace(/_/g, ' ').toLowerCase(),
+    explanation: 'Flagged by the provider\'s safety filters.'
+  };
+
+// Ratings worth showing the user: anything blocked or rated medium or high
+export const isFlaggedRating = (rating: LLMSafetyRating): boolean =>
+  !!rating.blocked || rating.probability === 'MEDIUM' || rating.probability === 'HIGH';
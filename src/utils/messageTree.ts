@@ -0,0 +1,94 @@
+import type { Message, MessageTree } from '../types';
+
+export const createMessageTree = (): MessageTree => ({ nodes: {}, rootIds: [], activePath: [] });
+
+// A single-branch tree holding messages in order (used to migrate flat histories)
+export const treeFromMessages = (messages: Message[]): MessageTree =>
+  messages.reduce((tree, message) => appendMessage(tree, message), createMessageTree());
+
+// The messages of the branch being shown, in order
+export const getActiveMessages = (tree: MessageTree): Message[] =>
+  tree.activePath.map(id => tree.nodes[id]?.message).filter((m): m is Message => !!m);
+
+// Message ids from the root down to messageId
+export const getPathTo = (tree: MessageTree, messageId: string): string[] => {
+  const path: string[] = [];
+  for (let id: string | null = messageId; id && tree.nodes[id]; id = tree.nodes[id].parentId) {
+    path.unshift(id);
+  }
+  return path;
+};
+
+// The versions of a message: itself and every other child of its parent
+export const getSiblingIds = (tree: MessageTree, messageId: string): string[] => {
+  const parentId = tree.nodes[messageId]?.parentId;
+  return parentId ? tree.nodes[parentId].childIds : tree.rootIds;
+};
+
+// Add message under parentId (null for a new root) and show the branch it ends
+export const addMessage = (tree: MessageTree, parentId: string | null, message: Message): MessageTree => {
+  const nodes = { ...tree.nodes, [message.id]: { message, parentId, childIds: [] } };
+  if (parentId) {
+    const parent = tree.nodes[parentId];
+    nodes[parentId] = { ...parent, childIds: [...parent.childIds, message.id] };
+  }
+  return {
+    nodes,
+    rootIds: parentId ? tree.rootIds : [...tree.rootIds, message.id],
+    activePath: [...(parentId ? getPathTo(tree, parentId) : []), message.id]
+  };
+};
+
+// Add message after the last message of the branch being shown
+export const appendMessage = (tree: MessageTree, message: Message): MessageTree =>
+  addMessage(tree, tree.activePath[tree.activePath.length - 1] ?? null, message);
+
+export const updateMessage = (tree: MessageTree, messageId: string, update: (message: Message) => Message): MessageTree => {
+  const node = tree.nodes[messageId];
+  if (!node) return tree;
+  return { ...tree, nodes: { ...tree.nodes, [messageId]: { ...node, message: update(node.message) } } };
+};
+
+// Remove a message together with every reply below it
+export const removeMessage = (tree: MessageTree, messageId: string): MessageTree => {
+  const node = tree.nodes[messageId];
+  if (!node) return tree;
+
+  const nodes = { ...tree.nodes };
+  const stack = [messageId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    stack.push(...(nodes[id]?.childIds ?? []));
+    delete nodes[id];
+  }
+  if (node.parentId) {
+    const parent = nodes[node.parentId];
+    nodes[node.parentId] = { ...parent, childIds: parent.childIds.filter(id => id !== messageId) };
+  }
+
+  const cut = tree.activePath.indexOf(messageId);
+  return {
+    nodes,
+    rootIds: tree.rootIds.filter(id => id !== messageId),
+    activePath: cut === -1 ? tree.activePath : tree.activePath.slice(0, cut)
+  };
+};
+
+// Show the branch through messageId, following its newest replies down to a leaf
+export const switchBranch = (tree: MessageTree, messageId: string): MessageTree => {
+  if (!tree.nodes[messageId]) return tree;
+  const activePath = getPathTo(tree, messageId);
+  for (let childIds = tree.nodes[messageId].childIds; childIds.length > 0;) {
+    const childId = childIds[childIds.length - 1];
+    activePath.push(childId);
+    childIds = tree.nodes[childId].childIds;
+  }
+  return { ...tree, activePath };
+};
+
+export const mapMessages = (tree: MessageTree, map: (message: Message) => Message): MessageTree => ({
+  ...tree,
+  nodes: Object.fromEntries(
+    Object.entries(tree.nodes).map(([id, node]) => [id, { ...node, message: map(node.message) }])
+  )
+});
@@ -0,0 +1,161 @@
+import type { FileUpload, LLMPart } from '../types';
+import { extractDocumentPages, renderPdfPages } from './documentText';
+import type { DocumentPage } from './documentText';
+import { chunkPages } from './knowledge/chunking';
+import { bm25Search } from './knowledge/bm25';
+import { buildPdfContext } from './llm/prompts';
+
+// Selected pages are sent whole up to this many characters (~15k tokens)...
+const FULL_TEXT_CHARS = 60_000;
+// ...beyond that, only the chunks that best match the question, up to this
+const EXCERPT_CHARS = 24_000;
+// Pages without a text layer are sent as images, at most this many
+const MAX_IMAGE_PAGES = 8;
+const IMAGE_WIDTH = 1000;
+// Extracted documents kept for the picker and for later turns
+const CACHE_SIZE = 3;
+
+// Numbered headings such as "4.3 Lubrication" or "12.1.2 Alignment checks"
+const SECTION_HEADING = /^[ \t]*(\d{1,2}(?:\.\d{1,2}){1,3})\.?[ \t]+([A-Z][^\n]{2,60})$/gm;
+
+interface Excerpt {
+  page: number;
+  section?: string;
+  text: string;
+}
+
+// "1-5, 12, 110-115" as sorted page numbers; pages outside the document are dropped
+export const parsePageRanges = (input: string, pageCount: number): number[] => {
+  const pages = new Set<number>();
+  for (const part of input.split(',')) {
+    const match = part.trim().match(/^(\d+)(?:\s*-\s*(\d+))?$/);
+    if (!match) continue;
+    const from = Number(match[1]);
+    const to = Number(match[2] ?? match[1]);
+    for (let page = Math.max(1, Math.min(from, to)); page <= Math.min(pageCount, Math.max(from, to)); page++) {
+      pages.add(page);
+    }
+  }
+  return [...pages].sort((a, b) => a - b);
+};
+
+// Sorted page numbers as compact ranges, e.g. "1-3, 5"
+export const formatPageRanges = (pages: number[]): string => {
+  const ranges: string[] = [];
+  for (let i = 0; i < pages.length; i++) {
+    const start = pages[i];
+    while (i + 1 < pages.length && pages[i + 1] === pages[i] + 1) i++;
+    ranges.push(start === pages[i] ? `${start}` : `${start}-${pages[i]}`);
+  }
+  return ranges.join(', ');
+};
+
+const cache = new Map<string, Promise<DocumentPage[]>>();
+
+// Text of every page, cached by file id
+export const extractPdfText = (file: FileUpload): Promise<DocumentPage[]> => {
+  const cached = cache.get(file.id);
+  if (cached) return cached;
+
+  const pages = extractDocumentPages(file).catch(error => {
+    cache.delete(file.id);
+    throw error;
+  });
+  cache.set(file.id, pages);
+  if (cache.size > CACHE_SIZE) {
+    cache.delete(cache.keys().next().value as string);
+  }
+  return pages;
+};
+
+// Section headings on each page, plus the section still open from earlier pages
+const findSections = (pages: DocumentPage[]) => {
+  let carried: string | undefined;
+  return new Map(pages.map(({ page, text }) => {
+    const headings = [...text.matchAll(SECTION_HEADING)].map(match => ({
+      index: match.index,
+      label: `${match[1]} ${match[2].trim()}`
+    }));
+    const entry = { carried, headings };
+    if (headings.length > 0) carried = headings[headings.length - 1].label;
+    return [page, entry];
+  }));
+};
+
+type Sections = ReturnType<typeof findSections>;
+
+// Section in force at a position on a page
+const sectionAt = (sections: Sections, page: number, offset: number): string | undefined => {
+  const entry = sections.get(page);
+  if (!entry) return undefined;
+  const before = entry.headings.filter(heading => heading.index <= offset);
+  return before[before.length - 1]?.label ?? entry.carried ?? entry.headings[0]?.label;
+};
+
+// Chunks matching the question, in document order, within the excerpt budget.
+// A question with no terms in common with the document (e.g. "summarise this")
+// gets chunks spread evenly over it instead.
+const pickExcerpts = (pages: DocumentPage[], sections: Sections, question: string): Excerpt[] => {
+  const chunks = chunkPages(pages);
+  const ranked = bm25Search(question, chunks.map((chunk, i) => ({ id: String(i), text: chunk.text })), chunks.length);
+  const averageLength = chunks.reduce((total, chunk) => total + chunk.text.length, 0) / chunks.length || 1;
+  const step = Math.max(1, Math.ceil((chunks.length * averageLength) / EXCERPT_CHARS));
+  // Each match brings the chunk after it along, so excerpts don't stop mid-procedure
+  const order = ranked.length > 0
+    ? [...new Set(ranked.flatMap(result => [Number(result.id), Number(result.id) + 1]))].filter(i => i < chunks.length)
+    : chunks.map((_, i) => i).filter(i => i % step === 0);
+
+  const picked: number[] = [];
+  let used = 0;
+  for (const index of order) {
+    if (used + chunks[index].text.length > EXCERPT_CHARS) continue;
+    picked.push(index);
+    used += chunks[index].text.length;
+  }
+
+  const pageText = new Map(pages.map(p => [p.page, p.text]));
+  return picked
+    .sort((a, b) => a - b)
+    .map(index => {
+      const { page, text } = chunks[index];
+      const offset = pageText.get(page)?.indexOf(text.slice(0, 50)) ?? 0;
+      return { page, section: sectionAt(sections, page, Math.max(0, offset)), text };
+    });
+};
+
+// Scanned pages rendered as images, each preceded by its page number
+const scannedPageParts = async (file: FileUpload, pageNumbers: number[], pageCount: number, scope: string): Promise<LLMPart[]> => {
+  const sent = pageNumbers.slice(0, MAX_IMAGE_PAGES);
+  const images: LLMPart[] = [];
+  await renderPdfPages(file, sent, IMAGE_WIDTH, (page, dataUrl) => {
+    images.push({ text: `--- Page ${page} ---` }, { inlineData: { mimeType: 'image/jpeg', data: dataUrl.split(',')[1] ?? '' } });
+  });
+  const note = sent.length < pageNumbers.length
+    ? `no text layer; pages ${formatPageRanges(sent)} attached as images`
+    : 'no text layer; pages attached as images';
+  return [{ text: buildPdfContext(file.name, pageCount, `${scope}; ${note}`, []) }, ...images];
+};
+
+// Parts for an attached PDF, limited to the pages picked on the upload: their
+// text when it fits, otherwise the excerpts that best match the question
+export const buildPdfParts = async (file: FileUpload, question: string): Promise<LLMPart[]> => {
+  const pages = await extractPdfText(file);
+  const wanted = new Set(file.pdf?.pages ?? pages.map(p => p.page));
+  const selected = pages.filter(p => wanted.has(p.page));
+  const scope = selected.length < pages.length ? `pages ${formatPageRanges(selected.map(p => p.page))}` : 'all pages';
+
+  const withText = selected.filter(p => p.text.trim());
+  if (withText.length === 0) {
+    return scannedPageParts(file, selected.map(p => p.page), pages.length, scope);
+  }
+
+  const sections = findSections(pages);
+  const totalChars = withText.reduce((total, p) => total + p.text.length, 0);
+  if (totalChars <= FULL_TEXT_CHARS) {
+    const excerpts = withText.map(p => ({ page: p.page, section: sectionAt(sections, p.page, 0), text: p.text }));
+    return [{ text: buildPdfContext(file.name, pages.length, scope, excerpts) }];
+  }
+
+  const excerpts = pickExcerpts(withText, sections, question);
+  return [{ text: buildPdfContext(file.name, pages.length, `${scope}; excerpts most relevant to the question`, excerpts) }];
+};
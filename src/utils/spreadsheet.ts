@@ -0,0 +1,284 @@
+import type { WorkSheet } from 'xlsx';
+import type { FileUpload, SpreadsheetOptions, SpreadsheetSampling } from '../types';
+import { fileToBytes } from './documentText';
+
+export type CellValue = string | number | boolean | Date | null;
+
+export type ColumnType = 'number' | 'date' | 'boolean' | 'text' | 'empty';
+
+export interface SpreadsheetColumn {
+  name: string; // Header text, or the column letter when the sheet has no header row
+  letter: string; // A, B, ..., AA
+  type: ColumnType;
+}
+
+export interface SpreadsheetSheet {
+  name: string;
+  columns: SpreadsheetColumn[];
+  rows: CellValue[][]; // Data rows without the header, one value per column
+  firstRow: number; // Sheet row number of rows[0], as shown in Excel
+}
+
+export class SpreadsheetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SpreadsheetError';
+  }
+}
+
+const SPREADSHEET_EXTENSIONS = /\.(xlsx|xls|csv)$/i;
+const CSV_FILE = /\.csv$/i;
+
+// A column takes a type when at least this share of its filled cells have it
+const TYPE_SHARE = 0.8;
+// Largest table sent to the model per file; bigger selections are sampled down
+const MAX_TABLE_CELLS = 5000;
+const MAX_CELL_LENGTH = 80;
+const TOP_VALUES = 3;
+// Sheets up to this many rows are sent whole by default
+const SMALL_SHEET_ROWS = 200;
+export const DEFAULT_SAMPLE_SIZE = 100;
+// Parsed workbooks kept for the preview and for resending in later turns
+const CACHE_SIZE = 5;
+
+export const isSpreadsheet = (file: Pick<FileUpload, 'name' | 'type'>): boolean =>
+  SPREADSHEET_EXTENSIONS.test(file.name) ||
+  file.type === 'text/csv' ||
+  file.type.includes('spreadsheet') ||
+  file.type.includes('excel');
+
+// SheetJS is large, so it is only loaded the first time a spreadsheet is read
+const loadSheetJs = () => import('xlsx');
+
+// Spreadsheet column letter for a 0-based index
+export const columnLetter = (index: number): string => {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+};
+
+const isFilled = (value: CellValue): value is Exclude<CellValue, null> => value !== null && value !== '';
+
+const TYPE_TESTS: [ColumnType, (value: CellValue) => boolean][] = [
+  ['number', value => typeof value === 'number'],
+  ['date', value => value instanceof Date],
+  ['boolean', value => typeof value === 'boolean']
+];
+
+const inferType = (values: CellValue[]): ColumnType => {
+  const filled = values.filter(isFilled);
+  if (filled.length === 0) return 'empty';
+  const match = TYPE_TESTS.find(([, test]) => filled.filter(test).length / filled.length >= TYPE_SHARE);
+  return match ? match[0] : 'text';
+};
+
+// The first row is a header when it is all text labels
+const isHeaderRow = (row: CellValue[]): boolean => {
+  const filled = row.filter(isFilled);
+  return filled.length > 0 && filled.length >= row.length / 2 &&
+    filled.every(value => typeof value === 'string' && Number.isNaN(Number(value)));
+};
+
+const toSheet = (name: string, grid: CellValue[][]): SpreadsheetSheet => {
+  const width = grid.reduce((max, row) => Math.max(max, row.length), 0);
+  const normalized = grid.map(row =>
+    Array.from({ length: width }, (_, i) => {
+      const value = row[i] ?? null;
+      return typeof value === 'string' ? value.trim() || null : value;
+    })
+  );
+
+  const hasHeader = normalized.length > 1 && isHeaderRow(normalized[0]);
+  const header = hasHeader ? normalized[0] : [];
+  const rows = hasHeader ? normalized.slice(1) : normalized;
+  return {
+    name,
+    columns: Array.from({ length: width }, (_, i) => ({
+      name: isFilled(header[i] ?? null) ? String(header[i]) : columnLetter(i),
+      letter: columnLetter(i),
+      type: inferType(rows.map(row => row[i]))
+    })),
+    rows,
+    firstRow: hasHeader ? 2 : 1
+  };
+};
+
+const readWorkbook = async (file: FileUpload): Promise<SpreadsheetSheet[]> => {
+  const XLSX = await loadSheetJs();
+  const bytes = fileToBytes(file);
+  // CSV bytes would be read as Latin-1; decode them as UTF-8 first
+  const workbook = CSV_FILE.test(file.name) || file.type === 'text/csv'
+    ? XLSX.read(new TextDecoder().decode(bytes), { type: 'string', cellDates: true })
+    : XLSX.read(bytes, { type: 'array', cellDates: true });
+
+  return workbook.SheetNames.map(name => {
+    const worksheet: WorkSheet = workbook.Sheets[name];
+    const grid = XLSX.utils.sheet_to_json<CellValue[]>(worksheet, { header: 1, raw: true, defval: null, blankrows: false });
+    return toSheet(name, grid);
+  });
+};
+
+const cache = new Map<string, Promise<SpreadsheetSheet[]>>();
+
+// Sheets of an uploaded spreadsheet with typed columns. Results are cached by
+// file id, since the same upload is read for the preview and for every turn
+// of the conversation it is sent with.
+export const parseSpreadsheet = (file: FileUpload): Promise<SpreadsheetSheet[]> => {
+  const cached = cache.get(file.id);
+  if (cached) return cached;
+
+  const parsed = readWorkbook(file).catch(error => {
+    cache.delete(file.id);
+    throw new SpreadsheetError(`${file.name}: could not read the spreadsheet (${error instanceof Error ? error.message : 'unknown error'}).`);
+  });
+  cache.set(file.id, parsed);
+  if (cache.size > CACHE_SIZE) {
+    cache.delete(cache.keys().next().value as string);
+  }
+  return parsed;
+};
+
+// First sheet with data, all its columns, sampled when it is large
+export const defaultSpreadsheetOptions = (sheets: SpreadsheetSheet[]): SpreadsheetOptions => {
+  const sheet = sheets.find(s => s.rows.length > 0) ?? sheets[0];
+  return {
+    sheets: sheet ? [{ name: sheet.name, firstColumn: 0, lastColumn: Math.max(0, sheet.columns.length - 1) }] : [],
+    sampling: sheet && sheet.rows.length > SMALL_SHEET_ROWS ? 'even' : 'all',
+    sampleSize: DEFAULT_SAMPLE_SIZE
+  };
+};
+
+// Indexes of the rows to send
+export const sampleRows = (rowCount: number, sampling: SpreadsheetSampling, size: number): number[] => {
+  if (sampling === 'summary') return [];
+  const count = sampling === 'all' ? rowCount : Math.min(rowCount, size);
+  if (sampling === 'even' && count < rowCount) {
+    const step = rowCount / count;
+    return Array.from({ length: count }, (_, i) => Math.floor(i * step));
+  }
+  return Array.from({ length: count }, (_, i) => i);
+};
+
+const formatNumber = (value: number): string =>
+  Number.isInteger(value) ? String(value) : String(Number(value.toPrecision(6)));
+
+// SheetJS gives dates in local time; show them as typed in the sheet
+const formatDate = (value: Date): string => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const date = `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+  return value.getHours() || value.getMinutes() ? `${date} ${pad(value.getHours())}:${pad(value.getMinutes())}` : date;
+};
+
+export const formatCell = (value: CellValue): string => {
+  if (value === null) return '';
+  if (value instanceof Date) return formatDate(value);
+  if (typeof value === 'number') return formatNumber(value);
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  return value;
+};
+
+// Cell text safe inside a Markdown table row
+const tableCell = (value: CellValue): string => {
+  const text = formatCell(value).replace(/\s+/g, ' ').replace(/\|/g, '\\|');
+  return text.length > MAX_CELL_LENGTH ? `${text.slice(0, MAX_CELL_LENGTH - 3)}...` : text;
+};
+
+// One line of statistics for a column, over every row of the sheet
+export const describeColumn = (column: SpreadsheetColumn, values: CellValue[]): string => {
+  const filled = values.filter(isFilled);
+  const blanks = values.length - filled.length;
+  const blankNote = blanks > 0 ? `; ${blanks} blank` : '';
+  let stats: string;
+
+  switch (column.type) {
+    case 'number': {
+      const numbers = filled.filter((v): v is number => typeof v === 'number');
+      const sum = numbers.reduce((total, n) => total + n, 0);
+      const min = numbers.reduce((a, b) => Math.min(a, b), Infinity);
+      const max = numbers.reduce((a, b) => Math.max(a, b), -Infinity);
+      stats = `min ${formatNumber(min)}, max ${formatNumber(max)}, mean ${formatNumber(sum / numbers.length)}`;
+      break;
+    }
+    case 'date': {
+      const times = filled.filter((v): v is Date => v instanceof Date).map(d => d.getTime());
+      const first = times.reduce((a, b) => Math.min(a, b), Infinity);
+      const last = times.reduce((a, b) => Math.max(a, b), -Infinity);
+      stats = `from ${formatDate(new Date(first))} to ${formatDate(new Date(last))}`;
+      break;
+    }
+    case 'boolean': {
+      const trues = filled.filter(v => v === true).length;
+      stats = `${trues} TRUE, ${filled.length - trues} FALSE`;
+      break;
+    }
+    case 'empty':
+      return `- ${column.name} [empty]`;
+    default: {
+      const counts = new Map<string, number>();
+      filled.forEach(v => counts.set(formatCell(v), (counts.get(formatCell(v)) ?? 0) + 1));
+      const top = [...counts.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, TOP_VALUES)
+        .map(([value, count]) => `${tableCell(value)} (${count})`);
+      stats = `${counts.size} distinct; most common ${top.join(', ')}`;
+    }
+  }
+  return `- ${column.name} [${column.type}]: ${stats}${blankNote}`;
+};
+
+const SAMPLING_LABELS: Record<SpreadsheetSampling, (shown: number) => string> = {
+  all: shown => `all ${shown} rows`,
+  head: shown => `first ${shown} rows`,
+  even: shown => `${shown} rows sampled evenly`,
+  summary: () => 'column statistics only'
+};
+
+// Compact text for the model: the selected sheets and columns as Markdown
+// tables (sampled to fit), each followed by statistics over all of its rows
+export const spreadsheetToText = (file: FileUpload, sheets: SpreadsheetSheet[], options: SpreadsheetOptions): string => {
+  const selected = options.sheets
+    .map(choice => ({ choice, sheet: sheets.find(s => s.name === choice.name) }))
+    .filter((entry): entry is { choice: typeof entry.choice; sheet: SpreadsheetSheet } => !!entry.sheet);
+  if (selected.length === 0) {
+    return `[Spreadsheet ${file.name}: no sheets selected]`;
+  }
+
+  const cellBudget = Math.floor(MAX_TABLE_CELLS / selected.length);
+  return selected.map(({ choice, sheet }) => {
+    const columnIndexes = sheet.columns
+      .map((_, i) => i)
+      .filter(i => i >= choice.firstColumn && i <= choice.lastColumn);
+    const columns = columnIndexes.map(i => sheet.columns[i]);
+
+    let rowIndexes = sampleRows(sheet.rows.length, options.sampling, options.sampleSize);
+    const maxRows = Math.max(1, Math.floor(cellBudget / Math.max(1, columns.length + 1)));
+    const reduced = rowIndexes.length > maxRows;
+    if (reduced) {
+      rowIndexes = sampleRows(rowIndexes.length, 'even', maxRows).map(i => rowIndexes[i]);
+    }
+
+    const range = columns.length > 0 ? `${columns[0].letter}-${columns[columns.length - 1].letter}` : 'none';
+    const lines = [
+      `[Spreadsheet ${file.name}, sheet "${sheet.name}": ${sheet.rows.length} rows, columns ${range}; ` +
+      `${SAMPLING_LABELS[options.sampling](rowIndexes.length)}${reduced ? ' (reduced to fit)' : ''}]`
+    ];
+
+    if (rowIndexes.length > 0 && columns.length > 0) {
+      lines.push(
+        `| Row | ${columns.map(c => tableCell(c.name)).join(' | ')} |`,
+        `|---|${columns.map(() => '---').join('|')}|`,
+        ...rowIndexes.map(r =>
+          `| ${sheet.firstRow + r} | ${columnIndexes.map(i => tableCell(sheet.rows[r][i])).join(' | ')} |`
+        )
+      );
+    }
+
+    lines.push(
+      `Column statistics (all ${sheet.rows.length} rows):`,
+      ...columnIndexes.map(i => describeColumn(sheet.columns[i], sheet.rows.map(row => row[i])))
+    );
+    return lines.join('\n');
+  }).join('\n\n');
+};
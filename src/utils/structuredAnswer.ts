@@ -0,0 +1,133 @@
+import type { LLMSchema, StructuredAnswer } from '../types';
+
+const bulletList = (description: string): LLMSchema => ({
+  type: 'array',
+  description,
+  items: { type: 'string' }
+});
+
+export const STRUCTURED_ANSWER_SCHEMA: LLMSchema = {
+  type: 'object',
+  properties: {
+    problem: { type: 'string', description: 'Problem understanding: restate the issue and its context in 2-4 sentences' },
+    analysis: bulletList('Analysis and best practices, one point per item'),
+    recommendations: bulletList('Actionable recommendations as ordered steps, one step per item'),
+    compliance: bulletList('Compliance and safety notes; empty when not relevant'),
+    cost: bulletList('Cost and efficiency implications, one point per item')
+  },
+  required: ['problem', 'analysis', 'recommendations', 'compliance', 'cost']
+};
+
+// Section labels, shared by the card renderer and the plain-text form
+export const STRUCTURED_SECTION_TITLES: Record<keyof StructuredAnswer, string> = {
+  problem: 'Problem Understanding',
+  analysis: 'Analysis / Best Practices',
+  recommendations: 'Actionable Recommendations',
+  compliance: 'Compliance Notes',
+  cost: 'Cost & Efficiency Implications'
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const clean = (text: string) => text.replace(/\*\*(.*?)\*\*/g, '$1').trim();
+
+// Strictly validate a parsed value as a complete structured answer
+const toStructuredAnswer = (value: unknown): StructuredAnswer | null => {
+  if (!value || typeof value !== 'object') return null;
+  const v = value as Record<string, unknown>;
+
+  if (typeof v.problem !== 'string' || !v.problem.trim()) return null;
+  if (!isStringArray(v.analysis) || !isStringArray(v.recommendations) ||
+      !isStringArray(v.compliance) || !isStringArray(v.cost)) return null;
+  if (v.analysis.length === 0 && v.recommendations.length === 0) return null;
+
+  return {
+    problem: clean(v.problem),
+    analysis: v.analysis.map(clean).filter(Boolean),
+    recommendations: v.recommendations.map(clean).filter(Boolean),
+    compliance: v.compliance.map(clean).filter(Boolean),
+    cost: v.cost.map(clean).filter(Boolean)
+  };
+};
+
+// Some models wrap JSON in a ```json fence even in JSON mode
+const stripCodeFence = (text: string) =>
+  text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+export const parseStructuredAnswer = (text: string): StructuredAnswer | null => {
+  try {
+    return toStructuredAnswer(JSON.parse(stripCodeFence(text)));
+  } catch {
+    return null;
+  }
+};
+
+// Close an incomplete JSON document so it can be parsed: terminates an open
+// string, drops a dangling key or separator and closes open brackets.
+const completePartialJson = (text: string): string => {
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (const ch of text) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === '{' || ch === '[') {
+      stack.push(ch === '{' ? '}' : ']');
+    } else if (ch === '}' || ch === ']') {
+      stack.pop();
+    }
+  }
+
+  let out = text;
+  if (inString) {
+    if (escaped) out = out.slice(0, -1);
+    out += '"';
+  }
+
+  out = out.replace(/[\s,]*$/, '');
+  // A trailing `"key":` or bare `"key"` inside an object has no value yet
+  out = out.replace(/,?\s*"(?:[^"\\]|\\.)*"\s*:$/, '');
+  if (stack[stack.length - 1] === '}') {
+    out = out.replace(/([{,])\s*"(?:[^"\\]|\\.)*"$/, '$1').replace(/,$/, '');
+  }
+
+  return out + stack.reverse().join('');
+};
+
+// Best-effort view of a structured answer that is still streaming in.
+// Missing sections come back empty so cards can appear one by one.
+export const parsePartialStructuredAnswer = (text: string): StructuredAnswer | null => {
+  const body = stripCodeFence(text);
+  if (!body.startsWith('{')) return null;
+
+  try {
+    const v = JSON.parse(completePartialJson(body)) as Record<string, unknown>;
+    const list = (value: unknown) => (isStringArray(value) ? value.map(clean).filter(Boolean) : []);
+    return {
+      problem: typeof v.problem === 'string' ? clean(v.problem) : '',
+      analysis: list(v.analysis),
+      recommendations: list(v.recommendations),
+      compliance: list(v.compliance),
+      cost: list(v.cost)
+    };
+  } catch {
+    return null;
+  }
+};
+
+// Plain-text form used as message content (conversation context, copy, fallback rendering)
+export const structuredAnswerToText = (answer: StructuredAnswer): string => {
+  const sections: string[] = [`${STRUCTURED_SECTION_TITLES.problem}\n${answer.problem}`];
+  (['analysis', 'recommendations', 'compliance', 'cost'] as const).forEach(key => {
+    if (answer[key].length > 0) {
+      sections.push(`${STRUCTURED_SECTION_TITLES[key]}\n${answer[key].map(item => `- ${item}`).join('\n')}`);
+    }
+  });
+  return sections.join('\n\n');
+};
@@ -0,0 +1,106 @@
+// Just enough of the zip format to read entries out of Office files. Deflated
+// entries are inflated with the browser's DecompressionStream.
+
+const END_OF_DIRECTORY = 0x06054b50;
+const DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_HEADER = 0x04034b50;
+// End-of-directory record plus the longest archive comment
+const MAX_END_SEARCH = 22 + 0xffff;
+// Largest entry read out, so a small crafted archive cannot expand into
+// gigabytes in the tab
+const MAX_ENTRY_BYTES = 50 * 1024 * 1024;
+
+interface ZipEntry {
+  name: string;
+  method: number; // 0 stored, 8 deflated
+  compressedSize: number;
+  size: number; // Uncompressed, as declared by the directory
+  headerOffset: number;
+}
+
+export class ZipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipError';
+  }
+}
+
+const readEntries = (bytes: Uint8Array): ZipEntry[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - MAX_END_SEARCH); i--) {
+    if (view.getUint32(i, true) === END_OF_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new ZipError('Not a zip archive.');
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > bytes.length || view.getUint32(offset, true) !== DIRECTORY_ENTRY) {
+      throw new ZipError('The archive directory is damaged.');
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    entries.push({
+      name: decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength)),
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      size: view.getUint32(offset + 24, true),
+      headerOffset: view.getUint32(offset + 42, true)
+    });
+    offset += 46 + nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true);
+  }
+  return entries;
+};
+
+const tooLarge = (name: string) =>
+  new ZipError(`${name} is larger than ${MAX_ENTRY_BYTES / 1024 / 1024} MB once unpacked.`);
+
+// Inflate chunk by chunk, giving up as soon as the output passes
+// MAX_ENTRY_BYTES; the declared size cannot be trusted
+const inflate = async (data: Uint8Array, name: string): Promise<Uint8Array> => {
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw')).getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.length;
+    if (length > MAX_ENTRY_BYTES) {
+      await reader.cancel();
+      throw tooLarge(name);
+    }
+    chunks.push(value);
+  }
+
+  const output = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+};
+
+// Contents of one file in the archive, or null when it is not there
+export const readZipEntry = async (bytes: Uint8Array, name: string): Promise<Uint8Array | null> => {
+  const entry = readEntries(bytes).find(e => e.name === name);
+  if (!entry) return null;
+  if (entry.size > MAX_ENTRY_BYTES || entry.compressedSize > MAX_ENTRY_BYTES) throw tooLarge(name);
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.getUint32(entry.headerOffset, true) !== LOCAL_HEADER) {
+    throw new ZipError(`${name} is damaged in the archive.`);
+  }
+  const start = entry.headerOffset + 30 + view.getUint16(entry.headerOffset + 26, true) + view.getUint16(entry.headerOffset + 28, true);
+  const data = bytes.subarray(start, start + entry.compressedSize);
+  switch (entry.method) {
+    case 0: return data;
+    case 8: return inflate(data, name);
+    default: throw new ZipError(`${name} uses an unsupported compression method.`);
+  }
+};
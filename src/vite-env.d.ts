@@ -1 +1,16 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_LLM_PROVIDER?: string;
+  readonly VITE_LLM_MODEL?: string;
+  readonly VITE_LLM_BASE_URL?: string;
+  readonly VITE_LLM_API_KEY?: string;
+  readonly VITE_LLM_PROXY_URL?: string; // Proxy server holding the provider key, e.g. http://localhost:8787
+  readonly VITE_LLM_PROXY_KEY?: string; // Access key the proxy asks for before it issues sessions; public once bundled
+  readonly VITE_EMBEDDING_MODEL?: string; // Knowledge base embeddings; defaults per provider
+  readonly VITE_ADMIN_EMAILS?: string; // Comma-separated; these accounts can override prompt templates in their own browser
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}